@@ -1,4 +1,5 @@
-import { apiClient } from "@/api/client";
+import { apiClient, toRequestConfig } from "@/shared/api/httpClient";
+import type { RequestOptions } from "@/shared/api/httpClient";
 
 export type ContractStatus = "DRAFT" | "ACTIVE" | "CLOSED" | "CANCELED";
 
@@ -54,7 +55,7 @@ function normalizeList<T>(payload: unknown): T[] {
 }
 
 export const contractsApi = {
-  list: async (filters?: ContractFilters): Promise<Contract[]> => {
+  list: async (filters?: ContractFilters, options?: RequestOptions): Promise<Contract[]> => {
     const params = new URLSearchParams();
     if (filters?.status) params.append("status", filters.status);
     if (filters?.tenant_id) params.append("tenant_id", String(filters.tenant_id));
@@ -62,12 +63,12 @@ export const contractsApi = {
 
     const query = params.toString();
     const url = query ? `/api/v1/contracts/?${query}` : "/api/v1/contracts/";
-    const response = await apiClient.get(url);
+    const response = await apiClient.get(url, toRequestConfig(options));
     return normalizeList<Contract>(response.data);
   },
 
-  get: async (id: number): Promise<Contract> => {
-    const response = await apiClient.get(`/api/v1/contracts/${id}/`);
+  get: async (id: number, options?: RequestOptions): Promise<Contract> => {
+    const response = await apiClient.get(`/api/v1/contracts/${id}/`, toRequestConfig(options));
     return response.data as Contract;
   },
 
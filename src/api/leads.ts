@@ -0,0 +1,230 @@
+import { apiClient, toRequestConfig } from "@/shared/api/httpClient";
+import type { RequestOptions } from "@/shared/api/httpClient";
+
+export type LeadStage = "NEW" | "CONTACTED" | "QUALIFIED" | "PROPOSAL" | "WON" | "LOST";
+
+export type LeadSource = "WEBSITE" | "REFERRAL" | "PHONE" | "WALK_IN" | "CAMPAIGN" | "OTHER";
+
+export type LeadOwner = {
+  id: number;
+  name: string;
+  email: string;
+};
+
+export type LeadTimeline = "IMMEDIATE" | "30_DAYS" | "90_DAYS" | "LATER";
+
+export type LeadQualification = {
+  budget_confirmed: boolean;
+  budget_notes: string | null;
+  timeline: LeadTimeline | null;
+  unit_type: number | null;
+};
+
+export type Lead = {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string | null;
+  phone_primary: string | null;
+  phone_secondary: string | null;
+  source: string | null;
+  stage: LeadStage;
+  owner_id: number | null;
+  owner?: LeadOwner | null;
+  converted_tenant: number | null;
+  unit_of_interest?: number | null;
+  qualification?: LeadQualification | null;
+  next_follow_up_at?: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type LeadPayload = {
+  first_name: string;
+  last_name: string;
+  email?: string | null;
+  phone_primary?: string | null;
+  phone_secondary?: string | null;
+  source?: string | null;
+  stage: LeadStage;
+  owner_id?: number | null;
+  unit_of_interest?: number | null;
+  qualification?: LeadQualification | null;
+  next_follow_up_at?: string | null;
+  notes?: string | null;
+};
+
+export type LeadActivityKind = "CALL" | "EMAIL" | "WHATSAPP" | "VISIT" | "NOTE";
+
+export type LeadActivityOutcome = "REACHED" | "NO_ANSWER" | "VOICEMAIL" | "CALLBACK";
+
+export type LeadActivity = {
+  id: number;
+  kind: LeadActivityKind;
+  outcome: LeadActivityOutcome | null;
+  notes: string | null;
+  occurred_at: string;
+  created_by?: LeadOwner | null;
+};
+
+export type LeadActivityPayload = {
+  kind: LeadActivityKind;
+  outcome?: LeadActivityOutcome | null;
+  notes?: string | null;
+  occurred_at?: string;
+};
+
+export type LeadFilters = {
+  q?: string;
+  stage?: LeadStage;
+  // Any of these stages; sent comma-separated.
+  stage__in?: LeadStage[];
+  owner_id?: number;
+  follow_up_before?: string;
+  page?: number;
+  page_size?: number;
+};
+
+export type LeadListResponse = {
+  results: Lead[];
+  count: number;
+  next: string | null;
+  previous: string | null;
+  page: number;
+  pageSize: number;
+};
+
+export type LeadConvertPayload = {
+  tenant: {
+    first_name: string;
+    last_name: string;
+    email: string | null;
+    phone_primary: string | null;
+    document: string | null;
+    category: string | null;
+    address: string | null;
+    address_city: string | null;
+    address_state: string | null;
+    address_zip: string | null;
+  };
+  contract: {
+    unit: number;
+    move_in: string;
+    move_out: string | null;
+    monthly_rate: number | null;
+    deposit_amount: number | null;
+    terms: string | null;
+    notes: string | null;
+  };
+};
+
+export type LeadConvertResponse = {
+  id?: number;
+  tenant?: { id: number } | null;
+  contract?: { id: number } | null;
+};
+
+function normalizeList(payload: unknown): { results: Lead[]; count: number } {
+  if (Array.isArray(payload)) {
+    return { results: payload as Lead[], count: payload.length };
+  }
+
+  if (payload && typeof payload === "object" && "results" in payload) {
+    const results = (payload as { results?: Lead[] }).results;
+    const count =
+      (payload as { count?: number }).count ?? (Array.isArray(results) ? results.length : 0);
+    return { results: Array.isArray(results) ? results : [], count };
+  }
+
+  return { results: [], count: 0 };
+}
+
+export const leadsApi = {
+  list: async (filters: LeadFilters = {}, options?: RequestOptions): Promise<LeadListResponse> => {
+    const params = new URLSearchParams();
+    if (filters.q) params.append("q", filters.q);
+    if (filters.stage) params.append("stage", filters.stage);
+    if (filters.stage__in?.length) params.append("stage__in", filters.stage__in.join(","));
+    if (filters.owner_id) params.append("owner_id", String(filters.owner_id));
+    if (filters.follow_up_before) params.append("follow_up_before", filters.follow_up_before);
+    if (filters.page) params.append("page", String(filters.page));
+    if (filters.page_size) params.append("page_size", String(filters.page_size));
+
+    const query = params.toString();
+    const url = query ? `/api/v1/leads/?${query}` : "/api/v1/leads/";
+    const response = await apiClient.get(url, toRequestConfig(options));
+    const data = response.data as {
+      next?: string | null;
+      previous?: string | null;
+      page_size?: number;
+    };
+    const normalized = normalizeList(response.data);
+    return {
+      results: normalized.results,
+      count: normalized.count,
+      next: data?.next ?? null,
+      previous: data?.previous ?? null,
+      page: filters.page ?? 1,
+      pageSize: data?.page_size ?? filters.page_size ?? normalized.results.length
+    };
+  },
+
+  listAll: async (filters: Omit<LeadFilters, "page"> = {}): Promise<Lead[]> => {
+    const leads: Lead[] = [];
+    let page = 1;
+
+    for (;;) {
+      const response = await leadsApi.list({
+        ...filters,
+        page,
+        page_size: filters.page_size ?? 100
+      });
+      leads.push(...response.results);
+      if (!response.next || response.results.length === 0) {
+        return leads;
+      }
+      page += 1;
+    }
+  },
+
+  get: async (id: number | string, options?: RequestOptions): Promise<Lead> => {
+    const response = await apiClient.get(`/api/v1/leads/${id}/`, toRequestConfig(options));
+    return response.data as Lead;
+  },
+
+  create: async (data: LeadPayload): Promise<Lead> => {
+    const response = await apiClient.post("/api/v1/leads/", data);
+    return response.data as Lead;
+  },
+
+  update: async (id: number, data: Partial<LeadPayload>): Promise<Lead> => {
+    const response = await apiClient.patch(`/api/v1/leads/${id}/`, data);
+    return response.data as Lead;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/api/v1/leads/${id}/`);
+  },
+
+  listActivities: async (id: number, options?: RequestOptions): Promise<LeadActivity[]> => {
+    const response = await apiClient.get(
+      `/api/v1/leads/${id}/activities/`,
+      toRequestConfig(options)
+    );
+    const data = response.data;
+    if (Array.isArray(data)) return data as LeadActivity[];
+    if (data && Array.isArray(data.results)) return data.results as LeadActivity[];
+    return [];
+  },
+
+  addActivity: async (id: number, data: LeadActivityPayload): Promise<LeadActivity> => {
+    const response = await apiClient.post(`/api/v1/leads/${id}/activities/`, data);
+    return response.data as LeadActivity;
+  },
+
+  convert: async (id: number, data: LeadConvertPayload): Promise<LeadConvertResponse> => {
+    const response = await apiClient.post(`/api/v1/leads/${id}/convert/`, data);
+    return response.data as LeadConvertResponse;
+  }
+};
@@ -1,4 +1,4 @@
-import { apiClient } from "@/api/client";
+import { apiClient } from "@/shared/api/httpClient";
 
 export type Organization = {
   id: number;
@@ -0,0 +1,31 @@
+import { apiClient } from "@/shared/api/httpClient";
+import { toUser } from "@/shared/auth/profile";
+import type { ProfileResponse } from "@/shared/auth/profile";
+import type { User } from "@/shared/auth/types";
+
+export type ProfilePayload = {
+  first_name: string;
+  last_name: string;
+  locale: string;
+};
+
+export type PasswordChangePayload = {
+  current_password: string;
+  new_password: string;
+};
+
+export const profileApi = {
+  get: async (): Promise<User> => {
+    const response = await apiClient.get<ProfileResponse>("/api/profile/");
+    return toUser(response.data);
+  },
+
+  update: async (data: ProfilePayload): Promise<User> => {
+    const response = await apiClient.patch<ProfileResponse>("/api/profile/", data);
+    return toUser(response.data);
+  },
+
+  changePassword: async (data: PasswordChangePayload): Promise<void> => {
+    await apiClient.post("/api/profile/password/", data);
+  }
+};
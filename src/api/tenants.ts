@@ -1,4 +1,5 @@
-import { apiClient } from "@/api/client";
+import { apiClient, toRequestConfig } from "@/shared/api/httpClient";
+import type { RequestOptions } from "@/shared/api/httpClient";
 
 export type Tenant = {
   id: number;
@@ -46,6 +47,10 @@ export type Tenant360 = {
   tabs: Tenant360Tab[];
 };
 
+export type TenantFilters = {
+  q?: string;
+};
+
 function normalizeList(payload: unknown): Tenant[] {
   if (Array.isArray(payload)) {
     return payload as Tenant[];
@@ -62,13 +67,18 @@ function normalizeList(payload: unknown): Tenant[] {
 }
 
 export const tenantsApi = {
-  list: async (): Promise<Tenant[]> => {
-    const response = await apiClient.get("/api/v1/tenants/");
+  list: async (filters?: TenantFilters, options?: RequestOptions): Promise<Tenant[]> => {
+    const params = new URLSearchParams();
+    if (filters?.q) params.append("q", filters.q);
+
+    const query = params.toString();
+    const url = query ? `/api/v1/tenants/?${query}` : "/api/v1/tenants/";
+    const response = await apiClient.get(url, toRequestConfig(options));
     return normalizeList(response.data);
   },
 
-  get: async (id: number): Promise<Tenant> => {
-    const response = await apiClient.get(`/api/v1/tenants/${id}/`);
+  get: async (id: number, options?: RequestOptions): Promise<Tenant> => {
+    const response = await apiClient.get(`/api/v1/tenants/${id}/`, toRequestConfig(options));
     return response.data as Tenant;
   },
 
@@ -86,8 +96,8 @@ export const tenantsApi = {
     await apiClient.delete(`/api/v1/tenants/${id}/`);
   },
 
-  get360: async (id: number): Promise<Tenant360> => {
-    const response = await apiClient.get(`/api/v1/tenants/${id}/360/`);
+  get360: async (id: number, options?: RequestOptions): Promise<Tenant360> => {
+    const response = await apiClient.get(`/api/v1/tenants/${id}/360/`, toRequestConfig(options));
     return response.data as Tenant360;
   }
 };
@@ -1,4 +1,6 @@
-import { apiClient } from "@/api/client";
+import { apiClient, toRequestConfig } from "@/shared/api/httpClient";
+import type { RequestOptions } from "@/shared/api/httpClient";
+import { isHttpError } from "@/shared/api/errorHandling";
 
 export type UnitType = {
   id: number;
@@ -12,6 +14,17 @@ export type UnitType = {
   facility: number | null;
 };
 
+export type UnitTypePayload = {
+  name: string;
+  width: string | null;
+  depth: string | null;
+  height: string | null;
+  base_price: string | null;
+  min_price: string | null;
+  max_price: string | null;
+  facility: number | null;
+};
+
 export type UnitStatus = "LIVRE" | "RESERVADA" | "OCUPADA" | "BLOQUEADA" | "EM_VISTORIA";
 
 export type UnitRecord = {
@@ -27,6 +40,45 @@ export type UnitPayload = {
   unit_number: string;
   status: UnitStatus;
   reservation_expires_at: string | null;
+  // Stored with the status history entry; required when blocking or inspecting a unit.
+  status_reason?: string | null;
+};
+
+// The server sets RESERVADA and the expiry from its own clock in one step. A renewal names
+// the reservation it extends; a unit that is not free (or held by someone else) answers 409.
+export type UnitReservePayload = {
+  minutes: number;
+  expected_expires_at?: string | null;
+};
+
+// Frees the unit only while `expected_expires_at` still matches, otherwise 409.
+export type UnitReleasePayload = {
+  expected_expires_at: string;
+};
+
+export type UnitStatusChange = {
+  id: number;
+  from_status: UnitStatus | null;
+  to_status: UnitStatus;
+  reason: string | null;
+  changed_at: string;
+  changed_by?: { id: number; name: string; email: string } | null;
+};
+
+// Grid cell of a unit on the facility floor map; x is the column and y the row.
+export type FloorTile = {
+  unit: number;
+  x: number;
+  y: number;
+};
+
+export type FloorLayout = {
+  tiles: FloorTile[];
+  updated_at: string | null;
+};
+
+export type FloorLayoutPayload = {
+  tiles: FloorTile[];
 };
 
 function normalizeList<T>(payload: unknown): T[] {
@@ -45,18 +97,48 @@ function normalizeList<T>(payload: unknown): T[] {
 }
 
 export const unitTypesApi = {
-  list: async (): Promise<UnitType[]> => {
-    const response = await apiClient.get("/api/v1/inventory/unit-types/");
+  list: async (options?: RequestOptions): Promise<UnitType[]> => {
+    const response = await apiClient.get("/api/v1/inventory/unit-types/", toRequestConfig(options));
     return normalizeList<UnitType>(response.data);
+  },
+
+  create: async (data: UnitTypePayload): Promise<UnitType> => {
+    const response = await apiClient.post("/api/v1/inventory/unit-types/", data);
+    return response.data as UnitType;
+  },
+
+  update: async (id: number, data: UnitTypePayload): Promise<UnitType> => {
+    const response = await apiClient.put(`/api/v1/inventory/unit-types/${id}/`, data);
+    return response.data as UnitType;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/api/v1/inventory/unit-types/${id}/`);
   }
 };
 
 export const unitsApi = {
-  list: async (): Promise<UnitRecord[]> => {
-    const response = await apiClient.get("/api/v1/inventory/units/");
+  list: async (options?: RequestOptions): Promise<UnitRecord[]> => {
+    const response = await apiClient.get("/api/v1/inventory/units/", toRequestConfig(options));
     return normalizeList<UnitRecord>(response.data);
   },
 
+  get: async (id: number, options?: RequestOptions): Promise<UnitRecord> => {
+    const response = await apiClient.get(
+      `/api/v1/inventory/units/${id}/`,
+      toRequestConfig(options)
+    );
+    return response.data as UnitRecord;
+  },
+
+  statusHistory: async (id: number, options?: RequestOptions): Promise<UnitStatusChange[]> => {
+    const response = await apiClient.get(
+      `/api/v1/inventory/units/${id}/status-history/`,
+      toRequestConfig(options)
+    );
+    return normalizeList<UnitStatusChange>(response.data);
+  },
+
   create: async (data: UnitPayload): Promise<UnitRecord> => {
     const response = await apiClient.post("/api/v1/inventory/units/", data);
     return response.data as UnitRecord;
@@ -67,7 +149,54 @@ export const unitsApi = {
     return response.data as UnitRecord;
   },
 
+  patch: async (id: number, data: Partial<UnitPayload>): Promise<UnitRecord> => {
+    const response = await apiClient.patch(`/api/v1/inventory/units/${id}/`, data);
+    return response.data as UnitRecord;
+  },
+
+  reserve: async (id: number, data: UnitReservePayload): Promise<UnitRecord> => {
+    const response = await apiClient.post(`/api/v1/inventory/units/${id}/reserve/`, data);
+    return response.data as UnitRecord;
+  },
+
+  release: async (id: number, data: UnitReleasePayload): Promise<UnitRecord> => {
+    const response = await apiClient.post(`/api/v1/inventory/units/${id}/release/`, data);
+    return response.data as UnitRecord;
+  },
+
   delete: async (id: number): Promise<void> => {
     await apiClient.delete(`/api/v1/inventory/units/${id}/`);
   }
 };
+
+// One layout per facility, picked by the X-Facility-ID header.
+export const floorLayoutApi = {
+  get: async (options?: RequestOptions): Promise<FloorLayout> => {
+    try {
+      const response = await apiClient.get(
+        "/api/v1/inventory/floor-layout/",
+        toRequestConfig(options)
+      );
+      const data = response.data as Partial<FloorLayout> | null;
+      return {
+        tiles: Array.isArray(data?.tiles) ? data.tiles : [],
+        updated_at: data?.updated_at ?? null
+      };
+    } catch (error) {
+      // Facilities nobody has laid out yet have no layout record.
+      if (isHttpError(error) && error.status === 404) {
+        return { tiles: [], updated_at: null };
+      }
+      throw error;
+    }
+  },
+
+  save: async (data: FloorLayoutPayload, options?: RequestOptions): Promise<FloorLayout> => {
+    const response = await apiClient.put(
+      "/api/v1/inventory/floor-layout/",
+      data,
+      toRequestConfig(options)
+    );
+    return response.data as FloorLayout;
+  }
+};
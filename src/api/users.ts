@@ -0,0 +1,64 @@
+import { apiClient } from "@/shared/api/httpClient";
+
+export type UserFacility = {
+  id: number;
+  name: string;
+};
+
+export type UserAccount = {
+  id: number;
+  email: string;
+};
+
+export type UserProfile = {
+  id: number;
+  name?: string | null;
+  email?: string | null;
+  user?: UserAccount | number | null;
+  user_id?: number | null;
+  user_email?: string | null;
+  role?: string | null;
+  facilities?: Array<UserFacility | number> | null;
+};
+
+export type UserProfilePayload = {
+  user: number | string;
+  role: string;
+  facilities: string[];
+};
+
+function normalizeList(payload: unknown): UserProfile[] {
+  if (Array.isArray(payload)) {
+    return payload as UserProfile[];
+  }
+
+  if (payload && typeof payload === "object" && "results" in payload) {
+    const results = (payload as { results?: UserProfile[] }).results;
+    if (Array.isArray(results)) {
+      return results;
+    }
+  }
+
+  return [];
+}
+
+export const usersApi = {
+  list: async (): Promise<UserProfile[]> => {
+    const response = await apiClient.get("/api/v1/users/");
+    return normalizeList(response.data);
+  },
+
+  create: async (data: UserProfilePayload): Promise<UserProfile> => {
+    const response = await apiClient.post("/api/v1/users/", data);
+    return response.data as UserProfile;
+  },
+
+  update: async (id: number, data: UserProfilePayload): Promise<UserProfile> => {
+    const response = await apiClient.put(`/api/v1/users/${id}/`, data);
+    return response.data as UserProfile;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await apiClient.delete(`/api/v1/users/${id}/`);
+  }
+};
@@ -1,11 +1,24 @@
+import { useEffect } from "react";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { RouterProvider } from "react-router-dom";
 import { router } from "@/app/router";
 import { AuthProvider } from "@/shared/auth";
 import { FacilityProvider } from "@/contexts/FacilityContext";
 import { queryClient } from "@/shared/api/queryClient";
+import { setFacilityPromptHandler } from "@/shared/facility/facilityPrompt";
+
+// A `403 facility_required` parks the request and sends the user to the selector.
+function promptForFacility() {
+  const { pathname, search } = router.state.location;
+  if (pathname === "/select-facility") {
+    return;
+  }
+  router.navigate(`/select-facility?next=${encodeURIComponent(pathname + search)}`);
+}
 
 export default function App() {
+  useEffect(() => setFacilityPromptHandler(promptForFacility), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
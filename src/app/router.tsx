@@ -6,6 +6,7 @@ import UsersPage from "@/pages/Users";
 import OrganizationsPage from "@/pages/Organizations";
 import FacilitiesPage from "@/pages/Facilities";
 import UnitsPage from "@/pages/Units";
+import UnitTypesPage from "@/pages/UnitTypes";
 import LeadsPage from "@/pages/Leads";
 import LeadDetailPage from "@/pages/LeadDetail";
 import LeadConvertPage from "@/pages/LeadConvert";
@@ -17,9 +18,11 @@ import InvoiceDetailPage from "@/pages/billing/InvoiceDetailPage";
 import PaymentListPage from "@/pages/billing/PaymentListPage";
 import ContractsPage from "@/pages/Contracts";
 import ContractDetailPage from "@/pages/ContractDetail";
+import SelectFacilityPage from "@/pages/SelectFacility";
+import MyProfilePage from "@/pages/MyProfile";
 import UnauthorizedPage from "@/pages/UnauthorizedPage";
 import NotFoundPage from "@/pages/NotFoundPage";
-import { RequireRole } from "@/shared/auth";
+import { RequireAuth, RequirePermission } from "@/shared/auth";
 import AuthenticatedLayout from "@/widgets/layout/AuthenticatedLayout";
 
 export const router = createBrowserRouter([
@@ -32,138 +35,158 @@ export const router = createBrowserRouter([
     element: <LoginPage />
   },
   {
-    element: <AuthenticatedLayout />,
+    element: (
+      <RequireAuth>
+        <AuthenticatedLayout />
+      </RequireAuth>
+    ),
     children: [
+      {
+        path: "/select-facility",
+        element: <SelectFacilityPage />
+      },
       {
         path: "/dashboard",
         element: <DashboardPage />
       },
+      {
+        path: "/profile",
+        element: <MyProfilePage />
+      },
       {
         path: "/users",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo"]}>
+          <RequirePermission permission="users.view_userprofile">
             <UsersPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/organizations",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo"]}>
+          <RequirePermission permission="organizations.view_organization">
             <OrganizationsPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/facilities",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente"]}>
+          <RequirePermission permission="facilities.view_facility">
             <FacilitiesPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/units",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "financeiro"]}>
+          <RequirePermission permission="units.view_unit">
             <UnitsPage />
-          </RequireRole>
+          </RequirePermission>
+        )
+      },
+      {
+        path: "/unit-types",
+        element: (
+          <RequirePermission permission="units.view_unittype">
+            <UnitTypesPage />
+          </RequirePermission>
         )
       },
       {
         path: "/leads",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops"]}>
+          <RequirePermission permission="leads.view_lead">
             <LeadsPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/leads/:id",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops"]}>
+          <RequirePermission permission="leads.view_lead">
             <LeadDetailPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/leads/:id/convert",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente"]}>
+          <RequirePermission permission="leads.convert_lead">
             <LeadConvertPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/tenants",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops", "financeiro"]}>
+          <RequirePermission permission="tenants.view_tenant">
             <TenantsPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/tenants/new",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente"]}>
+          <RequirePermission permission="tenants.add_tenant">
             <TenantDetailPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/tenants/:id",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops", "financeiro"]}>
+          <RequirePermission permission="tenants.view_tenant">
             <TenantDetailPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/tenants/:id/360",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops", "financeiro"]}>
+          <RequirePermission permission="tenants.view_tenant">
             <Tenant360Page />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/invoices",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "financeiro"]}>
+          <RequirePermission permission="billing.view_invoice">
             <InvoiceListPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/invoices/:id",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "financeiro"]}>
+          <RequirePermission permission="billing.view_invoice">
             <InvoiceDetailPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/payments",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "financeiro"]}>
+          <RequirePermission permission="billing.view_payment">
             <PaymentListPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/contracts",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops", "financeiro"]}>
+          <RequirePermission permission="contracts.view_contract">
             <ContractsPage />
-          </RequireRole>
+          </RequirePermission>
         )
       },
       {
         path: "/contracts/:id",
         element: (
-          <RequireRole roles={["admin", "admin_corporativo", "gerente", "ops", "financeiro"]}>
+          <RequirePermission permission="contracts.view_contract">
             <ContractDetailPage />
-          </RequireRole>
+          </RequirePermission>
         )
       }
     ]
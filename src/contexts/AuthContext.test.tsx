@@ -0,0 +1,57 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { profileApi } from "@/api/profile";
+import { apiClient } from "@/shared/api/httpClient";
+import { AuthProvider, useAuth } from "@/shared/auth";
+import type { User } from "@/shared/auth";
+
+const profile = { id: 7, email: "ana@example.com", facilities: [] } as unknown as User;
+
+function setup() {
+  const queryClient = new QueryClient();
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>{children}</AuthProvider>
+    </QueryClientProvider>
+  );
+  return { queryClient, wrapper };
+}
+
+describe("AuthProvider", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("drops cached queries and conversion drafts when the user signs out", async () => {
+    localStorage.setItem("access", "token");
+    vi.spyOn(profileApi, "get").mockResolvedValue(profile);
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.user).toEqual(profile));
+
+    queryClient.setQueryData(["facility", "1", "leads"], [{ id: 1 }]);
+    localStorage.setItem("leadConvertDraft:7:1:5", "{}");
+    act(() => result.current.logout());
+
+    expect(queryClient.getQueryData(["facility", "1", "leads"])).toBeUndefined();
+    expect(localStorage.getItem("leadConvertDraft:7:1:5")).toBeNull();
+  });
+
+  it.each([
+    ["keeps", profile, [{ id: 1 }]],
+    ["drops", { ...profile, id: 8 }, undefined]
+  ])("%s cached queries when signing in as the same or another user", async (_, next, cached) => {
+    localStorage.setItem("access", "token");
+    vi.spyOn(profileApi, "get").mockResolvedValueOnce(profile).mockResolvedValue(next);
+    vi.spyOn(apiClient, "post").mockResolvedValue({ data: { access: "a", refresh: "r" } });
+    const { queryClient, wrapper } = setup();
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.user).toEqual(profile));
+
+    queryClient.setQueryData(["facility", "1", "leads"], [{ id: 1 }]);
+    await act(() => result.current.login({ username: "ana@example.com", password: "secret" }));
+
+    expect(queryClient.getQueryData(["facility", "1", "leads"])).toEqual(cached);
+  });
+});
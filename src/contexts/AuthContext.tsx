@@ -1,23 +1,32 @@
-import { createContext, useCallback, useEffect, useMemo, useState } from "react";
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { ReactNode } from "react";
-import { apiClient } from "@/api/client";
+import { useQueryClient } from "@tanstack/react-query";
+import { profileApi } from "@/api/profile";
+import { clearConvertDrafts } from "@/features/leads/convertDraft";
+import { apiClient, refreshSession } from "@/shared/api/httpClient";
 import type { AuthState, User } from "@/shared/auth/types";
+import {
+  broadcastSessionEvent,
+  clearActivity,
+  getRefreshDelay,
+  recordActivity,
+  subscribeSessionEvents
+} from "@/shared/auth/session";
 import { clearTokens, getAccessToken, setTokens } from "@/shared/auth/tokenStorage";
 import { readStoredFacilityId, writeStoredFacilityId } from "@/shared/facility/storage";
 
 export const AuthContext = createContext<AuthState | null>(null);
 
-async function fetchProfile(): Promise<User> {
-  const response = await apiClient.get("/api/profile/");
-  const data = response.data;
-  return {
-    id: data.id,
-    email: data.email,
-    name: data.email?.split("@")[0] ?? "",
-    role: data.role,
-    roles: data.role ? [data.role] : [],
-    facilities: data.facilities ?? []
-  };
+// Refresh this long before the access token expires so requests never race the expiry.
+const REFRESH_LEAD_MS = 60_000;
+
+function selectDefaultFacility(profile: User) {
+  const savedFacilityId = readStoredFacilityId();
+  if (savedFacilityId && profile.facilities?.some((f) => String(f.id) === savedFacilityId)) {
+    // Keep existing
+  } else if (profile.facilities?.length) {
+    writeStoredFacilityId(String(profile.facilities[0].id));
+  }
 }
 
 function getInitialAuthState() {
@@ -35,6 +44,45 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isAuthenticated: boolean;
     isLoading: boolean;
   }>(getInitialAuthState);
+  // Bumped whenever the access token changes, here or in another tab, to reschedule refresh.
+  const [tokenVersion, setTokenVersion] = useState(0);
+  const queryClient = useQueryClient();
+  const userIdRef = useRef<number | null>(null);
+
+  // Query keys are scoped by facility, not by user: cached lists must not outlive the
+  // user who loaded them. Re-authenticating as the same user keeps the cache.
+  const setSignedInUser = useCallback(
+    (profile: User) => {
+      if (userIdRef.current !== profile.id) {
+        queryClient.clear();
+      }
+      userIdRef.current = profile.id;
+      setAuthState({ user: profile, isAuthenticated: true, isLoading: false });
+    },
+    [queryClient]
+  );
+
+  const clearSignedInUser = useCallback(() => {
+    queryClient.clear();
+    clearConvertDrafts();
+    userIdRef.current = null;
+    setAuthState({ user: null, isAuthenticated: false, isLoading: false });
+  }, [queryClient]);
+
+  const loadProfile = useCallback(() => {
+    return profileApi
+      .get()
+      .then((profile) => {
+        // Set default facility from profile
+        selectDefaultFacility(profile);
+        setSignedInUser(profile);
+      })
+      .catch(() => {
+        // Token invalid, clear state
+        clearTokens();
+        clearSignedInUser();
+      });
+  }, [clearSignedInUser, setSignedInUser]);
 
   // Load profile on mount if token exists
   // Note: 'user' is intentionally excluded from deps - we only want to fetch once
@@ -42,31 +90,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const token = getAccessToken();
     if (token && !user) {
-      fetchProfile()
-        .then((profile) => {
-          // Set default facility from profile
-          const savedFacilityId = readStoredFacilityId();
-          if (
-            savedFacilityId &&
-            profile.facilities?.some((f) => String(f.id) === savedFacilityId)
-          ) {
-            // Keep existing
-          } else if (profile.facilities?.length) {
-            writeStoredFacilityId(String(profile.facilities[0].id));
-          }
-          setAuthState({ user: profile, isAuthenticated: true, isLoading: false });
-        })
-        .catch(() => {
-          // Token invalid, clear state
-          clearTokens();
-          setAuthState({ user: null, isAuthenticated: false, isLoading: false });
-        });
+      void loadProfile();
     } else if (!token) {
       setAuthState((prev) => ({ ...prev, isLoading: false }));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Follow logins, logouts and refreshes made in other tabs; the tokens themselves are shared.
+  useEffect(
+    () =>
+      subscribeSessionEvents((event) => {
+        if (event.type === "logout") {
+          clearSignedInUser();
+        } else {
+          if (event.type === "login") {
+            void loadProfile();
+          }
+          setTokenVersion((version) => version + 1);
+        }
+      }),
+    [clearSignedInUser, loadProfile]
+  );
+
+  useEffect(() => {
+    const token = getAccessToken();
+    if (!isAuthenticated || !token) return;
+
+    const delay = getRefreshDelay(token, REFRESH_LEAD_MS);
+    if (delay === null) return;
+
+    const timer = setTimeout(() => {
+      refreshSession()
+        .then(() => setTokenVersion((version) => version + 1))
+        .catch(() => {
+          // The 401 interceptor takes over on the next request.
+        });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, tokenVersion]);
+
   const login = useCallback(
     async ({ username, password }: { username: string; password: string }) => {
       const response = await apiClient.post("/api/token/", { username, password });
@@ -79,25 +142,29 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       setTokens(access, refresh);
 
-      const profile = await fetchProfile();
+      const profile = await profileApi.get();
 
       // Set default facility from profile (interceptor will pick it up from localStorage)
-      const savedFacilityId = readStoredFacilityId();
-      if (savedFacilityId && profile.facilities?.some((f) => String(f.id) === savedFacilityId)) {
-        // Keep existing
-      } else if (profile.facilities?.length) {
-        writeStoredFacilityId(String(profile.facilities[0].id));
-      }
+      selectDefaultFacility(profile);
 
-      setAuthState({ user: profile, isAuthenticated: true, isLoading: false });
+      recordActivity();
+      setSignedInUser(profile);
+      setTokenVersion((version) => version + 1);
+      broadcastSessionEvent({ type: "login" });
     },
-    []
+    [setSignedInUser]
   );
 
   const logout = useCallback(() => {
     clearTokens();
+    clearActivity();
     writeStoredFacilityId(null);
-    setAuthState({ user: null, isAuthenticated: false, isLoading: false });
+    clearSignedInUser();
+    broadcastSessionEvent({ type: "logout" });
+  }, [clearSignedInUser]);
+
+  const updateUser = useCallback((profile: User) => {
+    setAuthState((prev) => ({ ...prev, user: profile }));
   }, []);
 
   const value = useMemo<AuthState>(
@@ -106,9 +173,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       isAuthenticated,
       isLoading,
       login,
-      logout
+      logout,
+      updateUser
     }),
-    [user, isAuthenticated, isLoading, login, logout]
+    [user, isAuthenticated, isLoading, login, logout, updateUser]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,5 +1,7 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/shared/auth";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
 import { readStoredFacilityId, writeStoredFacilityId } from "@/shared/facility/storage";
 
 type Facility = {
@@ -21,6 +23,8 @@ export function FacilityProvider({ children }: { children: ReactNode }) {
     return readStoredFacilityId();
   });
   const { user, isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+  const previousFacilityIdRef = useRef(selectedFacilityId);
 
   const setSelectedFacilityId = (facilityId: string | null) => {
     setSelectedFacilityIdState(facilityId);
@@ -47,6 +51,17 @@ export function FacilityProvider({ children }: { children: ReactNode }) {
     }
   }, [isAuthenticated, user]);
 
+  // Facility-scoped queries are keyed by facility id, so the new facility fetches its own
+  // data on render. Requests still running for the previous facility are aborted.
+  useEffect(() => {
+    const previousFacilityId = previousFacilityIdRef.current;
+    if (previousFacilityId === selectedFacilityId) {
+      return;
+    }
+    previousFacilityIdRef.current = selectedFacilityId;
+    queryClient.cancelQueries({ queryKey: facilityScopeKey(previousFacilityId) });
+  }, [queryClient, selectedFacilityId]);
+
   return (
     <FacilityContext.Provider
       value={{
@@ -0,0 +1,102 @@
+import type { UnitRecord } from "@/api/units";
+import {
+  buildFloorTiles,
+  getUnitAisle,
+  groupUnits,
+  moveFloorTile,
+  resolveFloorTiles
+} from "@/entities/unit/lib/floorMap";
+
+function unit(id: number, unitNumber: string, unitType = 1): UnitRecord {
+  return {
+    id,
+    unit_type: unitType,
+    unit_number: unitNumber,
+    status: "LIVRE",
+    reservation_expires_at: null
+  };
+}
+
+describe("getUnitAisle", () => {
+  it.each([
+    ["A-001", "A"],
+    ["b2-014", "B2"],
+    ["C 12", "C"],
+    ["A101", "A"],
+    ["1-05", "1"],
+    ["101", null],
+    ["-7", null]
+  ])("%s → %s", (unitNumber, aisle) => {
+    expect(getUnitAisle(unitNumber)).toBe(aisle);
+  });
+});
+
+describe("groupUnits", () => {
+  it("groups by aisle in natural order with unmatched numbers last", () => {
+    const groups = groupUnits(
+      [unit(1, "B-2"), unit(2, "100"), unit(3, "A-10"), unit(4, "A-9")],
+      "aisle"
+    );
+
+    expect(groups.map((group) => group.label)).toEqual(["A", "B", "Other"]);
+    expect(groups[0].units.map((item) => item.unit_number)).toEqual(["A-9", "A-10"]);
+  });
+
+  it("labels type groups with the unit type name", () => {
+    const groups = groupUnits(
+      [unit(1, "A-1", 2), unit(2, "A-2", 1)],
+      "type",
+      new Map([
+        [1, "Small"],
+        [2, "Large"]
+      ])
+    );
+
+    expect(groups.map((group) => group.label)).toEqual(["Large", "Small"]);
+  });
+});
+
+describe("floor tiles", () => {
+  it("starts every group on a new row", () => {
+    const tiles = buildFloorTiles(
+      groupUnits([unit(1, "A-1"), unit(2, "A-2"), unit(3, "B-1")], "aisle"),
+      1
+    );
+
+    expect(tiles).toEqual([
+      { unit: 1, x: 0, y: 0 },
+      { unit: 2, x: 0, y: 1 },
+      { unit: 3, x: 0, y: 3 }
+    ]);
+  });
+
+  it("keeps saved tiles and places new units below them", () => {
+    const tiles = resolveFloorTiles(
+      [unit(1, "A-1"), unit(2, "A-2"), unit(3, "A-3")],
+      [
+        { unit: 1, x: 4, y: 1 },
+        { unit: 2, x: 4, y: 1 },
+        { unit: 99, x: 0, y: 0 }
+      ]
+    );
+
+    expect(tiles).toEqual([
+      { unit: 1, x: 4, y: 1 },
+      { unit: 2, x: 0, y: 3 },
+      { unit: 3, x: 1, y: 3 }
+    ]);
+  });
+
+  it("swaps with the tile already on the target cell", () => {
+    const tiles = [
+      { unit: 1, x: 0, y: 0 },
+      { unit: 2, x: 1, y: 0 }
+    ];
+
+    expect(moveFloorTile(tiles, 1, 1, 0)).toEqual([
+      { unit: 1, x: 1, y: 0 },
+      { unit: 2, x: 0, y: 0 }
+    ]);
+    expect(moveFloorTile(tiles, 1, 3, 2)[0]).toEqual({ unit: 1, x: 3, y: 2 });
+  });
+});
@@ -0,0 +1,126 @@
+import type { FloorTile, UnitRecord } from "@/api/units";
+
+export type FloorGroupBy = "type" | "aisle";
+
+export type FloorGroup = {
+  key: string;
+  label: string;
+  units: UnitRecord[];
+};
+
+export const DEFAULT_FLOOR_COLUMNS = 12;
+
+const OTHER_GROUP_LABEL = "Other";
+const SEPARATORS = [" ", "-", "_", ".", "/"];
+
+export function compareUnitNumbers(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Row or aisle of a unit number: everything before the last separator ("B2-014" → "B2"),
+ * or the leading letters when there is none ("A101" → "A"). Null when neither applies.
+ */
+export function getUnitAisle(unitNumber: string): string | null {
+  const value = unitNumber.trim().toUpperCase();
+  const lastSeparator = Math.max(...SEPARATORS.map((separator) => value.lastIndexOf(separator)));
+  if (lastSeparator > 0) {
+    const prefix = value.slice(0, lastSeparator).trim();
+    if (prefix) return prefix;
+  }
+  return value.match(/^[A-Z]+(?=\d)/)?.[0] ?? null;
+}
+
+export function groupUnits(
+  units: UnitRecord[],
+  groupBy: FloorGroupBy,
+  unitTypeNames: Map<number, string> = new Map()
+): FloorGroup[] {
+  const groups = new Map<string, FloorGroup>();
+  units.forEach((unit) => {
+    let key: string;
+    let label: string;
+    if (groupBy === "type") {
+      key = String(unit.unit_type);
+      label = unitTypeNames.get(unit.unit_type) ?? `Type #${unit.unit_type}`;
+    } else {
+      const aisle = getUnitAisle(unit.unit_number);
+      key = aisle ?? "";
+      label = aisle ?? OTHER_GROUP_LABEL;
+    }
+    const group = groups.get(key) ?? { key, label, units: [] };
+    group.units.push(unit);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map((group) => ({
+      ...group,
+      units: [...group.units].sort((a, b) => compareUnitNumbers(a.unit_number, b.unit_number))
+    }))
+    .sort((a, b) => {
+      // Unit numbers without an aisle go last.
+      if (a.key === "" || b.key === "") return a.key === "" ? 1 : -1;
+      return compareUnitNumbers(a.label, b.label);
+    });
+}
+
+/** Lays groups out top to bottom, each starting on a new row with an empty row in between. */
+export function buildFloorTiles(
+  groups: FloorGroup[],
+  columns = DEFAULT_FLOOR_COLUMNS,
+  startRow = 0
+): FloorTile[] {
+  const tiles: FloorTile[] = [];
+  let row = startRow;
+  groups.forEach((group) => {
+    group.units.forEach((unit, index) => {
+      tiles.push({ unit: unit.id, x: index % columns, y: row + Math.floor(index / columns) });
+    });
+    row += Math.ceil(group.units.length / columns) + 1;
+  });
+  return tiles;
+}
+
+/**
+ * Merges a saved layout with the current units. Tiles of deleted units and tiles stacked on
+ * an already used cell are dropped; units without a tile are added below the saved plan.
+ */
+export function resolveFloorTiles(
+  units: UnitRecord[],
+  saved: FloorTile[],
+  columns = DEFAULT_FLOOR_COLUMNS
+): FloorTile[] {
+  const unitIds = new Set(units.map((unit) => unit.id));
+  const placed = new Set<number>();
+  const usedCells = new Set<string>();
+  const tiles: FloorTile[] = [];
+
+  saved.forEach((tile) => {
+    const cell = `${tile.x}:${tile.y}`;
+    if (!unitIds.has(tile.unit) || placed.has(tile.unit) || usedCells.has(cell)) return;
+    if (!Number.isInteger(tile.x) || !Number.isInteger(tile.y) || tile.x < 0 || tile.y < 0) {
+      return;
+    }
+    placed.add(tile.unit);
+    usedCells.add(cell);
+    tiles.push({ unit: tile.unit, x: tile.x, y: tile.y });
+  });
+
+  const unplaced = units.filter((unit) => !placed.has(unit.id));
+  const startRow = tiles.length > 0 ? Math.max(...tiles.map((tile) => tile.y)) + 2 : 0;
+  return [...tiles, ...buildFloorTiles(groupUnits(unplaced, "aisle"), columns, startRow)];
+}
+
+/** Moves a tile to a cell, swapping places with the tile already there. */
+export function moveFloorTile(tiles: FloorTile[], unitId: number, x: number, y: number) {
+  const moving = tiles.find((tile) => tile.unit === unitId);
+  if (!moving || x < 0 || y < 0) return tiles;
+  const occupant = tiles.find((tile) => tile.x === x && tile.y === y && tile.unit !== unitId);
+
+  return tiles.map((tile) => {
+    if (tile.unit === unitId) return { ...tile, x, y };
+    if (occupant && tile.unit === occupant.unit) return { ...tile, x: moving.x, y: moving.y };
+    return tile;
+  });
+}
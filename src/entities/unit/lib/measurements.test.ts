@@ -0,0 +1,25 @@
+import { getPriceOrderErrors } from "@/entities/unit/lib/measurements";
+
+describe("getPriceOrderErrors", () => {
+  it("accepts prices in order and skips the ones not set", () => {
+    expect(getPriceOrderErrors({ min_price: "50", base_price: "80", max_price: "100" })).toEqual(
+      {}
+    );
+    expect(getPriceOrderErrors({ min_price: null, base_price: "80", max_price: "" })).toEqual({});
+  });
+
+  it("flags the base price outside the band", () => {
+    expect(getPriceOrderErrors({ min_price: "50", base_price: "40", max_price: "100" })).toEqual({
+      base_price: "Base price must be at least the minimum price."
+    });
+    expect(getPriceOrderErrors({ min_price: null, base_price: "120", max_price: "100" })).toEqual({
+      base_price: "Base price must not exceed the maximum price."
+    });
+  });
+
+  it("flags a maximum below the minimum", () => {
+    expect(getPriceOrderErrors({ min_price: "100", base_price: "", max_price: "50" })).toEqual({
+      max_price: "Maximum price must be at least the minimum price."
+    });
+  });
+});
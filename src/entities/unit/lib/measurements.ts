@@ -0,0 +1,73 @@
+import type { UnitType } from "@/api/units";
+
+export function parseDecimal(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = parseFloat(value);
+  return Number.isNaN(num) ? null : num;
+}
+
+/** Floor area in m², or null when width or depth is missing. */
+export function getUnitTypeArea(unitType: Pick<UnitType, "width" | "depth">): number | null {
+  const width = parseDecimal(unitType.width);
+  const depth = parseDecimal(unitType.depth);
+  if (width === null || depth === null) return null;
+  return width * depth;
+}
+
+/** Volume in m³, or null when any dimension is missing. */
+export function getUnitTypeVolume(
+  unitType: Pick<UnitType, "width" | "depth" | "height">
+): number | null {
+  const area = getUnitTypeArea(unitType);
+  const height = parseDecimal(unitType.height);
+  if (area === null || height === null) return null;
+  return area * height;
+}
+
+export function formatArea(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(2)} m²`;
+}
+
+export function formatVolume(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(2)} m³`;
+}
+
+/**
+ * Checks a rate against the unit type's allowed band. Returns null when the rate is inside
+ * the band (or the band is not configured), otherwise which side it falls on.
+ */
+export function getPriceBandViolation(
+  unitType: Pick<UnitType, "min_price" | "max_price">,
+  rate: number
+): "below" | "above" | null {
+  const min = parseDecimal(unitType.min_price);
+  const max = parseDecimal(unitType.max_price);
+  if (min !== null && rate < min) return "below";
+  if (max !== null && rate > max) return "above";
+  return null;
+}
+
+type PriceFields = Pick<UnitType, "min_price" | "base_price" | "max_price">;
+
+/**
+ * Checks that min_price <= base_price <= max_price, skipping prices that are not set.
+ * Returns a message per offending field; empty when the prices are in order.
+ */
+export function getPriceOrderErrors(
+  prices: PriceFields
+): Partial<Record<keyof PriceFields, string>> {
+  const min = parseDecimal(prices.min_price);
+  const base = parseDecimal(prices.base_price);
+  const max = parseDecimal(prices.max_price);
+  const errors: Partial<Record<keyof PriceFields, string>> = {};
+
+  if (min !== null && max !== null && min > max) {
+    errors.max_price = "Maximum price must be at least the minimum price.";
+  }
+  if (base !== null && min !== null && base < min) {
+    errors.base_price = "Base price must be at least the minimum price.";
+  } else if (base !== null && max !== null && base > max) {
+    errors.base_price = "Base price must not exceed the maximum price.";
+  }
+  return errors;
+}
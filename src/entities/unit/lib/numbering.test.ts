@@ -0,0 +1,43 @@
+import {
+  MAX_BULK_UNITS,
+  findUnitNumberCollisions,
+  generateUnitNumbers
+} from "@/entities/unit/lib/numbering";
+
+describe("generateUnitNumbers", () => {
+  it("expands a zero-padded range", () => {
+    const { numbers, error } = generateUnitNumbers({ prefix: "A-", start: 1, end: 120, digits: 3 });
+
+    expect(error).toBeNull();
+    expect(numbers).toHaveLength(120);
+    expect(numbers[0]).toBe("A-001");
+    expect(numbers[119]).toBe("A-120");
+  });
+
+  it("does not cut numbers longer than the padding", () => {
+    expect(generateUnitNumbers({ prefix: "B", start: 99, end: 100, digits: 2 }).numbers).toEqual([
+      "B99",
+      "B100"
+    ]);
+  });
+
+  it("rejects reversed, fractional and oversized ranges", () => {
+    expect(generateUnitNumbers({ prefix: "A", start: 5, end: 1, digits: 0 }).error).toBe(
+      "The last number must not be lower than the first."
+    );
+    expect(generateUnitNumbers({ prefix: "A", start: 1.5, end: 3, digits: 0 }).error).toBe(
+      "Use whole, non-negative numbers for the range."
+    );
+    expect(
+      generateUnitNumbers({ prefix: "A", start: 1, end: MAX_BULK_UNITS + 1, digits: 0 }).error
+    ).toBe(`Create at most ${MAX_BULK_UNITS} units at a time.`);
+  });
+});
+
+describe("findUnitNumberCollisions", () => {
+  it("matches existing numbers regardless of case and spacing", () => {
+    expect(findUnitNumberCollisions(["A-001", "A-002"], [" a-001 ", "B-001"])).toEqual(
+      new Set(["A-001"])
+    );
+  });
+});
@@ -0,0 +1,52 @@
+export const MAX_BULK_UNITS = 500;
+
+export type UnitNumberRange = {
+  prefix: string;
+  start: number;
+  end: number;
+  // Minimum digits, zero-padded: 3 turns 7 into "007".
+  digits: number;
+};
+
+export type UnitNumberRangeResult = {
+  numbers: string[];
+  error: string | null;
+};
+
+export function formatUnitNumber(prefix: string, value: number, digits: number): string {
+  return `${prefix}${String(value).padStart(Math.max(0, digits), "0")}`;
+}
+
+/** Expands a range such as A-001…A-120 into unit numbers, or explains why it cannot. */
+export function generateUnitNumbers({
+  prefix,
+  start,
+  end,
+  digits
+}: UnitNumberRange): UnitNumberRangeResult {
+  if (![start, end, digits].every(Number.isInteger) || start < 0 || digits < 0) {
+    return { numbers: [], error: "Use whole, non-negative numbers for the range." };
+  }
+  if (end < start) {
+    return { numbers: [], error: "The last number must not be lower than the first." };
+  }
+  const count = end - start + 1;
+  if (count > MAX_BULK_UNITS) {
+    return { numbers: [], error: `Create at most ${MAX_BULK_UNITS} units at a time.` };
+  }
+
+  const numbers = Array.from({ length: count }, (_, index) =>
+    formatUnitNumber(prefix.trim(), start + index, digits)
+  );
+  return { numbers, error: null };
+}
+
+function normalizeUnitNumber(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+/** The generated numbers that already exist, ignoring case and surrounding spaces. */
+export function findUnitNumberCollisions(numbers: string[], existing: string[]): Set<string> {
+  const taken = new Set(existing.map(normalizeUnitNumber));
+  return new Set(numbers.filter((value) => taken.has(normalizeUnitNumber(value))));
+}
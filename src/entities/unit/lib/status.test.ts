@@ -0,0 +1,38 @@
+import { getStatusTransitionError, requiresStatusReason } from "@/entities/unit/lib/status";
+
+describe("getStatusTransitionError", () => {
+  it("allows keeping the current status and listed moves", () => {
+    expect(getStatusTransitionError("OCUPADA", "OCUPADA", { hasActiveContract: true })).toBeNull();
+    expect(getStatusTransitionError("LIVRE", "RESERVADA", { hasActiveContract: false })).toBeNull();
+  });
+
+  it("blocks moves missing from the transition map", () => {
+    expect(getStatusTransitionError("EM_VISTORIA", "OCUPADA", { hasActiveContract: false })).toBe(
+      "A unit cannot go from Em Vistoria to Ocupada."
+    );
+  });
+
+  it("frees an occupied unit only after its contract closes", () => {
+    expect(getStatusTransitionError("OCUPADA", "LIVRE", { hasActiveContract: true })).toBe(
+      "Close the active contract before marking the unit as Livre."
+    );
+    expect(getStatusTransitionError("OCUPADA", "LIVRE", { hasActiveContract: false })).toBeNull();
+  });
+
+  it("keeps the unit from going Livre while its contracts are unknown", () => {
+    expect(getStatusTransitionError("OCUPADA", "LIVRE", { hasActiveContract: null })).toBe(
+      "Active contracts could not be checked yet. Try again in a moment."
+    );
+    expect(
+      getStatusTransitionError("OCUPADA", "EM_VISTORIA", { hasActiveContract: null })
+    ).toBeNull();
+  });
+});
+
+describe("requiresStatusReason", () => {
+  it("asks for a reason when blocking or inspecting", () => {
+    expect(requiresStatusReason("BLOQUEADA")).toBe(true);
+    expect(requiresStatusReason("EM_VISTORIA")).toBe(true);
+    expect(requiresStatusReason("RESERVADA")).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import type { UnitStatus } from "@/api/units";
+
+/** Status colours shared by the dashboard donut and the units floor map. */
+export const UNIT_STATUS_COLORS: Record<UnitStatus, string> = {
+  LIVRE: "var(--status-success)",
+  OCUPADA: "var(--brand-primary)",
+  RESERVADA: "var(--status-warning)",
+  BLOQUEADA: "var(--status-error)",
+  EM_VISTORIA: "var(--status-info)"
+};
+
+export const UNIT_STATUS_LABELS: Record<UnitStatus, string> = {
+  LIVRE: "Livre",
+  OCUPADA: "Ocupada",
+  RESERVADA: "Reservada",
+  BLOQUEADA: "Bloqueada",
+  EM_VISTORIA: "Em Vistoria"
+};
+
+// Moves allowed from each status; keeping the current status is always allowed.
+export const UNIT_STATUS_TRANSITIONS: Record<UnitStatus, readonly UnitStatus[]> = {
+  LIVRE: ["RESERVADA", "OCUPADA", "BLOQUEADA", "EM_VISTORIA"],
+  RESERVADA: ["LIVRE", "OCUPADA", "BLOQUEADA"],
+  OCUPADA: ["EM_VISTORIA", "BLOQUEADA", "LIVRE"],
+  BLOQUEADA: ["LIVRE", "EM_VISTORIA", "OCUPADA"],
+  EM_VISTORIA: ["LIVRE", "BLOQUEADA"]
+};
+
+const REASON_REQUIRED_STATUSES: readonly UnitStatus[] = ["BLOQUEADA", "EM_VISTORIA"];
+
+export type StatusTransitionContext = {
+  // null while the contracts are loading or failed to load: unknown blocks the move to Livre.
+  hasActiveContract: boolean | null;
+};
+
+export function requiresStatusReason(status: UnitStatus): boolean {
+  return REASON_REQUIRED_STATUSES.includes(status);
+}
+
+/** Why the unit cannot move from `from` to `to`, or null when the move is allowed. */
+export function getStatusTransitionError(
+  from: UnitStatus,
+  to: UnitStatus,
+  { hasActiveContract }: StatusTransitionContext
+): string | null {
+  if (from === to) return null;
+  if (!UNIT_STATUS_TRANSITIONS[from].includes(to)) {
+    return `A unit cannot go from ${UNIT_STATUS_LABELS[from]} to ${UNIT_STATUS_LABELS[to]}.`;
+  }
+  if (to === "LIVRE" && hasActiveContract === null) {
+    return "Active contracts could not be checked yet. Try again in a moment.";
+  }
+  if (to === "LIVRE" && hasActiveContract) {
+    return "Close the active contract before marking the unit as Livre.";
+  }
+  return null;
+}
@@ -6,6 +6,7 @@ interface ImportMetaEnv {
   readonly VITE_APP_ENV: AppEnv;
   readonly VITE_API_BASE_URL: string;
   readonly VITE_API_URL: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,173 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { invoiceAPI, invoiceItemsAPI, paymentsAPI } from "@/services/billing";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
+import type {
+  InvoiceItemPayload,
+  InvoiceListParams,
+  InvoicePayload,
+  PaymentListParams,
+  RecordPaymentPayload
+} from "@/services/billing";
+
+type Id = string | number;
+
+export const billingKeys = {
+  facility: (facilityId: Id) => [...facilityScopeKey(facilityId), "billing"] as const,
+  invoices: (facilityId: Id) => [...billingKeys.facility(facilityId), "invoices"] as const,
+  invoiceList: (facilityId: Id, params: InvoiceListParams = {}) =>
+    [...billingKeys.invoices(facilityId), "list", params] as const,
+  invoice: (facilityId: Id, invoiceId: Id) =>
+    [...billingKeys.invoices(facilityId), "detail", String(invoiceId)] as const,
+  invoiceItems: (facilityId: Id, invoiceId: Id) =>
+    [...billingKeys.invoice(facilityId, invoiceId), "items"] as const,
+  payments: (facilityId: Id) => [...billingKeys.facility(facilityId), "payments"] as const,
+  paymentList: (facilityId: Id, params: PaymentListParams = {}) =>
+    [...billingKeys.payments(facilityId), "list", params] as const
+};
+
+export const billingQueries = {
+  invoiceList: (facilityId: Id, params: InvoiceListParams = {}) =>
+    queryOptions({
+      queryKey: billingKeys.invoiceList(facilityId, params),
+      queryFn: () => invoiceAPI.list(facilityId, params)
+    }),
+  invoice: (facilityId: Id, invoiceId: Id) =>
+    queryOptions({
+      queryKey: billingKeys.invoice(facilityId, invoiceId),
+      queryFn: () => invoiceAPI.get(facilityId, invoiceId)
+    }),
+  invoiceItems: (facilityId: Id, invoiceId: Id) =>
+    queryOptions({
+      queryKey: billingKeys.invoiceItems(facilityId, invoiceId),
+      queryFn: () => invoiceItemsAPI.list(facilityId, invoiceId)
+    }),
+  paymentList: (facilityId: Id, params: PaymentListParams = {}) =>
+    queryOptions({
+      queryKey: billingKeys.paymentList(facilityId, params),
+      queryFn: () => paymentsAPI.list(facilityId, params)
+    })
+};
+
+export function useInvoices(facilityId: Id | null, params: InvoiceListParams = {}) {
+  return useQuery({
+    ...billingQueries.invoiceList(facilityId ?? "", params),
+    enabled: !!facilityId
+  });
+}
+
+export function useInvoice(facilityId: Id | null, invoiceId: Id | undefined) {
+  return useQuery({
+    ...billingQueries.invoice(facilityId ?? "", invoiceId ?? ""),
+    enabled: !!facilityId && !!invoiceId
+  });
+}
+
+export function useInvoiceItems(facilityId: Id | null, invoiceId: Id | undefined) {
+  return useQuery({
+    ...billingQueries.invoiceItems(facilityId ?? "", invoiceId ?? ""),
+    enabled: !!facilityId && !!invoiceId
+  });
+}
+
+export function usePayments(facilityId: Id | null, params: PaymentListParams = {}) {
+  return useQuery({
+    ...billingQueries.paymentList(facilityId ?? "", params),
+    enabled: !!facilityId
+  });
+}
+
+// Payments change invoice balances and status, so billing mutations refresh the whole facility.
+function useInvalidateBilling() {
+  const queryClient = useQueryClient();
+  return (facilityId: Id) =>
+    queryClient.invalidateQueries({ queryKey: billingKeys.facility(facilityId) });
+}
+
+export function useCreateInvoice(facilityId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (payload: InvoicePayload) => invoiceAPI.create(facilityId, payload),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useUpdateInvoice(facilityId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ invoiceId, payload }: { invoiceId: Id; payload: Partial<InvoicePayload> }) =>
+      invoiceAPI.update(facilityId, invoiceId, payload),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useVoidInvoice(facilityId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ invoiceId, voidReason }: { invoiceId: Id; voidReason: string }) =>
+      invoiceAPI.voidInvoice(facilityId, invoiceId, { void_reason: voidReason }),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useDeleteInvoice(facilityId: Id) {
+  const queryClient = useQueryClient();
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (invoiceId: Id) => invoiceAPI.delete(facilityId, invoiceId),
+    onSettled: (_data, _error, invoiceId) => {
+      queryClient.removeQueries({ queryKey: billingKeys.invoice(facilityId, invoiceId) });
+      return invalidate(facilityId);
+    }
+  });
+}
+
+export function useRecordPayment(facilityId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (payload: RecordPaymentPayload) => invoiceAPI.recordPayment(facilityId, payload),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useDeletePayment(facilityId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (paymentId: Id) => paymentsAPI.delete(facilityId, paymentId),
+    onSettled: () => invalidate(facilityId)
+  });
+}
+
+export function useCreateInvoiceItem(facilityId: Id, invoiceId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (payload: InvoiceItemPayload) =>
+      invoiceItemsAPI.create(facilityId, invoiceId, payload),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useUpdateInvoiceItem(facilityId: Id, invoiceId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ itemId, payload }: { itemId: Id; payload: Partial<InvoiceItemPayload> }) =>
+      invoiceItemsAPI.update(facilityId, invoiceId, itemId, payload),
+    onSuccess: () => invalidate(facilityId)
+  });
+}
+
+export function useDeleteInvoiceItem(facilityId: Id, invoiceId: Id) {
+  const invalidate = useInvalidateBilling();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (itemId: Id) => invoiceItemsAPI.delete(facilityId, invoiceId, itemId),
+    onSettled: () => invalidate(facilityId)
+  });
+}
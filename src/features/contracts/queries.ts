@@ -0,0 +1,86 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { contractsApi } from "@/api/contracts";
+import type { ContractFilters, ContractPayload } from "@/api/contracts";
+import { useFacility } from "@/contexts/FacilityContext";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
+import type { FacilityScopeId } from "@/shared/facility/queryKeys";
+
+export const contractKeys = {
+  all: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "contracts"] as const,
+  lists: (facilityId: FacilityScopeId) => [...contractKeys.all(facilityId), "list"] as const,
+  list: (facilityId: FacilityScopeId, filters: ContractFilters = {}) =>
+    [...contractKeys.lists(facilityId), filters] as const,
+  detail: (facilityId: FacilityScopeId, id: number) =>
+    [...contractKeys.all(facilityId), "detail", id] as const
+};
+
+export const contractQueries = {
+  list: (facilityId: string | null, filters: ContractFilters = {}) =>
+    queryOptions({
+      queryKey: contractKeys.list(facilityId, filters),
+      queryFn: ({ signal }) => contractsApi.list(filters, { facilityId, signal })
+    }),
+  detail: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: contractKeys.detail(facilityId, id),
+      queryFn: ({ signal }) => contractsApi.get(id, { facilityId, signal })
+    })
+};
+
+export function useContracts(filters: ContractFilters = {}) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery(contractQueries.list(selectedFacilityId, filters));
+}
+
+// Filtered on the server by unit, so the answer does not depend on which page a list returns.
+export function useActiveUnitContracts(unitId: number | null) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({
+    ...contractQueries.list(selectedFacilityId, { status: "ACTIVE", unit_id: unitId ?? 0 }),
+    enabled: unitId !== null
+  });
+}
+
+export function useContract(id: number | null) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({
+    ...contractQueries.detail(selectedFacilityId, id ?? 0),
+    enabled: id !== null
+  });
+}
+
+export function useCreateContract() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: ContractPayload) => contractsApi.create(data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: contractKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useUpdateContract() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: Partial<ContractPayload> }) =>
+      contractsApi.update(id, data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: contractKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useDeleteContract() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => contractsApi.delete(id),
+    onSettled: (_data, _error, id) => {
+      queryClient.removeQueries({ queryKey: contractKeys.detail(selectedFacilityId, id) });
+      return queryClient.invalidateQueries({ queryKey: contractKeys.lists(selectedFacilityId) });
+    }
+  });
+}
@@ -0,0 +1,44 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { facilitiesApi } from "@/api/facilities";
+import type { FacilityPayload } from "@/api/facilities";
+
+export const facilityKeys = {
+  all: ["facilities"] as const,
+  lists: () => [...facilityKeys.all, "list"] as const
+};
+
+export const facilityQueries = {
+  list: () => queryOptions({ queryKey: facilityKeys.lists(), queryFn: () => facilitiesApi.list() })
+};
+
+export function useFacilities() {
+  return useQuery(facilityQueries.list());
+}
+
+export function useCreateFacility() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: FacilityPayload) => facilitiesApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: facilityKeys.all })
+  });
+}
+
+export function useUpdateFacility() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: FacilityPayload }) =>
+      facilitiesApi.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: facilityKeys.all })
+  });
+}
+
+export function useDeleteFacility() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => facilitiesApi.delete(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: facilityKeys.all })
+  });
+}
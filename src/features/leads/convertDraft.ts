@@ -0,0 +1,97 @@
+import type { UnitHold } from "@/features/leads/unitHold";
+
+const DRAFT_KEY_PREFIX = "leadConvertDraft";
+
+export type LeadConvertDraft<TTenant, TContract> = {
+  step: number;
+  furthestStep: number;
+  tenant: TTenant;
+  contract: TContract;
+  hold?: UnitHold | null;
+  savedAt: string;
+};
+
+// Drafts are scoped per facility because unit ids and prices only make sense within one, and
+// per user because they hold tenant details the next person at a shared desk must not get.
+export function getConvertDraftKey(
+  leadId: string | number,
+  facilityId: string | null,
+  userId: number
+): string {
+  return `${DRAFT_KEY_PREFIX}:${userId}:${facilityId ?? "none"}:${leadId}`;
+}
+
+export function readConvertDraft<TTenant, TContract>(
+  key: string
+): LeadConvertDraft<TTenant, TContract> | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as LeadConvertDraft<TTenant, TContract>;
+    if (!parsed || typeof parsed !== "object" || !parsed.tenant || !parsed.contract) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export function writeConvertDraft<TTenant, TContract>(
+  key: string,
+  draft: LeadConvertDraft<TTenant, TContract>
+) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(draft));
+  } catch {
+    // Storage might be unavailable in private mode or full.
+  }
+}
+
+// A hold given back when leaving the wizard must not come back with the draft.
+export function clearConvertDraftHold(key: string) {
+  const draft = readConvertDraft(key);
+  if (draft?.hold) {
+    writeConvertDraft(key, { ...draft, hold: null });
+  }
+}
+
+export function clearConvertDraft(key: string) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage might be unavailable in private mode.
+  }
+}
+
+// Called on sign-out so no tenant details stay behind on the machine.
+export function clearConvertDrafts() {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    const keys = Array.from({ length: window.localStorage.length }, (_, index) =>
+      window.localStorage.key(index)
+    );
+    keys
+      .filter((key): key is string => key?.startsWith(`${DRAFT_KEY_PREFIX}:`) ?? false)
+      .forEach((key) => window.localStorage.removeItem(key));
+  } catch {
+    // Storage might be unavailable in private mode.
+  }
+}
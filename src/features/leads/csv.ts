@@ -0,0 +1,107 @@
+import type { Lead, LeadPayload, LeadSource, LeadStage } from "@/api/leads";
+import type { UserProfile } from "@/api/users";
+import type { CsvValue } from "@/shared/lib/csv";
+import { EMAIL_PATTERN, matchCsvOption, normalizeCsvKey } from "@/shared/lib/csvImport";
+import type { CsvImportField, CsvMappedRow, CsvRowResult } from "@/shared/lib/csvImport";
+
+export const LEAD_CSV_FIELDS: CsvImportField[] = [
+  { key: "first_name", label: "First name", required: true, aliases: ["nome"] },
+  { key: "last_name", label: "Last name", required: true, aliases: ["sobrenome"] },
+  { key: "email", label: "Email", aliases: ["e-mail"] },
+  { key: "phone_primary", label: "Primary phone", aliases: ["phone", "telefone"] },
+  { key: "phone_secondary", label: "Secondary phone", aliases: ["telefone 2"] },
+  { key: "source", label: "Source", aliases: ["origem"] },
+  { key: "stage", label: "Stage", aliases: ["etapa"] },
+  { key: "owner_email", label: "Owner email", aliases: ["owner", "responsavel"] },
+  { key: "notes", label: "Notes", aliases: ["observacoes"] }
+];
+
+const STAGE_OPTIONS: { value: LeadStage; label: string }[] = [
+  { value: "NEW", label: "New" },
+  { value: "CONTACTED", label: "Contacted" },
+  { value: "QUALIFIED", label: "Qualified" },
+  { value: "PROPOSAL", label: "Proposal" },
+  { value: "WON", label: "Won" },
+  { value: "LOST", label: "Lost" }
+];
+
+const SOURCE_OPTIONS: { value: LeadSource; label: string }[] = [
+  { value: "WEBSITE", label: "Website" },
+  { value: "REFERRAL", label: "Referral" },
+  { value: "PHONE", label: "Phone" },
+  { value: "WALK_IN", label: "Walk-in" },
+  { value: "CAMPAIGN", label: "Campaign" },
+  { value: "OTHER", label: "Other" }
+];
+
+function getOwnerEmail(owner: UserProfile): string | null {
+  return owner.email ?? owner.user_email ?? null;
+}
+
+/** Validates lead rows with the lead form rules; owners are matched by email. */
+export function validateLeadRows(
+  rows: CsvMappedRow[],
+  { owners }: { owners: UserProfile[] }
+): CsvRowResult<LeadPayload>[] {
+  return rows.map(({ line, values }) => {
+    const errors: string[] = [];
+    if (!values.first_name) errors.push("First name is required.");
+    if (!values.last_name) errors.push("Last name is required.");
+    if (values.email && !EMAIL_PATTERN.test(values.email)) {
+      errors.push(`Invalid email "${values.email}".`);
+    }
+
+    const stage = values.stage ? matchCsvOption(values.stage, STAGE_OPTIONS) : "NEW";
+    if (!stage) errors.push(`Unknown stage "${values.stage}".`);
+
+    const source = values.source ? matchCsvOption(values.source, SOURCE_OPTIONS) : null;
+    if (values.source && !source) errors.push(`Unknown source "${values.source}".`);
+
+    const owner = values.owner_email
+      ? owners.find(
+          (candidate) =>
+            normalizeCsvKey(getOwnerEmail(candidate) ?? "") === normalizeCsvKey(values.owner_email)
+        )
+      : null;
+    if (values.owner_email && !owner) errors.push(`No user with email "${values.owner_email}".`);
+
+    if (errors.length > 0 || !stage) {
+      return { line, payload: null, errors };
+    }
+    return {
+      line,
+      errors,
+      payload: {
+        first_name: values.first_name,
+        last_name: values.last_name,
+        email: values.email || null,
+        phone_primary: values.phone_primary || null,
+        phone_secondary: values.phone_secondary || null,
+        source,
+        stage,
+        owner_id: owner?.id ?? null,
+        notes: values.notes || null
+      }
+    };
+  });
+}
+
+export function leadsToCsvRows(leads: Lead[], owners: UserProfile[]): CsvValue[][] {
+  const ownerEmails = new Map(owners.map((owner) => [owner.id, getOwnerEmail(owner)]));
+  return [
+    ["id", ...LEAD_CSV_FIELDS.map((field) => field.key), "created_at"],
+    ...leads.map((lead) => [
+      lead.id,
+      lead.first_name,
+      lead.last_name,
+      lead.email,
+      lead.phone_primary,
+      lead.phone_secondary,
+      lead.source,
+      lead.stage,
+      lead.owner?.email ?? (lead.owner_id ? ownerEmails.get(lead.owner_id) : null),
+      lead.notes,
+      lead.created_at
+    ])
+  ];
+}
@@ -0,0 +1,124 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { leadsApi } from "@/api/leads";
+import type {
+  LeadActivityPayload,
+  LeadConvertPayload,
+  LeadFilters,
+  LeadPayload
+} from "@/api/leads";
+import { useFacility } from "@/contexts/FacilityContext";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
+import type { FacilityScopeId } from "@/shared/facility/queryKeys";
+
+export const leadKeys = {
+  all: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "leads"] as const,
+  lists: (facilityId: FacilityScopeId) => [...leadKeys.all(facilityId), "list"] as const,
+  list: (facilityId: FacilityScopeId, filters: LeadFilters = {}) =>
+    [...leadKeys.lists(facilityId), filters] as const,
+  board: (facilityId: FacilityScopeId, filters: Pick<LeadFilters, "q" | "owner_id">) =>
+    [...leadKeys.lists(facilityId), "board", filters] as const,
+  detail: (facilityId: FacilityScopeId, id: number | string) =>
+    [...leadKeys.all(facilityId), "detail", String(id)] as const,
+  activities: (facilityId: FacilityScopeId, id: number) =>
+    [...leadKeys.all(facilityId), "activities", id] as const
+};
+
+export const leadQueries = {
+  list: (facilityId: string | null, filters: LeadFilters = {}) =>
+    queryOptions({
+      queryKey: leadKeys.list(facilityId, filters),
+      queryFn: ({ signal }) => leadsApi.list(filters, { facilityId, signal })
+    }),
+  detail: (facilityId: string | null, id: number | string) =>
+    queryOptions({
+      queryKey: leadKeys.detail(facilityId, id),
+      queryFn: ({ signal }) => leadsApi.get(id, { facilityId, signal })
+    }),
+  activities: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: leadKeys.activities(facilityId, id),
+      queryFn: ({ signal }) => leadsApi.listActivities(id, { facilityId, signal })
+    })
+};
+
+export function useLeads(filters: LeadFilters = {}, options: { enabled?: boolean } = {}) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({
+    ...leadQueries.list(selectedFacilityId, filters),
+    enabled: options.enabled ?? true
+  });
+}
+
+export function useLead(id: number | string | undefined) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({ ...leadQueries.detail(selectedFacilityId, id ?? ""), enabled: !!id });
+}
+
+export function useLeadActivities(id: number | undefined) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({ ...leadQueries.activities(selectedFacilityId, id ?? 0), enabled: !!id });
+}
+
+export function useCreateLead() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: LeadPayload) => leadsApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: leadKeys.lists(selectedFacilityId) })
+  });
+}
+
+export function useUpdateLead() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: Partial<LeadPayload> }) =>
+      leadsApi.update(id, data),
+    onSuccess: (lead) => {
+      queryClient.setQueryData(leadKeys.detail(selectedFacilityId, lead.id), lead);
+      return queryClient.invalidateQueries({ queryKey: leadKeys.lists(selectedFacilityId) });
+    }
+  });
+}
+
+export function useDeleteLead() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => leadsApi.delete(id),
+    onSettled: (_data, _error, id) => {
+      queryClient.removeQueries({ queryKey: leadKeys.detail(selectedFacilityId, id) });
+      return queryClient.invalidateQueries({ queryKey: leadKeys.lists(selectedFacilityId) });
+    }
+  });
+}
+
+export function useAddLeadActivity(leadId: number) {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: LeadActivityPayload) => leadsApi.addActivity(leadId, data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: leadKeys.activities(selectedFacilityId, leadId)
+      })
+  });
+}
+
+export function useConvertLead() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: LeadConvertPayload }) =>
+      leadsApi.convert(id, data),
+    onSuccess: (_data, { id }) => {
+      queryClient.removeQueries({ queryKey: leadKeys.detail(selectedFacilityId, id) });
+      return queryClient.invalidateQueries({ queryKey: leadKeys.lists(selectedFacilityId) });
+    }
+  });
+}
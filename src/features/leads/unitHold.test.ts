@@ -0,0 +1,66 @@
+import { unitsApi } from "@/api/units";
+import type { UnitRecord } from "@/api/units";
+import { HttpError } from "@/shared/api/httpClient";
+import {
+  UNIT_HOLD_MINUTES,
+  UnitUnavailableError,
+  placeUnitHold,
+  releaseUnitHold
+} from "@/features/leads/unitHold";
+
+const expiresAt = "2026-10-19T12:15:00Z";
+const reserved: UnitRecord = {
+  id: 4,
+  unit_type: 1,
+  unit_number: "A-004",
+  status: "RESERVADA",
+  reservation_expires_at: expiresAt
+};
+
+function conflict(url: string) {
+  return new HttpError("Conflict", 409, url, { detail: "Unit is not available." });
+}
+
+describe("placeUnitHold", () => {
+  it("reserves through the server and keeps the server's expiry", async () => {
+    const reserve = vi.spyOn(unitsApi, "reserve").mockResolvedValue(reserved);
+
+    await expect(placeUnitHold(4)).resolves.toEqual({ unitId: 4, expiresAt });
+    expect(reserve).toHaveBeenCalledWith(4, {
+      minutes: UNIT_HOLD_MINUTES,
+      expected_expires_at: null
+    });
+  });
+
+  it("renews only the reservation the rep holds", async () => {
+    const reserve = vi.spyOn(unitsApi, "reserve").mockResolvedValue(reserved);
+
+    await placeUnitHold(4, { unitId: 4, expiresAt: "2026-10-19T12:00:00Z" });
+
+    expect(reserve).toHaveBeenCalledWith(4, {
+      minutes: UNIT_HOLD_MINUTES,
+      expected_expires_at: "2026-10-19T12:00:00Z"
+    });
+  });
+
+  it("reports a unit another rep took first as unavailable", async () => {
+    vi.spyOn(unitsApi, "reserve").mockRejectedValue(conflict("/api/v1/inventory/units/4/reserve/"));
+    vi.spyOn(unitsApi, "get").mockResolvedValue({ ...reserved, status: "OCUPADA" });
+
+    const error = await placeUnitHold(4).catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(UnitUnavailableError);
+    expect((error as UnitUnavailableError).unit.status).toBe("OCUPADA");
+  });
+});
+
+describe("releaseUnitHold", () => {
+  it("ignores a reservation that is no longer this hold", async () => {
+    const release = vi
+      .spyOn(unitsApi, "release")
+      .mockRejectedValue(conflict("/api/v1/inventory/units/4/release/"));
+
+    await expect(releaseUnitHold({ unitId: 4, expiresAt })).resolves.toBeUndefined();
+    expect(release).toHaveBeenCalledWith(4, { expected_expires_at: expiresAt });
+  });
+});
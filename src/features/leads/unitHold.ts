@@ -0,0 +1,88 @@
+import { unitsApi } from "@/api/units";
+import type { UnitRecord } from "@/api/units";
+import { isHttpError } from "@/shared/api/errorHandling";
+
+export const UNIT_HOLD_MINUTES = 15;
+
+export type UnitHold = {
+  unitId: number;
+  expiresAt: string;
+};
+
+export type UnitHoldState = "held" | "expired" | "taken";
+
+export class UnitUnavailableError extends Error {
+  unit: UnitRecord;
+
+  constructor(unit: UnitRecord) {
+    super(`Unit ${unit.unit_number} is no longer available.`);
+    this.name = "UnitUnavailableError";
+    this.unit = unit;
+  }
+}
+
+function isSameInstant(a: string | null, b: string) {
+  return a !== null && new Date(a).getTime() === new Date(b).getTime();
+}
+
+/** True when the unit is currently reserved by this hold (and not by someone else). */
+export function isHeldBy(unit: UnitRecord, hold: UnitHold | null): boolean {
+  return (
+    !!hold &&
+    unit.id === hold.unitId &&
+    unit.status === "RESERVADA" &&
+    isSameInstant(unit.reservation_expires_at, hold.expiresAt)
+  );
+}
+
+export function getHoldState(unit: UnitRecord, hold: UnitHold): UnitHoldState {
+  if (isHeldBy(unit, hold)) {
+    return new Date(hold.expiresAt).getTime() > Date.now() ? "held" : "expired";
+  }
+  // The reservation lapsed and nobody picked the unit up yet.
+  return unit.status === "LIVRE" ? "expired" : "taken";
+}
+
+function isConflict(error: unknown): boolean {
+  return isHttpError(error) && error.status === 409;
+}
+
+/**
+ * Reserves a unit for the conversion wizard through the server's reserve action, so two
+ * reps cannot both take the same free unit. `currentHold` lets a rep renew their own hold;
+ * any other non-free status throws UnitUnavailableError.
+ */
+export async function placeUnitHold(
+  unitId: number,
+  currentHold: UnitHold | null = null
+): Promise<UnitHold> {
+  let unit: UnitRecord;
+  try {
+    unit = await unitsApi.reserve(unitId, {
+      minutes: UNIT_HOLD_MINUTES,
+      expected_expires_at: currentHold?.unitId === unitId ? currentHold.expiresAt : null
+    });
+  } catch (error) {
+    if (isConflict(error)) {
+      throw new UnitUnavailableError(await unitsApi.get(unitId));
+    }
+    throw error;
+  }
+
+  if (!unit.reservation_expires_at) {
+    throw new Error(`Reserving unit ${unit.unit_number} returned no expiry.`);
+  }
+  return { unitId, expiresAt: unit.reservation_expires_at };
+}
+
+/** Frees the unit unless someone else has reserved or occupied it since. */
+export async function releaseUnitHold(hold: UnitHold): Promise<void> {
+  try {
+    await unitsApi.release(hold.unitId, { expected_expires_at: hold.expiresAt });
+  } catch (error) {
+    // The reservation is no longer ours; there is nothing to give back.
+    if (!isConflict(error)) {
+      throw error;
+    }
+  }
+}
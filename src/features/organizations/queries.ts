@@ -0,0 +1,45 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { organizationsApi } from "@/api/organizations";
+import type { OrganizationPayload } from "@/api/organizations";
+
+export const organizationKeys = {
+  all: ["organizations"] as const,
+  lists: () => [...organizationKeys.all, "list"] as const
+};
+
+export const organizationQueries = {
+  list: () =>
+    queryOptions({ queryKey: organizationKeys.lists(), queryFn: () => organizationsApi.list() })
+};
+
+export function useOrganizations() {
+  return useQuery(organizationQueries.list());
+}
+
+export function useCreateOrganization() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: OrganizationPayload) => organizationsApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: organizationKeys.all })
+  });
+}
+
+export function useUpdateOrganization() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: OrganizationPayload }) =>
+      organizationsApi.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: organizationKeys.all })
+  });
+}
+
+export function useDeleteOrganization() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => organizationsApi.delete(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: organizationKeys.all })
+  });
+}
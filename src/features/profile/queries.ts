@@ -0,0 +1,18 @@
+import { useMutation } from "@tanstack/react-query";
+import { profileApi } from "@/api/profile";
+import type { PasswordChangePayload, ProfilePayload } from "@/api/profile";
+
+// The profile itself is held by the auth context; callers hand it the saved profile.
+export function useUpdateProfile() {
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: ProfilePayload) => profileApi.update(data)
+  });
+}
+
+export function useChangePassword() {
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: PasswordChangePayload) => profileApi.changePassword(data)
+  });
+}
@@ -0,0 +1,72 @@
+import type { Tenant, TenantPayload } from "@/api/tenants";
+import type { CsvValue } from "@/shared/lib/csv";
+import { EMAIL_PATTERN, matchCsvOption } from "@/shared/lib/csvImport";
+import type { CsvImportField, CsvMappedRow, CsvRowResult } from "@/shared/lib/csvImport";
+
+export const TENANT_CSV_FIELDS: CsvImportField[] = [
+  { key: "first_name", label: "First name", required: true, aliases: ["nome"] },
+  { key: "last_name", label: "Last name", required: true, aliases: ["sobrenome"] },
+  { key: "email", label: "Email", aliases: ["e-mail"] },
+  { key: "phone_primary", label: "Primary phone", aliases: ["phone", "telefone"] },
+  { key: "phone_secondary", label: "Secondary phone", aliases: ["telefone 2"] },
+  { key: "document", label: "Document", aliases: ["cpf", "cnpj", "documento"] },
+  { key: "category", label: "Category", aliases: ["categoria", "tipo"] },
+  { key: "address", label: "Address", aliases: ["endereco"] }
+];
+
+const CATEGORY_OPTIONS = [
+  { value: "PF", label: "Pessoa Física" },
+  { value: "PJ", label: "Pessoa Jurídica" }
+] as const;
+
+/** Validates tenant rows with the same rules as the tenant form. */
+export function validateTenantRows(rows: CsvMappedRow[]): CsvRowResult<TenantPayload>[] {
+  return rows.map(({ line, values }) => {
+    const errors: string[] = [];
+    if (!values.first_name) errors.push("First name is required.");
+    if (!values.last_name) errors.push("Last name is required.");
+    if (values.email && !EMAIL_PATTERN.test(values.email)) {
+      errors.push(`Invalid email "${values.email}".`);
+    }
+    const category = values.category ? matchCsvOption(values.category, CATEGORY_OPTIONS) : null;
+    if (values.category && !category) {
+      errors.push(`Unknown category "${values.category}". Use PF or PJ.`);
+    }
+
+    if (errors.length > 0) {
+      return { line, payload: null, errors };
+    }
+    return {
+      line,
+      errors,
+      payload: {
+        first_name: values.first_name,
+        last_name: values.last_name,
+        email: values.email || null,
+        phone_primary: values.phone_primary || null,
+        phone_secondary: values.phone_secondary || null,
+        document: values.document || null,
+        category,
+        address: values.address || null
+      }
+    };
+  });
+}
+
+export function tenantsToCsvRows(tenants: Tenant[]): CsvValue[][] {
+  return [
+    ["id", ...TENANT_CSV_FIELDS.map((field) => field.key), "created_at"],
+    ...tenants.map((tenant) => [
+      tenant.id,
+      tenant.first_name,
+      tenant.last_name,
+      tenant.email,
+      tenant.phone_primary,
+      tenant.phone_secondary,
+      tenant.document,
+      tenant.category,
+      tenant.address,
+      tenant.created_at
+    ])
+  ];
+}
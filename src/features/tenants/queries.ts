@@ -0,0 +1,84 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { tenantsApi } from "@/api/tenants";
+import type { TenantFilters, TenantPayload } from "@/api/tenants";
+import { useFacility } from "@/contexts/FacilityContext";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
+import type { FacilityScopeId } from "@/shared/facility/queryKeys";
+
+export const tenantKeys = {
+  all: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "tenants"] as const,
+  lists: (facilityId: FacilityScopeId) => [...tenantKeys.all(facilityId), "list"] as const,
+  list: (facilityId: FacilityScopeId, filters: TenantFilters = {}) =>
+    [...tenantKeys.lists(facilityId), filters] as const,
+  detail: (facilityId: FacilityScopeId, id: number) =>
+    [...tenantKeys.all(facilityId), "detail", id] as const,
+  view360: (facilityId: FacilityScopeId, id: number) =>
+    [...tenantKeys.all(facilityId), "360", id] as const
+};
+
+export const tenantQueries = {
+  list: (facilityId: string | null, filters: TenantFilters = {}) =>
+    queryOptions({
+      queryKey: tenantKeys.list(facilityId, filters),
+      queryFn: ({ signal }) => tenantsApi.list(filters, { facilityId, signal })
+    }),
+  detail: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: tenantKeys.detail(facilityId, id),
+      queryFn: ({ signal }) => tenantsApi.get(id, { facilityId, signal })
+    }),
+  view360: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: tenantKeys.view360(facilityId, id),
+      queryFn: ({ signal }) => tenantsApi.get360(id, { facilityId, signal })
+    })
+};
+
+export function useTenants(filters: TenantFilters = {}) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery(tenantQueries.list(selectedFacilityId, filters));
+}
+
+export function useTenant(id: number | null) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({ ...tenantQueries.detail(selectedFacilityId, id ?? 0), enabled: id !== null });
+}
+
+export function useTenant360(id: number | null) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({ ...tenantQueries.view360(selectedFacilityId, id ?? 0), enabled: id !== null });
+}
+
+export function useCreateTenant() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: TenantPayload) => tenantsApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: tenantKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useUpdateTenant() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: TenantPayload }) => tenantsApi.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: tenantKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useDeleteTenant() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => tenantsApi.delete(id),
+    onSettled: (_data, _error, id) => {
+      queryClient.removeQueries({ queryKey: tenantKeys.detail(selectedFacilityId, id) });
+      queryClient.removeQueries({ queryKey: tenantKeys.view360(selectedFacilityId, id) });
+      return queryClient.invalidateQueries({ queryKey: tenantKeys.lists(selectedFacilityId) });
+    }
+  });
+}
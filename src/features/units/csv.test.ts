@@ -0,0 +1,65 @@
+import type { UnitType } from "@/api/units";
+import { validateUnitRows } from "@/features/units/csv";
+
+const unitTypes = [{ id: 4, name: "Pequeno" }] as UnitType[];
+
+function row(line: number, values: Partial<Record<string, string>>) {
+  return {
+    line,
+    values: {
+      unit_number: "",
+      unit_type: "",
+      status: "",
+      status_reason: "",
+      reservation_expires_at: "",
+      ...values
+    }
+  };
+}
+
+describe("validateUnitRows", () => {
+  it("builds payloads, resolving the unit type by name and the status by label", () => {
+    const [result] = validateUnitRows(
+      [
+        row(2, {
+          unit_number: "A-001",
+          unit_type: "pequeno",
+          status: "Reservada",
+          reservation_expires_at: "10/03/2026"
+        })
+      ],
+      { unitTypes, existingUnitNumbers: [] }
+    );
+
+    expect(result).toEqual({
+      line: 2,
+      errors: [],
+      payload: {
+        unit_type: 4,
+        unit_number: "A-001",
+        status: "RESERVADA",
+        reservation_expires_at: "2026-03-10",
+        status_reason: null
+      }
+    });
+  });
+
+  it("flags existing and repeated numbers, unknown types and missing reasons", () => {
+    const results = validateUnitRows(
+      [
+        row(2, { unit_number: "A-001", unit_type: "4" }),
+        row(3, { unit_number: "a-002", unit_type: "4" }),
+        row(4, { unit_number: "A-003", unit_type: "Grande", status: "BLOQUEADA" })
+      ],
+      { unitTypes, existingUnitNumbers: ["A-002"] }
+    );
+
+    expect(results[0].errors).toEqual([]);
+    expect(results[1].errors).toEqual(["Unit a-002 already exists."]);
+    expect(results[2].errors).toEqual([
+      'Unknown unit type "Grande".',
+      "A reason is required for Bloqueada."
+    ]);
+    expect(results[2].payload).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import type { UnitPayload, UnitRecord, UnitStatus, UnitType } from "@/api/units";
+import { UNIT_STATUS_LABELS, requiresStatusReason } from "@/entities/unit/lib/status";
+import type { CsvValue } from "@/shared/lib/csv";
+import { matchCsvOption, normalizeCsvKey, parseCsvDate } from "@/shared/lib/csvImport";
+import type { CsvImportField, CsvMappedRow, CsvRowResult } from "@/shared/lib/csvImport";
+
+export const UNIT_CSV_FIELDS: CsvImportField[] = [
+  { key: "unit_number", label: "Unit number", required: true, aliases: ["unidade", "numero"] },
+  { key: "unit_type", label: "Unit type", required: true, aliases: ["type", "tipo"] },
+  { key: "status", label: "Status", aliases: ["situacao"] },
+  { key: "status_reason", label: "Status reason", aliases: ["motivo"] },
+  { key: "reservation_expires_at", label: "Reservation expires at", aliases: ["expires"] }
+];
+
+const STATUS_OPTIONS = (Object.keys(UNIT_STATUS_LABELS) as UnitStatus[]).map((status) => ({
+  value: status,
+  label: UNIT_STATUS_LABELS[status]
+}));
+
+type UnitImportContext = {
+  unitTypes: UnitType[];
+  existingUnitNumbers: string[];
+};
+
+/** Validates unit rows the way the unit modal does, plus duplicate numbers across the file. */
+export function validateUnitRows(
+  rows: CsvMappedRow[],
+  { unitTypes, existingUnitNumbers }: UnitImportContext
+): CsvRowResult<UnitPayload>[] {
+  const taken = new Set(existingUnitNumbers.map(normalizeCsvKey));
+  const seen = new Set<string>();
+
+  return rows.map(({ line, values }) => {
+    const errors: string[] = [];
+
+    const numberKey = normalizeCsvKey(values.unit_number);
+    if (!values.unit_number) {
+      errors.push("Unit number is required.");
+    } else if (taken.has(numberKey)) {
+      errors.push(`Unit ${values.unit_number} already exists.`);
+    } else if (seen.has(numberKey)) {
+      errors.push(`Unit ${values.unit_number} appears more than once in the file.`);
+    }
+    seen.add(numberKey);
+
+    const unitType = unitTypes.find(
+      (type) =>
+        String(type.id) === values.unit_type ||
+        normalizeCsvKey(type.name) === normalizeCsvKey(values.unit_type)
+    );
+    if (!values.unit_type) {
+      errors.push("Unit type is required.");
+    } else if (!unitType) {
+      errors.push(`Unknown unit type "${values.unit_type}".`);
+    }
+
+    const status = values.status ? matchCsvOption(values.status, STATUS_OPTIONS) : "LIVRE";
+    if (!status) {
+      errors.push(`Unknown status "${values.status}".`);
+    } else if (requiresStatusReason(status) && !values.status_reason) {
+      errors.push(`A reason is required for ${UNIT_STATUS_LABELS[status]}.`);
+    }
+
+    let reservationExpiresAt: string | null = null;
+    if (status === "RESERVADA" && values.reservation_expires_at) {
+      reservationExpiresAt = parseCsvDate(values.reservation_expires_at);
+      if (!reservationExpiresAt) {
+        errors.push(`Invalid reservation date "${values.reservation_expires_at}".`);
+      }
+    }
+
+    if (errors.length > 0 || !unitType || !status) {
+      return { line, payload: null, errors };
+    }
+    return {
+      line,
+      errors,
+      payload: {
+        unit_type: unitType.id,
+        unit_number: values.unit_number,
+        status,
+        reservation_expires_at: reservationExpiresAt,
+        status_reason: values.status_reason || null
+      }
+    };
+  });
+}
+
+/** Export rows; the header uses the import keys so the file can be imported again. */
+export function unitsToCsvRows(units: UnitRecord[], unitTypes: UnitType[]): CsvValue[][] {
+  const typeNames = new Map(unitTypes.map((type) => [type.id, type.name]));
+  return [
+    ["id", "unit_number", "unit_type", "status", "reservation_expires_at"],
+    ...units.map((unit) => [
+      unit.id,
+      unit.unit_number,
+      typeNames.get(unit.unit_type) ?? unit.unit_type,
+      unit.status,
+      unit.reservation_expires_at
+    ])
+  ];
+}
@@ -0,0 +1,157 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { floorLayoutApi, unitsApi, unitTypesApi } from "@/api/units";
+import type { FloorLayoutPayload, UnitPayload, UnitTypePayload } from "@/api/units";
+import { useFacility } from "@/contexts/FacilityContext";
+import { facilityScopeKey } from "@/shared/facility/queryKeys";
+import type { FacilityScopeId } from "@/shared/facility/queryKeys";
+
+export const unitKeys = {
+  all: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "units"] as const,
+  lists: (facilityId: FacilityScopeId) => [...unitKeys.all(facilityId), "list"] as const,
+  detail: (facilityId: FacilityScopeId, id: number) =>
+    [...unitKeys.all(facilityId), "detail", id] as const,
+  statusHistory: (facilityId: FacilityScopeId, id: number) =>
+    [...unitKeys.all(facilityId), "statusHistory", id] as const
+};
+
+export const unitTypeKeys = {
+  all: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "unitTypes"] as const,
+  lists: (facilityId: FacilityScopeId) => [...unitTypeKeys.all(facilityId), "list"] as const
+};
+
+export const floorLayoutKeys = {
+  detail: (facilityId: FacilityScopeId) => [...facilityScopeKey(facilityId), "floorLayout"] as const
+};
+
+export const unitQueries = {
+  list: (facilityId: string | null) =>
+    queryOptions({
+      queryKey: unitKeys.lists(facilityId),
+      queryFn: ({ signal }) => unitsApi.list({ facilityId, signal })
+    }),
+  detail: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: unitKeys.detail(facilityId, id),
+      queryFn: ({ signal }) => unitsApi.get(id, { facilityId, signal })
+    }),
+  statusHistory: (facilityId: string | null, id: number) =>
+    queryOptions({
+      queryKey: unitKeys.statusHistory(facilityId, id),
+      queryFn: ({ signal }) => unitsApi.statusHistory(id, { facilityId, signal })
+    })
+};
+
+export const unitTypeQueries = {
+  list: (facilityId: string | null) =>
+    queryOptions({
+      queryKey: unitTypeKeys.lists(facilityId),
+      queryFn: ({ signal }) => unitTypesApi.list({ facilityId, signal })
+    })
+};
+
+export const floorLayoutQueries = {
+  detail: (facilityId: string | null) =>
+    queryOptions({
+      queryKey: floorLayoutKeys.detail(facilityId),
+      queryFn: ({ signal }) => floorLayoutApi.get({ facilityId, signal })
+    })
+};
+
+export function useUnits() {
+  const { selectedFacilityId } = useFacility();
+  return useQuery(unitQueries.list(selectedFacilityId));
+}
+
+export function useUnitStatusHistory(id: number | null) {
+  const { selectedFacilityId } = useFacility();
+  return useQuery({
+    ...unitQueries.statusHistory(selectedFacilityId, id ?? 0),
+    enabled: id !== null
+  });
+}
+
+export function useUnitTypes() {
+  const { selectedFacilityId } = useFacility();
+  return useQuery(unitTypeQueries.list(selectedFacilityId));
+}
+
+export function useCreateUnit() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: UnitPayload) => unitsApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useUpdateUnit() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: UnitPayload }) => unitsApi.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useDeleteUnit() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => unitsApi.delete(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useCreateUnitType() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: UnitTypePayload) => unitTypesApi.create(data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: unitTypeKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useUpdateUnitType() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: UnitTypePayload }) =>
+      unitTypesApi.update(id, data),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: unitTypeKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useDeleteUnitType() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => unitTypesApi.delete(id),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: unitTypeKeys.all(selectedFacilityId) })
+  });
+}
+
+export function useFloorLayout() {
+  const { selectedFacilityId } = useFacility();
+  return useQuery(floorLayoutQueries.detail(selectedFacilityId));
+}
+
+export function useSaveFloorLayout() {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: FloorLayoutPayload) =>
+      floorLayoutApi.save(data, { facilityId: selectedFacilityId }),
+    onSuccess: (layout) =>
+      queryClient.setQueryData(floorLayoutKeys.detail(selectedFacilityId), layout)
+  });
+}
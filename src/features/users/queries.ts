@@ -0,0 +1,44 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { usersApi } from "@/api/users";
+import type { UserProfilePayload } from "@/api/users";
+
+export const userKeys = {
+  all: ["users"] as const,
+  lists: () => [...userKeys.all, "list"] as const
+};
+
+export const userQueries = {
+  list: () => queryOptions({ queryKey: userKeys.lists(), queryFn: () => usersApi.list() })
+};
+
+export function useUsers() {
+  return useQuery(userQueries.list());
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (data: UserProfilePayload) => usersApi.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: userKeys.all })
+  });
+}
+
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: ({ id, data }: { id: number; data: UserProfilePayload }) =>
+      usersApi.update(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: userKeys.all })
+  });
+}
+
+export function useDeleteUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    meta: { handlesErrors: true },
+    mutationFn: (id: number) => usersApi.delete(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: userKeys.all })
+  });
+}
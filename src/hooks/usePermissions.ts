@@ -1,56 +1,16 @@
-import { useMemo } from "react";
-import { useAuth } from "@/shared/auth";
-import type { Role } from "@/shared/auth/types";
-
-type Permission =
-  | "billing.view_invoice"
-  | "billing.view_invoices"
-  | "billing.record_payment"
-  | "billing.void_invoice";
-
-const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
-  admin: [
-    "billing.view_invoice",
-    "billing.view_invoices",
-    "billing.record_payment",
-    "billing.void_invoice"
-  ],
-  admin_corporativo: [
-    "billing.view_invoice",
-    "billing.view_invoices",
-    "billing.record_payment",
-    "billing.void_invoice"
-  ],
-  gerente: ["billing.view_invoice", "billing.view_invoices", "billing.record_payment"],
-  financeiro: [
-    "billing.view_invoice",
-    "billing.view_invoices",
-    "billing.record_payment",
-    "billing.void_invoice"
-  ],
-  ops: ["billing.view_invoice", "billing.view_invoices"],
-  viewer: []
-};
-
-function buildPermissionSet(roles: Role[] | undefined): Set<Permission> {
-  const set = new Set<Permission>();
-  if (!roles) {
-    return set;
-  }
-  roles.forEach((role) => {
-    ROLE_PERMISSIONS[role]?.forEach((perm) => {
-      set.add(perm);
-    });
-  });
-  return set;
-}
+import { useCallback, useMemo } from "react";
+import { getUserPermissions, hasAnyPermission, useAuth } from "@/shared/auth";
+import type { Permission } from "@/shared/auth";
 
 export function usePermissions() {
   const { user } = useAuth();
 
-  const permissionSet = useMemo(() => buildPermissionSet(user?.roles), [user?.roles]);
+  const permissionSet = useMemo(() => getUserPermissions(user), [user]);
 
-  const hasPermission = (permission: Permission) => permissionSet.has(permission);
+  const hasPermission = useCallback(
+    (permission: Permission | Permission[]) => hasAnyPermission(permissionSet, permission),
+    [permissionSet]
+  );
 
   return {
     permissions: permissionSet,
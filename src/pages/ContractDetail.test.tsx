@@ -0,0 +1,133 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import type { Contract } from "@/api/contracts";
+import { AuthContext } from "@/shared/auth";
+import type { AuthState, Role, User } from "@/shared/auth";
+import ContractDetailPage from "@/pages/ContractDetail";
+
+const contract: Contract = {
+  id: 7,
+  tenant: 3,
+  unit: 11,
+  move_in: "2026-01-10",
+  move_out: null,
+  terms: null,
+  status: "ACTIVE",
+  signed_metadata: {},
+  signed_at: null,
+  audit_reference_id: null,
+  billing_reference_id: null,
+  facility: 1,
+  created_at: "2026-01-01T10:00:00Z",
+  updated_at: "2026-01-01T10:00:00Z"
+};
+
+const updateContract = vi.fn();
+
+vi.mock("@/features/contracts/queries", () => ({
+  useContract: () => ({ data: contract, error: null, isError: false, isLoading: false }),
+  useUpdateContract: () => ({ mutateAsync: updateContract }),
+  useDeleteContract: () => ({ mutateAsync: () => Promise.resolve() })
+}));
+
+vi.mock("@/features/tenants/queries", () => ({
+  useTenant: () => ({ data: null })
+}));
+
+vi.mock("@/features/units/queries", () => ({
+  useUnits: () => ({ data: [] })
+}));
+
+function renderAs(user: User) {
+  const auth: AuthState = {
+    user,
+    isAuthenticated: true,
+    isLoading: false,
+    login: () => Promise.resolve(),
+    logout: () => undefined,
+    updateUser: () => undefined
+  };
+
+  render(
+    <AuthContext.Provider value={auth}>
+      <MemoryRouter initialEntries={[`/contracts/${contract.id}`]}>
+        <Routes>
+          <Route path="/contracts/:id" element={<ContractDetailPage />} />
+        </Routes>
+      </MemoryRouter>
+    </AuthContext.Provider>
+  );
+}
+
+function userWithRole(role: Role): User {
+  return {
+    id: 1,
+    email: `${role}@example.com`,
+    firstName: role,
+    lastName: "",
+    name: role,
+    role,
+    roles: [role],
+    organizationId: null,
+    locale: "pt-BR",
+    timezone: "America/Sao_Paulo",
+    avatarUrl: null,
+    facilities: []
+  };
+}
+
+describe("ContractDetailPage permissions", () => {
+  it.each([
+    { role: "admin", canEdit: true, canDelete: true },
+    { role: "admin_corporativo", canEdit: true, canDelete: true },
+    { role: "gerente", canEdit: true, canDelete: true },
+    { role: "financeiro", canEdit: false, canDelete: false },
+    { role: "ops", canEdit: false, canDelete: false },
+    { role: "viewer", canEdit: false, canDelete: false }
+  ] satisfies { role: Role; canEdit: boolean; canDelete: boolean }[])(
+    "$role: edit=$canEdit, delete=$canDelete",
+    ({ role, canEdit, canDelete }) => {
+      renderAs(userWithRole(role));
+
+      const status = screen.getByRole("combobox");
+      const moveIn = screen.getByLabelText("Move In *");
+      if (canEdit) {
+        expect(status).toBeEnabled();
+        expect(moveIn).toBeEnabled();
+        expect(screen.getByRole("button", { name: "Save Changes" })).toBeInTheDocument();
+      } else {
+        expect(status).toBeDisabled();
+        expect(moveIn).toBeDisabled();
+        expect(screen.queryByRole("button", { name: "Save Changes" })).not.toBeInTheDocument();
+      }
+
+      const deleteButton = screen.queryByRole("button", { name: "Delete Contract" });
+      if (canDelete) {
+        expect(deleteButton).toBeInTheDocument();
+      } else {
+        expect(deleteButton).not.toBeInTheDocument();
+      }
+    }
+  );
+
+  it("uses profile permissions over the role defaults", () => {
+    renderAs({ ...userWithRole("viewer"), permissions: ["contracts.change_contract"] });
+
+    expect(screen.getByRole("combobox")).toBeEnabled();
+    expect(screen.queryByRole("button", { name: "Delete Contract" })).not.toBeInTheDocument();
+  });
+
+  it("lets a manager close an active contract", async () => {
+    updateContract.mockResolvedValue(undefined);
+    renderAs(userWithRole("gerente"));
+
+    await userEvent.selectOptions(screen.getByRole("combobox"), "CLOSED");
+    await userEvent.click(screen.getByRole("button", { name: "Save Changes" }));
+
+    expect(updateContract).toHaveBeenCalledWith({
+      id: contract.id,
+      data: expect.objectContaining({ status: "CLOSED" })
+    });
+  });
+});
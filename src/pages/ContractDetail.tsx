@@ -1,14 +1,15 @@
 import { useEffect, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate, useParams } from "react-router-dom";
 import Breadcrumb from "@/components/Breadcrumb";
-import { contractsApi } from "@/api/contracts";
+import { usePermissions } from "@/hooks/usePermissions";
 import type { Contract, ContractStatus, ContractPayload } from "@/api/contracts";
-import { tenantsApi } from "@/api/tenants";
-import type { Tenant } from "@/api/tenants";
-import { unitsApi } from "@/api/units";
-import type { UnitRecord } from "@/api/units";
+import { useContract, useDeleteContract, useUpdateContract } from "@/features/contracts/queries";
+import { useTenant } from "@/features/tenants/queries";
+import { useUnits } from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
 import "@/pages/ContractDetail.css";
 
 const STATUS_OPTIONS: { value: ContractStatus; label: string; color: string }[] = [
@@ -18,8 +19,6 @@ const STATUS_OPTIONS: { value: ContractStatus; label: string; color: string }[]
   { value: "CANCELED", label: "Canceled", color: "#ef4444" }
 ];
 
-const WRITE_ROLES = ["admin", "admin_corporativo", "gerente"];
-
 type ContractFormValues = {
   move_in: string;
   move_out: string;
@@ -49,34 +48,37 @@ function formatDateTime(dateString: string | null): string {
   });
 }
 
-function useUserRoles(): string[] {
-  const stored = localStorage.getItem("user");
-  if (stored) {
-    try {
-      const user = JSON.parse(stored);
-      return user.roles || [];
-    } catch {
-      return [];
-    }
-  }
-  return [];
+function toFormValues(contract: Contract): ContractFormValues {
+  return {
+    move_in: contract.move_in,
+    move_out: contract.move_out || "",
+    terms: contract.terms || "",
+    status: contract.status,
+    audit_reference_id: contract.audit_reference_id || "",
+    billing_reference_id: contract.billing_reference_id || ""
+  };
 }
 
 export default function ContractDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const userRoles = useUserRoles();
-  const canWrite = userRoles.some((role) => WRITE_ROLES.includes(role));
-
-  const [contract, setContract] = useState<Contract | null>(null);
-  const [tenant, setTenant] = useState<Tenant | null>(null);
-  const [unit, setUnit] = useState<UnitRecord | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { hasPermission } = usePermissions();
+  const canChange = hasPermission("contracts.change_contract");
+  const canDelete = hasPermission("contracts.delete_contract");
+
+  const contractQuery = useContract(id ? parseInt(id, 10) : null);
+  const contract = contractQuery.data ?? null;
+  // Tenant and unit info are optional decorations; their errors do not block the page.
+  const tenantQuery = useTenant(contract?.tenant ?? null);
+  const unitsQuery = useUnits();
+  const updateContract = useUpdateContract();
+  const deleteContract = useDeleteContract();
+  const tenant = tenantQuery.data ?? null;
+  const unit = unitsQuery.data?.find((u) => u.id === contract?.unit) ?? null;
+  const isLoading = contractQuery.isLoading;
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
 
@@ -84,6 +86,7 @@ export default function ContractDetailPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors, isDirty }
   } = useForm<ContractFormValues>();
 
@@ -99,68 +102,20 @@ export default function ContractDetailPage() {
 
   const isTerminalStatus = contract?.status === "CLOSED" || contract?.status === "CANCELED";
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      if (!id) {
-        setLoadError("Contract ID is required.");
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const contractData = await contractsApi.get(parseInt(id, 10));
-
-        if (!isMounted) return;
-
-        setContract(contractData);
-
-        reset({
-          move_in: contractData.move_in,
-          move_out: contractData.move_out || "",
-          terms: contractData.terms || "",
-          status: contractData.status,
-          audit_reference_id: contractData.audit_reference_id || "",
-          billing_reference_id: contractData.billing_reference_id || ""
-        });
-
-        try {
-          const [tenantData, unitData] = await Promise.all([
-            tenantsApi.get(contractData.tenant),
-            unitsApi.list()
-          ]);
-
-          if (!isMounted) return;
-
-          setTenant(tenantData);
-          const unitRecord = unitData.find((u) => u.id === contractData.unit);
-          setUnit(unitRecord || null);
-        } catch {
-          // Silently fail - tenant/unit info is optional
-        }
-      } catch (error) {
-        if (!isMounted) return;
+  const loadError = !id
+    ? "Contract ID is required."
+    : isHttpError(contractQuery.error) && contractQuery.error.status === 404
+      ? "Contract not found."
+      : contractQuery.isError
+        ? "Unable to load contract details. Please try again."
+        : null;
 
-        if (axios.isAxiosError(error) && error.response?.status === 404) {
-          setLoadError("Contract not found.");
-        } else {
-          setLoadError("Unable to load contract details. Please try again.");
-        }
-      } finally {
-        if (isMounted) setIsLoading(false);
-      }
+  // Background refetches must not clobber edits in progress.
+  useEffect(() => {
+    if (contract && !isDirty) {
+      reset(toFormValues(contract));
     }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [id, reset]);
+  }, [contract, isDirty, reset]);
 
   useEffect(() => {
     if (!showDeleteConfirm) return;
@@ -177,7 +132,7 @@ export default function ContractDetailPage() {
   }, [showDeleteConfirm]);
 
   const onSubmit = async (values: ContractFormValues) => {
-    if (!contract) return;
+    if (!contract || !canChange) return;
 
     if (!canTransitionToStatus(values.status)) {
       setFormError(`Invalid status transition from ${contract.status} to ${values.status}.`);
@@ -185,7 +140,6 @@ export default function ContractDetailPage() {
     }
 
     setFormError(null);
-    setPageSuccess(null);
 
     const payload: Partial<ContractPayload> = {
       move_in: values.move_in,
@@ -199,25 +153,15 @@ export default function ContractDetailPage() {
     setIsSaving(true);
 
     try {
-      await contractsApi.update(contract.id, payload);
-      const updatedContract = await contractsApi.get(contract.id);
-      setContract(updatedContract);
+      await updateContract.mutateAsync({ id: contract.id, data: payload });
       reset(values);
-      setPageSuccess("Contract updated successfully.");
+      notify.success("Contract updated successfully.");
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, fieldErrors]) => {
-              if (Array.isArray(fieldErrors)) {
-                return `${field}: ${fieldErrors.join(", ")}`;
-              }
-              return `${field}: ${fieldErrors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save contract. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(error, serverErrorTarget(setError, ["move_in", "status"]));
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save contract. Please check the form and try again.");
         }
       } else {
@@ -229,20 +173,22 @@ export default function ContractDetailPage() {
   };
 
   const handleDelete = async () => {
-    if (!contract) return;
+    if (!contract || !canDelete) return;
 
     setIsDeleting(true);
     setFormError(null);
 
     try {
-      await contractsApi.delete(contract.id);
+      await deleteContract.mutateAsync(contract.id);
       navigate("/contracts");
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
+      if (isHttpError(error) && error.status === 404) {
         navigate("/contracts");
         return;
       }
-      setFormError("Unable to delete contract. Please try again.");
+      if (!notifyHttpError(error)) {
+        setFormError("Unable to delete contract. Please try again.");
+      }
     } finally {
       setIsDeleting(false);
       setShowDeleteConfirm(false);
@@ -313,9 +259,6 @@ export default function ContractDetailPage() {
         </div>
       </header>
 
-      {pageSuccess && (
-        <div className="contract-detail-alert contract-detail-alert--success">{pageSuccess}</div>
-      )}
       {formError && (
         <div className="contract-detail-alert contract-detail-alert--error">{formError}</div>
       )}
@@ -356,7 +299,7 @@ export default function ContractDetailPage() {
                       ? "contract-detail-input contract-detail-input--error"
                       : "contract-detail-input"
                   }
-                  disabled={!canWrite || isTerminalStatus}
+                  disabled={!canChange || isTerminalStatus}
                 />
                 {errors.move_in && (
                   <span className="contract-detail-error">{errors.move_in.message}</span>
@@ -369,7 +312,7 @@ export default function ContractDetailPage() {
                   type="date"
                   {...register("move_out")}
                   className="contract-detail-input"
-                  disabled={!canWrite || isTerminalStatus}
+                  disabled={!canChange || isTerminalStatus}
                 />
               </label>
             </div>
@@ -383,7 +326,7 @@ export default function ContractDetailPage() {
                 {...register("terms")}
                 className="contract-detail-input contract-detail-textarea"
                 rows={4}
-                disabled={!canWrite || isTerminalStatus}
+                disabled={!canChange || isTerminalStatus}
               />
             </label>
 
@@ -396,7 +339,7 @@ export default function ContractDetailPage() {
                     ? "contract-detail-input contract-detail-input--error"
                     : "contract-detail-input"
                 }
-                disabled={!canWrite || isTerminalStatus}
+                disabled={!canChange || isTerminalStatus}
               >
                 {STATUS_OPTIONS.map((opt) => {
                   const disabled = !canTransitionToStatus(opt.value);
@@ -430,7 +373,7 @@ export default function ContractDetailPage() {
                   type="text"
                   {...register("audit_reference_id")}
                   className="contract-detail-input"
-                  disabled={!canWrite || isTerminalStatus}
+                  disabled={!canChange || isTerminalStatus}
                 />
               </label>
 
@@ -440,7 +383,7 @@ export default function ContractDetailPage() {
                   type="text"
                   {...register("billing_reference_id")}
                   className="contract-detail-input"
-                  disabled={!canWrite || isTerminalStatus}
+                  disabled={!canChange || isTerminalStatus}
                 />
               </label>
             </div>
@@ -474,28 +417,32 @@ export default function ContractDetailPage() {
             </div>
           </section>
 
-          {canWrite && (
+          {(canChange || canDelete) && (
             <div className="contract-detail-actions">
-              <button
-                type="button"
-                className="contract-detail-button contract-detail-button--danger"
-                onClick={() => setShowDeleteConfirm(true)}
-                disabled={isTerminalStatus}
-              >
-                Delete Contract
-              </button>
-              <div className="contract-detail-actions__right">
-                <button type="button" className="contract-detail-button" onClick={handleBack}>
-                  Cancel
-                </button>
+              {canDelete && (
                 <button
-                  type="submit"
-                  className="contract-detail-primary"
-                  disabled={isSaving || !isDirty || isTerminalStatus}
+                  type="button"
+                  className="contract-detail-button contract-detail-button--danger"
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={isTerminalStatus}
                 >
-                  {isSaving ? "Saving..." : "Save Changes"}
+                  Delete Contract
                 </button>
-              </div>
+              )}
+              {canChange && (
+                <div className="contract-detail-actions__right">
+                  <button type="button" className="contract-detail-button" onClick={handleBack}>
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="contract-detail-primary"
+                    disabled={isSaving || !isDirty || isTerminalStatus}
+                  >
+                    {isSaving ? "Saving..." : "Save Changes"}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </form>
@@ -1,14 +1,22 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
 import Breadcrumb from "@/components/Breadcrumb";
-import { contractsApi } from "@/api/contracts";
 import type { Contract, ContractStatus, ContractPayload } from "@/api/contracts";
-import { tenantsApi } from "@/api/tenants";
 import type { Tenant } from "@/api/tenants";
-import { unitsApi } from "@/api/units";
 import type { UnitRecord } from "@/api/units";
+import {
+  useContracts,
+  useCreateContract,
+  useDeleteContract,
+  useUpdateContract
+} from "@/features/contracts/queries";
+import { useTenants } from "@/features/tenants/queries";
+import { useUnits } from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/Contracts.css";
 
 const STATUS_OPTIONS: { value: ContractStatus; label: string; color: string }[] = [
@@ -18,8 +26,6 @@ const STATUS_OPTIONS: { value: ContractStatus; label: string; color: string }[]
   { value: "CANCELED", label: "Canceled", color: "#ef4444" }
 ];
 
-const WRITE_ROLES = ["admin", "admin_corporativo", "gerente"];
-
 type ContractFormValues = {
   tenant: string;
   unit: string;
@@ -60,33 +66,31 @@ function formatDate(dateString: string | null): string {
   });
 }
 
-function useUserRoles(): string[] {
-  const stored = localStorage.getItem("user");
-  if (stored) {
-    try {
-      const user = JSON.parse(stored);
-      return user.roles || [];
-    } catch {
-      return [];
-    }
-  }
-  return [];
-}
+const EMPTY_CONTRACTS: Contract[] = [];
+const EMPTY_TENANTS: Tenant[] = [];
+const EMPTY_UNITS: UnitRecord[] = [];
 
 export default function ContractsPage() {
   const navigate = useNavigate();
-  const userRoles = useUserRoles();
-  const canWrite = userRoles.some((role) => WRITE_ROLES.includes(role));
-
-  const [contracts, setContracts] = useState<Contract[]>([]);
-  const [tenants, setTenants] = useState<Tenant[]>([]);
-  const [units, setUnits] = useState<UnitRecord[]>([]);
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("contracts.add_contract");
+  const canChange = hasPermission("contracts.change_contract");
+  const canDelete = hasPermission("contracts.delete_contract");
+
+  const contractsQuery = useContracts();
+  const tenantsQuery = useTenants();
+  const unitsQuery = useUnits();
+  const createContract = useCreateContract();
+  const updateContract = useUpdateContract();
+  const deleteContract = useDeleteContract();
+  const contracts = contractsQuery.data ?? EMPTY_CONTRACTS;
+  const tenants = tenantsQuery.data ?? EMPTY_TENANTS;
+  const units = unitsQuery.data ?? EMPTY_UNITS;
+  const isLoading = contractsQuery.isLoading || tenantsQuery.isLoading || unitsQuery.isLoading;
   const [statusFilter, setStatusFilter] = useState<ContractStatus | "">("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingContract, setEditingContract] = useState<Contract | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
@@ -97,6 +101,7 @@ export default function ContractsPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors }
   } = useForm<ContractFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -119,47 +124,14 @@ export default function ContractsPage() {
     return contracts.filter((contract) => contract.status === statusFilter);
   }, [contracts, statusFilter]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [contractList, tenantList, unitList] = await Promise.all([
-          contractsApi.list(),
-          tenantsApi.list(),
-          unitsApi.list()
-        ]);
-
-        if (!isMounted) return;
-
-        setContracts(contractList);
-        setTenants(tenantList);
-        setUnits(unitList);
-      } catch {
-        if (!isMounted) return;
-        setLoadError("Unable to load contracts. Please try again.");
-      } finally {
-        if (isMounted) setIsLoading(false);
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
-
-  const refreshContracts = async () => {
-    const contractList = await contractsApi.list();
-    setContracts(contractList);
-  };
+  const loadError =
+    actionError ??
+    (contractsQuery.isError || tenantsQuery.isError || unitsQuery.isError
+      ? "Unable to load contracts. Please try again."
+      : null);
 
   const openCreateModal = () => {
-    if (!canWrite) return;
+    if (!canAdd) return;
     setEditingContract(null);
     reset(DEFAULT_FORM_VALUES);
     setFormError(null);
@@ -167,7 +139,7 @@ export default function ContractsPage() {
   };
 
   const openEditModal = (contract: Contract) => {
-    if (!canWrite) return;
+    if (!canChange) return;
     setEditingContract(contract);
     reset({
       tenant: String(contract.tenant),
@@ -251,7 +223,6 @@ export default function ContractsPage() {
 
   const onSubmit = async (values: ContractFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
 
     if (editingContract && !canTransitionToStatus(values.status)) {
       setFormError(`Invalid status transition from ${editingContract.status} to ${values.status}.`);
@@ -277,28 +248,22 @@ export default function ContractsPage() {
         : "Contract created successfully.";
 
       if (editingContract) {
-        await contractsApi.update(editingContract.id, payload);
+        await updateContract.mutateAsync({ id: editingContract.id, data: payload });
       } else {
-        await contractsApi.create(payload);
+        await createContract.mutateAsync(payload);
       }
 
-      await refreshContracts();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, fieldErrors]) => {
-              if (Array.isArray(fieldErrors)) {
-                return `${field}: ${fieldErrors.join(", ")}`;
-              }
-              return `${field}: ${fieldErrors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save contract. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["tenant", "unit", "move_in", "status"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save contract. Please check the form and try again.");
         }
       } else {
@@ -310,7 +275,7 @@ export default function ContractsPage() {
   };
 
   const handleDelete = async (contract: Contract) => {
-    if (!canWrite || deletingIds.has(contract.id)) return;
+    if (!canDelete || deletingIds.has(contract.id)) return;
 
     if (!window.confirm(`Delete contract #${contract.id}?`)) return;
 
@@ -320,14 +285,15 @@ export default function ContractsPage() {
         next.add(contract.id);
         return next;
       });
-      await contractsApi.delete(contract.id);
-      await refreshContracts();
+      setActionError(null);
+      await deleteContract.mutateAsync(contract.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshContracts();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
-      setLoadError("Unable to delete contract. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete contract. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -358,7 +324,7 @@ export default function ContractsPage() {
           <Breadcrumb items={[{ label: "Contratos" }]} />
           <p className="contracts-subtitle">Manage lease contracts for the facility.</p>
         </div>
-        {canWrite && (
+        {canAdd && (
           <button type="button" className="contracts-primary" onClick={openCreateModal}>
             New Contract
           </button>
@@ -366,7 +332,6 @@ export default function ContractsPage() {
       </header>
 
       {loadError && <div className="contracts-alert contracts-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="contracts-alert contracts-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="contracts-empty">Loading contracts...</div>
@@ -436,7 +401,7 @@ export default function ContractsPage() {
                   <td>{formatDate(contract.created_at)}</td>
                   <td>
                     <div className="contracts-actions">
-                      {canWrite && (
+                      {canChange && (
                         <button
                           type="button"
                           className="contracts-icon-button"
@@ -449,7 +414,7 @@ export default function ContractsPage() {
                           </svg>
                         </button>
                       )}
-                      {canWrite && (
+                      {canDelete && (
                         <button
                           type="button"
                           className="contracts-icon-button contracts-icon-button--danger"
@@ -504,6 +469,9 @@ export default function ContractsPage() {
             </div>
 
             <form className="contracts-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && (
+                <div className="contracts-alert contracts-alert--error">{formError}</div>
+              )}
               <div className="contracts-form-grid">
                 <label className="contracts-field">
                   <span>Tenant *</span>
@@ -628,10 +596,6 @@ export default function ContractsPage() {
                 </label>
               </div>
 
-              {formError && (
-                <div className="contracts-alert contracts-alert--error">{formError}</div>
-              )}
-
               <div className="contracts-form__actions">
                 <button type="button" className="contracts-button" onClick={closeModal}>
                   Cancel
@@ -1,10 +1,10 @@
-import { Fragment, useEffect, useState } from "react";
+import { Fragment } from "react";
 import { useAuth } from "@/shared/auth";
-import { useFacility } from "@/contexts/FacilityContext";
-import { unitsApi } from "@/api/units";
-import type { UnitRecord } from "@/api/units";
-import { facilitiesApi } from "@/api/facilities";
-import { organizationsApi } from "@/api/organizations";
+import type { UnitRecord, UnitStatus } from "@/api/units";
+import { UNIT_STATUS_COLORS, UNIT_STATUS_LABELS } from "@/entities/unit/lib/status";
+import { useFacilities } from "@/features/facilities/queries";
+import { useOrganizations } from "@/features/organizations/queries";
+import { useUnits } from "@/features/units/queries";
 import "@/pages/Dashboard.css";
 
 /* ── Mock data (métricas financeiras / tarefas) ── */
@@ -23,6 +23,8 @@ const MOCK_REVENUE_MONTHS = [
   { label: "Fev", value: 256054 }
 ];
 
+const EMPTY_UNITS: UnitRecord[] = [];
+
 const MOCK_RETENTION_MONTHS = [
   { label: "Set", value: 85 },
   { label: "Out", value: 87 },
@@ -44,53 +46,16 @@ const MOCK_HEATMAP = [
 const HEATMAP_HOURS = ["08h", "10h", "12h", "14h", "16h"];
 const HEATMAP_DAYS = ["Seg", "Ter", "Qua", "Qui", "Sex", "Sáb", "Dom"];
 
-const STATUS_COLORS: Record<string, string> = {
-  LIVRE: "var(--status-success)",
-  OCUPADA: "var(--brand-primary)",
-  RESERVADA: "var(--status-warning)",
-  BLOQUEADA: "var(--status-error)",
-  EM_VISTORIA: "var(--status-info)"
-};
-
-const STATUS_LABELS: Record<string, string> = {
-  LIVRE: "Livre",
-  OCUPADA: "Ocupada",
-  RESERVADA: "Reservada",
-  BLOQUEADA: "Bloqueada",
-  EM_VISTORIA: "Em Vistoria"
-};
-
 export default function DashboardPage() {
   const { user } = useAuth();
-  const { selectedFacilityId } = useFacility();
-  const [units, setUnits] = useState<UnitRecord[]>([]);
-  const [facilityCount, setFacilityCount] = useState(0);
-  const [orgCount, setOrgCount] = useState(0);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    let mounted = true;
-    async function load() {
-      try {
-        const [unitList, facList, orgList] = await Promise.all([
-          unitsApi.list().catch(() => [] as UnitRecord[]),
-          facilitiesApi.list().catch(() => []),
-          organizationsApi.list().catch(() => [])
-        ]);
-        if (mounted) {
-          setUnits(unitList);
-          setFacilityCount(facList.length);
-          setOrgCount(orgList.length);
-        }
-      } finally {
-        if (mounted) setLoading(false);
-      }
-    }
-    load();
-    return () => {
-      mounted = false;
-    };
-  }, [selectedFacilityId]);
+  const unitsQuery = useUnits();
+  const facilitiesQuery = useFacilities();
+  const organizationsQuery = useOrganizations();
+  // Failed requests fall back to the mock figures below instead of blocking the dashboard.
+  const units = unitsQuery.data ?? EMPTY_UNITS;
+  const facilityCount = facilitiesQuery.data?.length ?? 0;
+  const orgCount = organizationsQuery.data?.length ?? 0;
+  const loading = unitsQuery.isLoading || facilitiesQuery.isLoading || organizationsQuery.isLoading;
 
   const statusCounts = units.reduce<Record<string, number>>((acc, u) => {
     acc[u.status] = (acc[u.status] || 0) + 1;
@@ -126,7 +91,15 @@ export default function DashboardPage() {
     const gap = DONUT_CIRCUMFERENCE - dashLen;
     const offset = cumulativeOffset;
     cumulativeOffset += dashLen;
-    return { status, count, pct, dashLen, gap, offset, color: STATUS_COLORS[status] || "#ccc" };
+    return {
+      status,
+      count,
+      pct,
+      dashLen,
+      gap,
+      offset,
+      color: UNIT_STATUS_COLORS[status as UnitStatus] || "#ccc"
+    };
   });
 
   // Task ring
@@ -238,7 +211,7 @@ export default function DashboardPage() {
                   <li key={seg.status}>
                     <span className="dash-donut-legend__dot" style={{ background: seg.color }} />
                     <span className="dash-donut-legend__text">
-                      {STATUS_LABELS[seg.status] || seg.status}
+                      {UNIT_STATUS_LABELS[seg.status as UnitStatus] || seg.status}
                     </span>
                     <span className="dash-donut-legend__val">{seg.count}</span>
                   </li>
@@ -1,11 +1,19 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
-import axios from "axios";
 import { useForm } from "react-hook-form";
-import { facilitiesApi } from "@/api/facilities";
-import { organizationsApi } from "@/api/organizations";
 import type { FacilityRecord, FacilityPayload } from "@/api/facilities";
 import type { Organization } from "@/api/organizations";
+import {
+  useCreateFacility,
+  useDeleteFacility,
+  useFacilities,
+  useUpdateFacility
+} from "@/features/facilities/queries";
+import { useOrganizations } from "@/features/organizations/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/Facilities.css";
 
 type FacFormValues = {
@@ -22,16 +30,27 @@ const DEFAULT_FORM_VALUES: FacFormValues = {
   timezone: ""
 };
 
+const EMPTY_FACILITIES: FacilityRecord[] = [];
+const EMPTY_ORGANIZATIONS: Organization[] = [];
+
 export default function FacilitiesPage() {
-  const [facilities, setFacilities] = useState<FacilityRecord[]>([]);
-  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("facilities.add_facility");
+  const canChange = hasPermission("facilities.change_facility");
+  const canDelete = hasPermission("facilities.delete_facility");
+  const facilitiesQuery = useFacilities();
+  const organizationsQuery = useOrganizations();
+  const createFacility = useCreateFacility();
+  const updateFacility = useUpdateFacility();
+  const deleteFacility = useDeleteFacility();
+  const facilities = facilitiesQuery.data ?? EMPTY_FACILITIES;
+  const organizations = organizationsQuery.data ?? EMPTY_ORGANIZATIONS;
+  const isLoading = facilitiesQuery.isLoading || organizationsQuery.isLoading;
   const [searchTerm, setSearchTerm] = useState("");
   const [organizationFilter, setOrganizationFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingFac, setEditingFac] = useState<FacilityRecord | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
@@ -42,6 +61,7 @@ export default function FacilitiesPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors }
   } = useForm<FacFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -89,40 +109,11 @@ export default function FacilitiesPage() {
     });
   }, [facilities, orgMap, organizationFilter, searchTerm]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [facList, orgList] = await Promise.all([
-          facilitiesApi.list(),
-          organizationsApi.list()
-        ]);
-
-        if (isMounted) {
-          setFacilities(facList);
-          setOrganizations(orgList);
-        }
-      } catch {
-        if (isMounted) {
-          setLoadError("Unable to load facilities. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+  const loadError =
+    actionError ??
+    (facilitiesQuery.isError || organizationsQuery.isError
+      ? "Unable to load facilities. Please try again."
+      : null);
 
   const openCreateModal = () => {
     setEditingFac(null);
@@ -169,14 +160,8 @@ export default function FacilitiesPage() {
     };
   }, [closeModal, isModalOpen]);
 
-  const refreshList = async () => {
-    const list = await facilitiesApi.list();
-    setFacilities(list);
-  };
-
   const onSubmit = async (values: FacFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
     setIsSaving(true);
 
     const payload: FacilityPayload = {
@@ -192,17 +177,24 @@ export default function FacilitiesPage() {
         : "Facility created successfully.";
 
       if (editingFac) {
-        await facilitiesApi.update(editingFac.id, payload);
+        await updateFacility.mutateAsync({ id: editingFac.id, data: payload });
       } else {
-        await facilitiesApi.create(payload);
+        await createFacility.mutateAsync(payload);
       }
 
-      await refreshList();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        setFormError("Unable to save facility. Please check the form and try again.");
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["name", "organization"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setFormError("Unable to save facility. Please check the form and try again.");
+        }
       } else {
         setFormError("Unexpected error while saving facility.");
       }
@@ -226,14 +218,15 @@ export default function FacilitiesPage() {
         next.add(fac.id);
         return next;
       });
-      await facilitiesApi.delete(fac.id);
-      await refreshList();
+      setActionError(null);
+      await deleteFacility.mutateAsync(fac.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshList();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
-      setLoadError("Unable to delete facility. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete facility. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -267,24 +260,25 @@ export default function FacilitiesPage() {
           </div>
           <p className="fac-subtitle">Manage facilities and their organization assignments.</p>
         </div>
-        <button type="button" className="fac-primary" onClick={openCreateModal}>
-          <svg
-            width="18"
-            height="18"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2.5"
-          >
-            <line x1="12" y1="5" x2="12" y2="19" />
-            <line x1="5" y1="12" x2="19" y2="12" />
-          </svg>
-          Add facility
-        </button>
+        {canAdd && (
+          <button type="button" className="fac-primary" onClick={openCreateModal}>
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.5"
+            >
+              <line x1="12" y1="5" x2="12" y2="19" />
+              <line x1="5" y1="12" x2="19" y2="12" />
+            </svg>
+            Add facility
+          </button>
+        )}
       </header>
 
       {loadError && <div className="fac-alert fac-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="fac-alert fac-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="fac-loading">
@@ -394,31 +388,35 @@ export default function FacilitiesPage() {
                     <td>{fac.timezone || "-"}</td>
                     <td>
                       <div className="fac-actions">
-                        <button
-                          type="button"
-                          className="fac-icon-button"
-                          onClick={() => openEditModal(fac)}
-                          aria-label="Edit facility"
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          className="fac-icon-button fac-icon-button--danger"
-                          onClick={() => handleDelete(fac)}
-                          disabled={deletingIds.has(fac.id)}
-                          aria-label="Delete facility"
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <polyline points="3 6 5 6 21 6" />
-                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                          </svg>
-                        </button>
+                        {canChange && (
+                          <button
+                            type="button"
+                            className="fac-icon-button"
+                            onClick={() => openEditModal(fac)}
+                            aria-label="Edit facility"
+                            title="Edit"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type="button"
+                            className="fac-icon-button fac-icon-button--danger"
+                            onClick={() => handleDelete(fac)}
+                            disabled={deletingIds.has(fac.id)}
+                            aria-label="Delete facility"
+                            title="Delete"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <polyline points="3 6 5 6 21 6" />
+                              <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                              <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -460,6 +458,7 @@ export default function FacilitiesPage() {
             </div>
 
             <form className="fac-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="fac-alert fac-alert--error">{formError}</div>}
               <label className="fac-field">
                 <span>Name</span>
                 <input
@@ -512,8 +511,6 @@ export default function FacilitiesPage() {
                 />
               </label>
 
-              {formError && <div className="fac-alert fac-alert--error">{formError}</div>}
-
               <div className="fac-form__actions">
                 <button type="button" className="fac-button" onClick={closeModal}>
                   Cancel
@@ -1,11 +1,43 @@
-import { useEffect, useMemo, useState } from "react";
-import axios from "axios";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import Breadcrumb from "@/components/Breadcrumb";
-import { apiClient } from "@/api/client";
-import { unitsApi, unitTypesApi } from "@/api/units";
+import { useFacility } from "@/contexts/FacilityContext";
+import type { Lead, LeadConvertPayload } from "@/api/leads";
+import { unitsApi } from "@/api/units";
 import type { UnitRecord, UnitType } from "@/api/units";
+import {
+  clearConvertDraft,
+  clearConvertDraftHold,
+  getConvertDraftKey,
+  readConvertDraft,
+  writeConvertDraft
+} from "@/features/leads/convertDraft";
+import type { LeadConvertDraft } from "@/features/leads/convertDraft";
+import {
+  getHoldState,
+  isHeldBy,
+  placeUnitHold,
+  releaseUnitHold,
+  UnitUnavailableError
+} from "@/features/leads/unitHold";
+import type { UnitHold, UnitHoldState } from "@/features/leads/unitHold";
+import {
+  formatArea,
+  formatVolume,
+  getPriceBandViolation,
+  getUnitTypeArea,
+  getUnitTypeVolume,
+  parseDecimal
+} from "@/entities/unit/lib/measurements";
+import { contractKeys } from "@/features/contracts/queries";
+import { leadQueries, useConvertLead } from "@/features/leads/queries";
+import { tenantKeys } from "@/features/tenants/queries";
+import { unitKeys, unitQueries, unitTypeQueries } from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { useAuth } from "@/shared/auth";
 import "@/pages/LeadConvert.css";
 
 const STEP_TENANT = 0;
@@ -15,15 +47,8 @@ const STEP_CONFIRM = 3;
 
 const STEP_LABELS = ["Tenant Data", "Unit Selection", "Contract Terms", "Confirmation"];
 
-type Lead = {
-  id: number;
-  first_name: string;
-  last_name: string;
-  email: string | null;
-  phone_primary: string | null;
-  source: string | null;
-  stage: string;
-};
+// Values of the `step` URL parameter, indexed by step number.
+const STEP_PARAMS = ["tenant", "unit", "contract", "confirm"];
 
 type TenantFormValues = {
   first_name: string;
@@ -49,6 +74,30 @@ type ContractFormValues = {
   notes: string;
 };
 
+// Fields that render an inline error; server errors for anything else go to the summary.
+const TENANT_ERROR_FIELDS: (keyof TenantFormValues)[] = [
+  "first_name",
+  "last_name",
+  "email",
+  "phone_primary",
+  "document",
+  "category",
+  "address",
+  "address_street",
+  "address_city",
+  "address_state",
+  "address_zip"
+];
+
+const CONTRACT_ERROR_FIELDS: (keyof ContractFormValues)[] = [
+  "move_in",
+  "move_out",
+  "monthly_rate",
+  "deposit_amount",
+  "terms",
+  "notes"
+];
+
 const DEFAULT_TENANT_VALUES: TenantFormValues = {
   first_name: "",
   last_name: "",
@@ -73,6 +122,46 @@ const DEFAULT_CONTRACT_VALUES: ContractFormValues = {
   notes: ""
 };
 
+type UnitFilters = {
+  unitTypeId: string;
+  minArea: string;
+  maxArea: string;
+  minPrice: string;
+  maxPrice: string;
+};
+
+const DEFAULT_UNIT_FILTERS: UnitFilters = {
+  unitTypeId: "",
+  minArea: "",
+  maxArea: "",
+  minPrice: "",
+  maxPrice: ""
+};
+
+type ConvertDraft = LeadConvertDraft<TenantFormValues, ContractFormValues>;
+
+function getTenantDefaults(lead: Lead): TenantFormValues {
+  return {
+    ...DEFAULT_TENANT_VALUES,
+    first_name: lead.first_name || "",
+    last_name: lead.last_name || "",
+    email: lead.email || "",
+    phone_primary: lead.phone_primary || ""
+  };
+}
+
+function parseStepParam(value: string | null): number {
+  const index = value ? STEP_PARAMS.indexOf(value) : -1;
+  return index === -1 ? STEP_TENANT : index;
+}
+
+function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
 function formatDate(date: Date): string {
   return date.toISOString().split("T")[0];
 }
@@ -90,6 +179,11 @@ function formatCurrency(value: number | null | string): string {
 export default function LeadConvertPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { selectedFacilityId } = useFacility();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const convertLead = useConvertLead();
   const [lead, setLead] = useState<Lead | null>(null);
   const [units, setUnits] = useState<UnitRecord[]>([]);
   const [unitTypes, setUnitTypes] = useState<UnitType[]>([]);
@@ -98,8 +192,24 @@ export default function LeadConvertPage() {
   const [loadError, setLoadError] = useState<string | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
-  const [currentStep, setCurrentStep] = useState(STEP_TENANT);
+  const [furthestStep, setFurthestStep] = useState(STEP_TENANT);
   const [selectedUnit, setSelectedUnit] = useState<UnitRecord | null>(null);
+  const [isDraftReady, setIsDraftReady] = useState(false);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<string | null>(null);
+  const [unitFilters, setUnitFilters] = useState<UnitFilters>(DEFAULT_UNIT_FILTERS);
+  const [hold, setHold] = useState<UnitHold | null>(null);
+  const [holdState, setHoldState] = useState<UnitHoldState | null>(null);
+  const [isPlacingHold, setIsPlacingHold] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const holdRef = useRef<UnitHold | null>(null);
+
+  const draftKey = id && user ? getConvertDraftKey(id, selectedFacilityId, user.id) : null;
+  const draftKeyRef = useRef(draftKey);
+  draftKeyRef.current = draftKey;
+
+  // The URL owns the current step so browser back/forward walk the wizard, but it can never
+  // skip ahead of the furthest step the user actually completed.
+  const currentStep = Math.min(parseStepParam(searchParams.get("step")), furthestStep);
 
   const tenantForm = useForm<TenantFormValues>({
     defaultValues: DEFAULT_TENANT_VALUES
@@ -123,42 +233,71 @@ export default function LeadConvertPage() {
 
       setIsLoading(true);
       setLoadError(null);
+      setIsDraftReady(false);
 
       try {
-        const [leadResponse, unitList, typeList] = await Promise.all([
-          apiClient.get(`/api/v1/leads/${id}/`),
-          unitsApi.list(),
-          unitTypesApi.list()
+        const [leadData, unitList, typeList] = await Promise.all([
+          queryClient.fetchQuery(leadQueries.detail(selectedFacilityId, id)),
+          // Availability must be current when picking a unit, so never reuse a cached list.
+          queryClient.fetchQuery({ ...unitQueries.list(selectedFacilityId), staleTime: 0 }),
+          queryClient.fetchQuery(unitTypeQueries.list(selectedFacilityId))
         ]);
 
         if (!isMounted) {
           return;
         }
 
-        const leadData = leadResponse.data as Lead;
-
         setLead(leadData);
         setUnits(unitList);
         setUnitTypes(typeList);
 
-        tenantForm.reset({
-          first_name: leadData.first_name || "",
-          last_name: leadData.last_name || "",
-          email: leadData.email || "",
-          phone_primary: leadData.phone_primary || "",
-          document: "",
-          category: "",
-          address: "",
-          address_city: "",
-          address_state: "",
-          address_zip: ""
-        });
+        const draft = draftKey
+          ? readConvertDraft<TenantFormValues, ContractFormValues>(draftKey)
+          : null;
+
+        if (draft) {
+          const draftUnit = unitList.find((unit) => String(unit.id) === draft.contract.unit_id);
+          // A draft pointing at a unit that no longer exists resumes from unit selection.
+          const furthest = draftUnit ? draft.furthestStep : Math.min(draft.furthestStep, STEP_UNIT);
+
+          const draftHold = draft.hold ?? null;
+          const heldUnit = draftHold
+            ? unitList.find((unit) => unit.id === draftHold.unitId)
+            : undefined;
+          const restoredHoldState =
+            draftHold && heldUnit ? getHoldState(heldUnit, draftHold) : null;
+          setHold(restoredHoldState === "taken" ? null : draftHold);
+          setHoldState(restoredHoldState);
+
+          tenantForm.reset({ ...DEFAULT_TENANT_VALUES, ...draft.tenant });
+          contractForm.reset({ ...DEFAULT_CONTRACT_VALUES, ...draft.contract });
+          setSelectedUnit(draftUnit ?? null);
+          setFurthestStep(furthest);
+          setRestoredDraftAt(draft.savedAt);
+
+          if (!searchParams.get("step")) {
+            setSearchParams(
+              { step: STEP_PARAMS[Math.min(draft.step, furthest)] },
+              { replace: true }
+            );
+          }
+        } else {
+          tenantForm.reset(getTenantDefaults(leadData));
+          contractForm.reset(DEFAULT_CONTRACT_VALUES);
+          setSelectedUnit(null);
+          setFurthestStep(STEP_TENANT);
+          setRestoredDraftAt(null);
+          setHold(null);
+          setHoldState(null);
+        }
+
+        setIsDraftReady(true);
       } catch (error) {
         if (!isMounted) {
           return;
         }
 
-        if (axios.isAxiosError(error) && error.response?.status === 404) {
+        if (isHttpError(error) && error.status === 404) {
           setLoadError("Lead not found.");
         } else {
           setLoadError("Unable to load lead data. Please try again.");
@@ -175,21 +314,150 @@ export default function LeadConvertPage() {
     return () => {
       isMounted = false;
     };
-    // tenantForm.reset is stable and won't cause re-renders
+    // Form resets and search params are only read once per lead/facility load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, draftKey]);
+
+  const saveDraft = useCallback(() => {
+    if (!draftKey || !isDraftReady) return;
+
+    const draft: ConvertDraft = {
+      step: currentStep,
+      furthestStep,
+      tenant: tenantForm.getValues(),
+      contract: contractForm.getValues(),
+      hold,
+      savedAt: new Date().toISOString()
+    };
+    writeConvertDraft(draftKey, draft);
+  }, [draftKey, isDraftReady, currentStep, furthestStep, hold, tenantForm, contractForm]);
+
+  useEffect(() => {
+    holdRef.current = hold;
+  }, [hold]);
+
+  // Leaving the wizard (route change) frees the unit for other reps. A closed tab cannot
+  // release reliably, so the hold simply runs out at reservation_expires_at.
+  useEffect(() => {
+    return () => {
+      if (holdRef.current) {
+        releaseUnitHold(holdRef.current).catch(() => {
+          // The reservation still expires on its own.
+        });
+        if (draftKeyRef.current) {
+          clearConvertDraftHold(draftKeyRef.current);
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hold || holdState !== "held") return;
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [hold, holdState]);
+
+  const holdRemaining = hold ? new Date(hold.expiresAt).getTime() - now : 0;
+
+  useEffect(() => {
+    if (hold && holdState === "held" && holdRemaining <= 0) {
+      setHoldState("expired");
+    }
+  }, [hold, holdState, holdRemaining]);
+
+  // Re-check availability whenever the rep reaches the confirm step.
+  useEffect(() => {
+    if (currentStep !== STEP_CONFIRM || !selectedUnit) return;
+
+    let isMounted = true;
+    unitsApi
+      .get(selectedUnit.id)
+      .then((unit) => {
+        if (!isMounted) return;
+        const state = hold ? getHoldState(unit, hold) : unit.status === "LIVRE" ? null : "taken";
+        setHoldState(state);
+        if (state === "taken") {
+          setHold(null);
+        }
+      })
+      .catch(() => {
+        // Conversion still validates availability server-side.
+      });
+
+    return () => {
+      isMounted = false;
+    };
+    // Only re-check on entering the step, not on every countdown tick
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [id]);
+  }, [currentStep, selectedUnit]);
+
+  useEffect(() => {
+    // Step changes only refresh an existing draft; an untouched wizard is not worth saving.
+    if (draftKey && readConvertDraft(draftKey)) {
+      saveDraft();
+    }
+
+    // Field edits carry a name; form resets (load, discard) do not and must not create drafts.
+    const handleChange = (_values: unknown, { name }: { name?: string }) => {
+      if (name) saveDraft();
+    };
+    const tenantSubscription = tenantForm.watch(handleChange);
+    const contractSubscription = contractForm.watch(handleChange);
+
+    return () => {
+      tenantSubscription.unsubscribe();
+      contractSubscription.unsubscribe();
+    };
+  }, [draftKey, saveDraft, tenantForm, contractForm]);
+
+  // Normalize an unknown or not-yet-reachable step in the URL.
+  useEffect(() => {
+    if (!isDraftReady) return;
+    const stepParam = searchParams.get("step");
+    if (stepParam && stepParam !== STEP_PARAMS[currentStep]) {
+      setSearchParams({ step: STEP_PARAMS[currentStep] }, { replace: true });
+    }
+  }, [isDraftReady, searchParams, setSearchParams, currentStep]);
+
+  const goToStep = (step: number) => {
+    setValidationError(null);
+    setFurthestStep((prev) => Math.max(prev, step));
+    setSearchParams({ step: STEP_PARAMS[step] }, { replace: step < currentStep });
+  };
+
+  const handleDiscardDraft = () => {
+    if (!lead || !draftKey) return;
+    if (!window.confirm("Discard this conversion draft? All entered data will be lost.")) return;
+
+    clearConvertDraft(draftKey);
+    if (hold) {
+      releaseUnitHold(hold).catch(() => {
+        // The reservation still expires on its own.
+      });
+    }
+    setHold(null);
+    setHoldState(null);
+    tenantForm.reset(getTenantDefaults(lead));
+    contractForm.reset(DEFAULT_CONTRACT_VALUES);
+    setSelectedUnit(null);
+    setFurthestStep(STEP_TENANT);
+    setRestoredDraftAt(null);
+    setValidationError(null);
+    setSubmitError(null);
+    setSearchParams({ step: STEP_PARAMS[STEP_TENANT] }, { replace: true });
+  };
 
   const handleBack = () => {
     if (currentStep > STEP_TENANT) {
-      setCurrentStep(currentStep - 1);
+      goToStep(currentStep - 1);
     } else {
       navigate(`/leads/${id}`);
     }
   };
 
   const handleTenantSubmit = () => {
-    setValidationError(null);
-    setCurrentStep(STEP_UNIT);
+    goToStep(STEP_UNIT);
   };
 
   const handleTenantError = () => {
@@ -201,16 +469,71 @@ export default function LeadConvertPage() {
     setValidationError(messages || "Please fill in all required fields.");
   };
 
-  const handleUnitSelect = (unit: UnitRecord) => {
+  const handleUnitSelect = async (unit: UnitRecord) => {
+    const isNewUnit = contractForm.getValues("unit_id") !== String(unit.id);
+    const basePrice = unitTypeMap.get(unit.unit_type)?.base_price;
+
+    setIsPlacingHold(true);
+    setValidationError(null);
+
+    try {
+      if (hold && hold.unitId !== unit.id) {
+        await releaseUnitHold(hold).catch(() => {
+          // The previous reservation still expires on its own.
+        });
+        setHold(null);
+      }
+      const newHold = await placeUnitHold(unit.id, hold?.unitId === unit.id ? hold : null);
+      setHold(newHold);
+      setHoldState("held");
+      setNow(Date.now());
+      queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) });
+    } catch (error) {
+      setHold(null);
+      setHoldState(null);
+      if (error instanceof UnitUnavailableError) {
+        setUnits((prev) => prev.map((item) => (item.id === unit.id ? error.unit : item)));
+        setValidationError(`${error.message} Please choose another unit.`);
+      } else {
+        setValidationError("Unable to reserve this unit. Please try again.");
+      }
+      return;
+    } finally {
+      setIsPlacingHold(false);
+    }
+
     setSelectedUnit(unit);
     contractForm.setValue("unit_id", String(unit.id));
-    setValidationError(null);
-    setCurrentStep(STEP_CONTRACT);
+    // Start from the list price of the new unit, but keep a rate the rep already negotiated.
+    if (basePrice && (isNewUnit || !contractForm.getValues("monthly_rate"))) {
+      contractForm.setValue("monthly_rate", basePrice);
+    }
+    goToStep(STEP_CONTRACT);
+  };
+
+  const handleRenewHold = async () => {
+    if (!hold) return;
+
+    setIsPlacingHold(true);
+    try {
+      const renewed = await placeUnitHold(hold.unitId, hold);
+      setHold(renewed);
+      setHoldState("held");
+      setNow(Date.now());
+    } catch (error) {
+      if (error instanceof UnitUnavailableError) {
+        setHold(null);
+        setHoldState("taken");
+      } else {
+        setValidationError("Unable to renew the hold. Please try again.");
+      }
+    } finally {
+      setIsPlacingHold(false);
+    }
   };
 
   const handleContractSubmit = () => {
-    setValidationError(null);
-    setCurrentStep(STEP_CONFIRM);
+    goToStep(STEP_CONFIRM);
   };
 
   const handleContractError = () => {
@@ -231,7 +554,7 @@ export default function LeadConvertPage() {
     const tenantValues = tenantForm.getValues();
     const contractValues = contractForm.getValues();
 
-    const payload = {
+    const payload: LeadConvertPayload = {
       tenant: {
         first_name: tenantValues.first_name,
         last_name: tenantValues.last_name,
@@ -258,32 +581,43 @@ export default function LeadConvertPage() {
     };
 
     try {
-      const response = await apiClient.post(`/api/v1/leads/${lead.id}/convert/`, payload);
-      const tenantId = response.data?.tenant?.id || response.data?.id;
+      const response = await convertLead.mutateAsync({ id: lead.id, data: payload });
+      // The unit is now under contract; there is no hold left to release.
+      holdRef.current = null;
+      // Conversion creates a tenant and a contract and occupies the unit.
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: tenantKeys.all(selectedFacilityId) }),
+        queryClient.invalidateQueries({ queryKey: contractKeys.all(selectedFacilityId) }),
+        queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) })
+      ]);
+      if (draftKey) {
+        clearConvertDraft(draftKey);
+      }
+      const tenantId = response.tenant?.id || response.id;
       if (tenantId) {
         navigate(`/tenants/${tenantId}`);
       } else {
         navigate("/leads");
       }
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, errors]) => {
-              if (typeof errors === "string") {
-                return `${field}: ${errors}`;
-              }
-              if (Array.isArray(errors)) {
-                return `${field}: ${errors.join(", ")}`;
-              }
-              return `${field}: ${JSON.stringify(errors)}`;
-            })
-            .join("; ");
-          setSubmitError(
-            messages || "Unable to convert lead. Please check the data and try again."
-          );
-        } else {
+      const summary = applyServerErrors(error, [
+        serverErrorTarget(tenantForm.setError, TENANT_ERROR_FIELDS, { prefix: "tenant" }),
+        serverErrorTarget(contractForm.setError, CONTRACT_ERROR_FIELDS, { prefix: "contract" })
+      ]);
+      if (summary) {
+        // Send the rep back to the first step that has a highlighted field.
+        if (TENANT_ERROR_FIELDS.some((field) => tenantForm.getFieldState(field).error)) {
+          goToStep(STEP_TENANT);
+        } else if (CONTRACT_ERROR_FIELDS.some((field) => contractForm.getFieldState(field).error)) {
+          goToStep(STEP_CONTRACT);
+        }
+        setSubmitError(
+          summary.length > 0
+            ? summary.join(" ")
+            : "Some fields were rejected by the server. Please review the highlighted fields."
+        );
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setSubmitError("Unable to convert lead. Please check the data and try again.");
         }
       } else {
@@ -295,8 +629,57 @@ export default function LeadConvertPage() {
   };
 
   const availableUnits = useMemo(() => {
-    return units.filter((unit) => unit.status === "LIVRE");
-  }, [units]);
+    return units.filter((unit) => unit.status === "LIVRE" || isHeldBy(unit, hold));
+  }, [units, hold]);
+
+  const filteredUnits = useMemo(() => {
+    const minArea = parseDecimal(unitFilters.minArea);
+    const maxArea = parseDecimal(unitFilters.maxArea);
+    const minPrice = parseDecimal(unitFilters.minPrice);
+    const maxPrice = parseDecimal(unitFilters.maxPrice);
+
+    return availableUnits.filter((unit) => {
+      if (unitFilters.unitTypeId && String(unit.unit_type) !== unitFilters.unitTypeId) {
+        return false;
+      }
+
+      const unitType = unitTypeMap.get(unit.unit_type);
+      if (minArea !== null || maxArea !== null) {
+        const area = unitType ? getUnitTypeArea(unitType) : null;
+        if (area === null) return false;
+        if (minArea !== null && area < minArea) return false;
+        if (maxArea !== null && area > maxArea) return false;
+      }
+
+      if (minPrice !== null || maxPrice !== null) {
+        const price = parseDecimal(unitType?.base_price);
+        if (price === null) return false;
+        if (minPrice !== null && price < minPrice) return false;
+        if (maxPrice !== null && price > maxPrice) return false;
+      }
+
+      return true;
+    });
+  }, [availableUnits, unitFilters, unitTypeMap]);
+
+  const availableUnitTypes = useMemo(() => {
+    const typeIds = new Set(availableUnits.map((unit) => unit.unit_type));
+    return unitTypes.filter((unitType) => typeIds.has(unitType.id));
+  }, [availableUnits, unitTypes]);
+
+  const hasUnitFilters = Object.values(unitFilters).some(Boolean);
+
+  const updateUnitFilter = (field: keyof UnitFilters, value: string) => {
+    setUnitFilters((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const selectedUnitType = selectedUnit ? unitTypeMap.get(selectedUnit.unit_type) : undefined;
+  const watchedMonthlyRate = contractForm.watch("monthly_rate");
+  const monthlyRateValue = parseDecimal(watchedMonthlyRate);
+  const priceBandViolation =
+    selectedUnitType && monthlyRateValue !== null
+      ? getPriceBandViolation(selectedUnitType, monthlyRateValue)
+      : null;
 
   if (isLoading) {
     return (
@@ -335,8 +718,39 @@ export default function LeadConvertPage() {
           />
           <p className="lead-convert-subtitle">Convert Lead to Tenant</p>
         </div>
+        <button type="button" className="lead-convert-button" onClick={handleDiscardDraft}>
+          Discard draft
+        </button>
       </header>
 
+      {restoredDraftAt && (
+        <div className="lead-convert-alert lead-convert-alert--info">
+          Resumed a draft saved on {new Date(restoredDraftAt).toLocaleString()}.
+        </div>
+      )}
+
+      {hold && selectedUnit && holdState === "held" && (
+        <div className="lead-convert-alert lead-convert-alert--info" role="status">
+          Unit {selectedUnit.unit_number} is held for you for{" "}
+          <strong className="lead-convert-hold__timer">{formatCountdown(holdRemaining)}</strong>
+        </div>
+      )}
+      {hold && selectedUnit && holdState === "expired" && (
+        <div className="lead-convert-alert lead-convert-alert--warning lead-convert-hold">
+          <span>
+            Your hold on unit {selectedUnit.unit_number} expired. Other reps can pick it now.
+          </span>
+          <button
+            type="button"
+            className="lead-convert-button"
+            onClick={handleRenewHold}
+            disabled={isPlacingHold}
+          >
+            {isPlacingHold ? "Renewing..." : "Renew hold"}
+          </button>
+        </div>
+      )}
+
       <nav className="lead-convert-steps">
         {STEP_LABELS.map((label, index) => (
           <div
@@ -388,6 +802,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("first_name", { required: "First name is required." })}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.first_name && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.first_name.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -397,6 +816,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("last_name", { required: "Last name is required." })}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.last_name && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.last_name.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -406,6 +830,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("email")}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.email && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.email.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -415,6 +844,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("phone_primary")}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.phone_primary && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.phone_primary.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -425,6 +859,11 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     placeholder="SSN or EIN"
                   />
+                  {tenantForm.formState.errors.document && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.document.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -437,6 +876,11 @@ export default function LeadConvertPage() {
                     <option value="INDIVIDUAL">Individual</option>
                     <option value="BUSINESS">Business</option>
                   </select>
+                  {tenantForm.formState.errors.category && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.category.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -447,6 +891,11 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     placeholder="Full address"
                   />
+                  {tenantForm.formState.errors.address && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.address.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -457,6 +906,11 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     placeholder="Street address"
                   />
+                  {tenantForm.formState.errors.address_street && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.address_street.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -466,6 +920,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("address_city")}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.address_city && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.address_city.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -475,6 +934,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("address_state")}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.address_state && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.address_state.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -484,6 +948,11 @@ export default function LeadConvertPage() {
                     {...tenantForm.register("address_zip")}
                     className="lead-convert-input"
                   />
+                  {tenantForm.formState.errors.address_zip && (
+                    <span className="lead-convert-field__error">
+                      {tenantForm.formState.errors.address_zip.message}
+                    </span>
+                  )}
                 </label>
               </div>
             </section>
@@ -506,6 +975,85 @@ export default function LeadConvertPage() {
               Choose an available unit for this tenant.
             </p>
 
+            {availableUnits.length > 0 && (
+              <div className="lead-convert-unit-filters">
+                <label className="lead-convert-field">
+                  <span>Unit Type</span>
+                  <select
+                    className="lead-convert-input"
+                    value={unitFilters.unitTypeId}
+                    onChange={(event) => updateUnitFilter("unitTypeId", event.target.value)}
+                  >
+                    <option value="">All types</option>
+                    {availableUnitTypes.map((unitType) => (
+                      <option key={unitType.id} value={unitType.id}>
+                        {unitType.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="lead-convert-field">
+                  <span>Area (m²)</span>
+                  <div className="lead-convert-range">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      className="lead-convert-input"
+                      placeholder="Min"
+                      aria-label="Minimum area"
+                      value={unitFilters.minArea}
+                      onChange={(event) => updateUnitFilter("minArea", event.target.value)}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      className="lead-convert-input"
+                      placeholder="Max"
+                      aria-label="Maximum area"
+                      value={unitFilters.maxArea}
+                      onChange={(event) => updateUnitFilter("maxArea", event.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="lead-convert-field">
+                  <span>Base Price</span>
+                  <div className="lead-convert-range">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="lead-convert-input"
+                      placeholder="Min"
+                      aria-label="Minimum price"
+                      value={unitFilters.minPrice}
+                      onChange={(event) => updateUnitFilter("minPrice", event.target.value)}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="lead-convert-input"
+                      placeholder="Max"
+                      aria-label="Maximum price"
+                      value={unitFilters.maxPrice}
+                      onChange={(event) => updateUnitFilter("maxPrice", event.target.value)}
+                    />
+                  </div>
+                </div>
+                {hasUnitFilters && (
+                  <button
+                    type="button"
+                    className="lead-convert-button lead-convert-unit-filters__clear"
+                    onClick={() => setUnitFilters(DEFAULT_UNIT_FILTERS)}
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            )}
+
             {availableUnits.length === 0 ? (
               <div className="lead-convert-empty">
                 <p>No available units found.</p>
@@ -517,19 +1065,26 @@ export default function LeadConvertPage() {
                   View Units
                 </button>
               </div>
+            ) : filteredUnits.length === 0 ? (
+              <div className="lead-convert-empty">
+                <p>No available units match the current filters.</p>
+              </div>
             ) : (
               <div className="lead-convert-units">
-                {availableUnits.map((unit) => {
+                {filteredUnits.map((unit) => {
                   const unitType = unitTypeMap.get(unit.unit_type);
                   const dimensions = unitType
                     ? `${unitType.width || "-"} x ${unitType.depth || "-"} x ${unitType.height || "-"} m`
                     : null;
+                  const isSelected = selectedUnit?.id === unit.id;
                   return (
                     <button
                       key={unit.id}
                       type="button"
-                      className="lead-convert-unit-card"
+                      className={`lead-convert-unit-card ${isSelected ? "lead-convert-unit-card--selected" : ""}`}
                       onClick={() => handleUnitSelect(unit)}
+                      aria-pressed={isSelected}
+                      disabled={isPlacingHold}
                     >
                       <div className="lead-convert-unit-card__header">
                         <span className="lead-convert-unit-card__name">{unit.unit_number}</span>
@@ -546,6 +1101,16 @@ export default function LeadConvertPage() {
                         {dimensions && (
                           <span className="lead-convert-unit-card__dimension">{dimensions}</span>
                         )}
+                        {unitType && getUnitTypeArea(unitType) !== null && (
+                          <span className="lead-convert-unit-card__dimension">
+                            {formatArea(getUnitTypeArea(unitType))}
+                          </span>
+                        )}
+                        {unitType && getUnitTypeVolume(unitType) !== null && (
+                          <span className="lead-convert-unit-card__dimension">
+                            {formatVolume(getUnitTypeVolume(unitType))}
+                          </span>
+                        )}
                         <span className="lead-convert-unit-card__status">
                           {unit.status === "LIVRE" ? "Available" : unit.status}
                         </span>
@@ -560,7 +1125,7 @@ export default function LeadConvertPage() {
               <button
                 type="button"
                 className="lead-convert-button"
-                onClick={() => setCurrentStep(STEP_TENANT)}
+                onClick={() => goToStep(STEP_TENANT)}
               >
                 Back
               </button>
@@ -608,6 +1173,19 @@ export default function LeadConvertPage() {
                     {unitTypeMap.get(selectedUnit.unit_type)?.height && (
                       <span>{unitTypeMap.get(selectedUnit.unit_type)!.height}m (H)</span>
                     )}
+                    {selectedUnitType && getUnitTypeArea(selectedUnitType) !== null && (
+                      <span>{formatArea(getUnitTypeArea(selectedUnitType))}</span>
+                    )}
+                    {selectedUnitType && getUnitTypeVolume(selectedUnitType) !== null && (
+                      <span>{formatVolume(getUnitTypeVolume(selectedUnitType))}</span>
+                    )}
+                    {selectedUnitType &&
+                      (selectedUnitType.min_price || selectedUnitType.max_price) && (
+                        <span>
+                          Price band: {formatCurrency(selectedUnitType.min_price)} –{" "}
+                          {formatCurrency(selectedUnitType.max_price)}
+                        </span>
+                      )}
                   </div>
                 )}
               </div>
@@ -621,6 +1199,11 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     min={formatDate(new Date())}
                   />
+                  {contractForm.formState.errors.move_in && (
+                    <span className="lead-convert-field__error">
+                      {contractForm.formState.errors.move_in.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -630,6 +1213,11 @@ export default function LeadConvertPage() {
                     {...contractForm.register("move_out")}
                     className="lead-convert-input"
                   />
+                  {contractForm.formState.errors.move_out && (
+                    <span className="lead-convert-field__error">
+                      {contractForm.formState.errors.move_out.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -643,6 +1231,18 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     placeholder="0.00"
                   />
+                  {selectedUnitType && priceBandViolation && (
+                    <span className="lead-convert-field__warning" role="alert">
+                      {priceBandViolation === "below"
+                        ? `Below the minimum of ${formatCurrency(selectedUnitType.min_price)} for ${selectedUnitType.name}.`
+                        : `Above the maximum of ${formatCurrency(selectedUnitType.max_price)} for ${selectedUnitType.name}.`}
+                    </span>
+                  )}
+                  {contractForm.formState.errors.monthly_rate && (
+                    <span className="lead-convert-field__error">
+                      {contractForm.formState.errors.monthly_rate.message}
+                    </span>
+                  )}
                 </label>
 
                 <label className="lead-convert-field">
@@ -654,6 +1254,11 @@ export default function LeadConvertPage() {
                     className="lead-convert-input"
                     placeholder="0.00"
                   />
+                  {contractForm.formState.errors.deposit_amount && (
+                    <span className="lead-convert-field__error">
+                      {contractForm.formState.errors.deposit_amount.message}
+                    </span>
+                  )}
                 </label>
               </div>
 
@@ -665,6 +1270,11 @@ export default function LeadConvertPage() {
                   rows={3}
                   placeholder="Contract terms and conditions..."
                 />
+                {contractForm.formState.errors.terms && (
+                  <span className="lead-convert-field__error">
+                    {contractForm.formState.errors.terms.message}
+                  </span>
+                )}
               </label>
 
               <label className="lead-convert-field lead-convert-field--full">
@@ -675,6 +1285,11 @@ export default function LeadConvertPage() {
                   rows={2}
                   placeholder="Additional notes..."
                 />
+                {contractForm.formState.errors.notes && (
+                  <span className="lead-convert-field__error">
+                    {contractForm.formState.errors.notes.message}
+                  </span>
+                )}
               </label>
             </section>
 
@@ -682,7 +1297,7 @@ export default function LeadConvertPage() {
               <button
                 type="button"
                 className="lead-convert-button"
-                onClick={() => setCurrentStep(STEP_UNIT)}
+                onClick={() => goToStep(STEP_UNIT)}
               >
                 Back
               </button>
@@ -700,6 +1315,22 @@ export default function LeadConvertPage() {
               Review the information below and confirm the conversion.
             </p>
 
+            {holdState === "taken" && selectedUnit && (
+              <div className="lead-convert-alert lead-convert-alert--error lead-convert-hold">
+                <span>
+                  Unit {selectedUnit.unit_number} was taken by someone else and can no longer be
+                  used for this contract. Choose another unit to continue.
+                </span>
+                <button
+                  type="button"
+                  className="lead-convert-button"
+                  onClick={() => goToStep(STEP_UNIT)}
+                >
+                  Choose another unit
+                </button>
+              </div>
+            )}
+
             <div className="lead-convert-summary">
               <div className="lead-convert-summary__block">
                 <h3>Tenant Information</h3>
@@ -818,7 +1449,7 @@ export default function LeadConvertPage() {
               <button
                 type="button"
                 className="lead-convert-button"
-                onClick={() => setCurrentStep(STEP_CONTRACT)}
+                onClick={() => goToStep(STEP_CONTRACT)}
               >
                 Back
               </button>
@@ -826,7 +1457,7 @@ export default function LeadConvertPage() {
                 type="button"
                 className="lead-convert-primary lead-convert-primary--success"
                 onClick={handleFinalSubmit}
-                disabled={isSubmitting}
+                disabled={isSubmitting || holdState === "taken"}
               >
                 {isSubmitting ? "Converting..." : "Confirm & Convert"}
               </button>
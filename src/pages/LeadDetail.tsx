@@ -1,9 +1,30 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate, useParams } from "react-router-dom";
 import Breadcrumb from "@/components/Breadcrumb";
-import { apiClient } from "@/api/client";
+import type {
+  Lead,
+  LeadActivityKind,
+  LeadActivityOutcome,
+  LeadPayload,
+  LeadStage,
+  LeadTimeline
+} from "@/api/leads";
+import type { UnitType } from "@/api/units";
+import type { UserProfile } from "@/api/users";
+import {
+  useAddLeadActivity,
+  useDeleteLead,
+  useLead,
+  useLeadActivities,
+  useUpdateLead
+} from "@/features/leads/queries";
+import { useUnitTypes } from "@/features/units/queries";
+import { useUsers } from "@/features/users/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/LeadDetail.css";
 
 const STAGE_OPTIONS = [
@@ -24,28 +45,27 @@ const SOURCE_OPTIONS = [
   { value: "OTHER", label: "Other" }
 ];
 
-type Lead = {
-  id: number;
-  first_name: string;
-  last_name: string;
-  email: string | null;
-  phone_primary: string | null;
-  phone_secondary: string | null;
-  source: string | null;
-  stage: string;
-  owner_id: number | null;
-  owner?: { id: number; name: string; email: string } | null;
-  converted_tenant: number | null;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-};
+const TIMELINE_OPTIONS: { value: LeadTimeline; label: string }[] = [
+  { value: "IMMEDIATE", label: "Immediately" },
+  { value: "30_DAYS", label: "Within 30 days" },
+  { value: "90_DAYS", label: "Within 90 days" },
+  { value: "LATER", label: "Later / undecided" }
+];
 
-type Owner = {
-  id: number;
-  name: string;
-  email: string;
-};
+const ACTIVITY_KIND_OPTIONS: { value: LeadActivityKind; label: string }[] = [
+  { value: "CALL", label: "Call" },
+  { value: "EMAIL", label: "Email" },
+  { value: "WHATSAPP", label: "WhatsApp" },
+  { value: "VISIT", label: "Visit" },
+  { value: "NOTE", label: "Note" }
+];
+
+const ACTIVITY_OUTCOME_OPTIONS: { value: LeadActivityOutcome; label: string }[] = [
+  { value: "REACHED", label: "Reached" },
+  { value: "NO_ANSWER", label: "No answer" },
+  { value: "VOICEMAIL", label: "Left voicemail" },
+  { value: "CALLBACK", label: "Callback requested" }
+];
 
 type LeadFormValues = {
   first_name: string;
@@ -54,11 +74,64 @@ type LeadFormValues = {
   phone_primary: string;
   phone_secondary: string;
   source: string;
-  stage: string;
+  stage: LeadStage;
   owner_id: string;
   notes: string;
+  budget_confirmed: boolean;
+  budget_notes: string;
+  timeline: string;
+  unit_type: string;
+  next_follow_up_at: string;
+};
+
+type ActivityFormValues = {
+  kind: LeadActivityKind;
+  outcome: string;
+  notes: string;
 };
 
+const DEFAULT_ACTIVITY_VALUES: ActivityFormValues = {
+  kind: "CALL",
+  outcome: "",
+  notes: ""
+};
+
+const EMPTY_OWNERS: UserProfile[] = [];
+const EMPTY_UNIT_TYPES: UnitType[] = [];
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm" in local time.
+function toLocalInputValue(dateString: string | null | undefined): string {
+  if (!dateString) return "";
+  const date = new Date(dateString);
+  if (Number.isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function toFormValues(lead: Lead): LeadFormValues {
+  return {
+    first_name: lead.first_name,
+    last_name: lead.last_name,
+    email: lead.email ?? "",
+    phone_primary: lead.phone_primary ?? "",
+    phone_secondary: lead.phone_secondary ?? "",
+    source: lead.source ?? "",
+    stage: lead.stage,
+    owner_id: lead.owner_id ? String(lead.owner_id) : "",
+    notes: lead.notes ?? "",
+    budget_confirmed: lead.qualification?.budget_confirmed ?? false,
+    budget_notes: lead.qualification?.budget_notes ?? "",
+    timeline: lead.qualification?.timeline ?? "",
+    unit_type: lead.qualification?.unit_type ? String(lead.qualification.unit_type) : "",
+    next_follow_up_at: toLocalInputValue(lead.next_follow_up_at)
+  };
+}
+
+function getOptionLabel(options: { value: string; label: string }[], value: string | null) {
+  if (!value) return null;
+  return options.find((option) => option.value === value)?.label ?? value;
+}
+
 function getStageLabel(stage: string): string {
   return STAGE_OPTIONS.find((s) => s.value === stage)?.label ?? stage;
 }
@@ -80,92 +153,63 @@ function formatDate(dateString: string | null): string {
 }
 
 export default function LeadDetailPage() {
+  const { hasPermission } = usePermissions();
+  const canChange = hasPermission("leads.change_lead");
+  const canDelete = hasPermission("leads.delete_lead");
+  const canConvert = hasPermission("leads.convert_lead");
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [lead, setLead] = useState<Lead | null>(null);
-  const [owners, setOwners] = useState<Owner[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const leadQuery = useLead(id);
+  const lead = leadQuery.data ?? null;
+  const leadId = lead?.id;
+  const activitiesQuery = useLeadActivities(leadId);
+  const updateLead = useUpdateLead();
+  const deleteLead = useDeleteLead();
+  const addActivity = useAddLeadActivity(leadId ?? 0);
+  // Owners and unit types only feed the selects; the page still works without them.
+  const owners = useUsers().data ?? EMPTY_OWNERS;
+  const unitTypes = useUnitTypes().data ?? EMPTY_UNIT_TYPES;
+  const activities = activitiesQuery.data;
+  const isLoading = leadQuery.isLoading;
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [activityError, setActivityError] = useState<string | null>(null);
+  const [isLoggingActivity, setIsLoggingActivity] = useState(false);
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors, isDirty }
   } = useForm<LeadFormValues>();
 
+  const activityForm = useForm<ActivityFormValues>({
+    defaultValues: DEFAULT_ACTIVITY_VALUES
+  });
+
   const isWon = useMemo(() => lead?.stage === "WON", [lead?.stage]);
   const isConverted = useMemo(() => lead?.converted_tenant !== null, [lead?.converted_tenant]);
 
+  const loadError = !id
+    ? "Lead ID is required."
+    : isHttpError(leadQuery.error) && leadQuery.error.status === 404
+      ? "Lead not found."
+      : leadQuery.isError
+        ? "Unable to load lead details. Please try again."
+        : null;
+  const activitiesError =
+    activityError ?? (activitiesQuery.isError ? "Unable to load contact history." : null);
+
+  // Background refetches must not clobber edits in progress.
   useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      if (!id) {
-        setLoadError("Lead ID is required.");
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [leadResponse, ownersResponse] = await Promise.all([
-          apiClient.get(`/api/v1/leads/${id}/`),
-          apiClient.get("/api/v1/users/")
-        ]);
-
-        if (!isMounted) {
-          return;
-        }
-
-        const leadData = leadResponse.data as Lead;
-        const ownerList = ownersResponse.data?.results ?? ownersResponse.data ?? [];
-
-        setLead(leadData);
-        setOwners(Array.isArray(ownerList) ? ownerList : []);
-
-        reset({
-          first_name: leadData.first_name,
-          last_name: leadData.last_name,
-          email: leadData.email ?? "",
-          phone_primary: leadData.phone_primary ?? "",
-          phone_secondary: leadData.phone_secondary ?? "",
-          source: leadData.source ?? "",
-          stage: leadData.stage,
-          owner_id: leadData.owner_id ? String(leadData.owner_id) : "",
-          notes: leadData.notes ?? ""
-        });
-      } catch (error) {
-        if (!isMounted) {
-          return;
-        }
-
-        if (axios.isAxiosError(error) && error.response?.status === 404) {
-          setLoadError("Lead not found.");
-        } else {
-          setLoadError("Unable to load lead details. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
+    if (lead && !isDirty) {
+      reset(toFormValues(lead));
     }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [id, reset]);
+  }, [lead, isDirty, reset]);
 
   useEffect(() => {
     if (!showDeleteConfirm) {
@@ -189,9 +233,8 @@ export default function LeadDetailPage() {
     if (!lead) return;
 
     setFormError(null);
-    setPageSuccess(null);
 
-    const payload = {
+    const payload: LeadPayload = {
       first_name: values.first_name,
       last_name: values.last_name,
       email: values.email || null,
@@ -200,31 +243,33 @@ export default function LeadDetailPage() {
       source: values.source || null,
       stage: values.stage,
       owner_id: values.owner_id ? parseInt(values.owner_id, 10) : null,
-      notes: values.notes || null
+      notes: values.notes || null,
+      qualification: {
+        budget_confirmed: values.budget_confirmed,
+        budget_notes: values.budget_notes || null,
+        timeline: (values.timeline || null) as LeadTimeline | null,
+        unit_type: values.unit_type ? parseInt(values.unit_type, 10) : null
+      },
+      next_follow_up_at: values.next_follow_up_at
+        ? new Date(values.next_follow_up_at).toISOString()
+        : null
     };
 
     setIsSaving(true);
 
     try {
-      await apiClient.patch(`/api/v1/leads/${lead.id}/`, payload);
-      const response = await apiClient.get(`/api/v1/leads/${lead.id}/`);
-      setLead(response.data);
-      reset(values);
-      setPageSuccess("Lead updated successfully.");
+      const updated = await updateLead.mutateAsync({ id: lead.id, data: payload });
+      reset(toFormValues(updated));
+      notify.success("Lead updated successfully.");
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, errors]) => {
-              if (Array.isArray(errors)) {
-                return `${field}: ${errors.join(", ")}`;
-              }
-              return `${field}: ${errors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save lead. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["first_name", "last_name", "stage"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save lead. Please check the form and try again.");
         }
       } else {
@@ -242,20 +287,53 @@ export default function LeadDetailPage() {
     setFormError(null);
 
     try {
-      await apiClient.delete(`/api/v1/leads/${lead.id}/`);
+      await deleteLead.mutateAsync(lead.id);
       navigate("/leads");
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
+      if (isHttpError(error) && error.status === 404) {
         navigate("/leads");
         return;
       }
-      setFormError("Unable to delete lead. Please try again.");
+      if (!notifyHttpError(error)) {
+        setFormError("Unable to delete lead. Please try again.");
+      }
     } finally {
       setIsDeleting(false);
       setShowDeleteConfirm(false);
     }
   };
 
+  const handleLogActivity = async (values: ActivityFormValues) => {
+    if (!lead) return;
+
+    setIsLoggingActivity(true);
+    setActivityError(null);
+
+    try {
+      await addActivity.mutateAsync({
+        kind: values.kind,
+        outcome: (values.outcome || null) as LeadActivityOutcome | null,
+        notes: values.notes || null,
+        occurred_at: new Date().toISOString()
+      });
+      activityForm.reset(DEFAULT_ACTIVITY_VALUES);
+    } catch (error) {
+      if (!notifyHttpError(error)) {
+        setActivityError("Unable to log contact attempt. Please try again.");
+      }
+    } finally {
+      setIsLoggingActivity(false);
+    }
+  };
+
+  const sortedActivities = useMemo(
+    () =>
+      [...(activities ?? [])].sort(
+        (a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime()
+      ),
+    [activities]
+  );
+
   const handleConvert = () => {
     if (!lead) return;
     navigate(`/leads/${lead.id}/convert`);
@@ -325,7 +403,7 @@ export default function LeadDetailPage() {
           </div>
         </div>
         <div className="lead-detail-header__actions">
-          {isWon && !isConverted && (
+          {canConvert && isWon && !isConverted && (
             <button type="button" className="lead-detail-primary" onClick={handleConvert}>
               Convert to Tenant
             </button>
@@ -338,9 +416,6 @@ export default function LeadDetailPage() {
         </div>
       </header>
 
-      {pageSuccess && (
-        <div className="lead-detail-alert lead-detail-alert--success">{pageSuccess}</div>
-      )}
       {formError && <div className="lead-detail-alert lead-detail-alert--error">{formError}</div>}
 
       <div className="lead-detail-content">
@@ -445,6 +520,59 @@ export default function LeadDetailPage() {
             </div>
           </section>
 
+          <section className="lead-detail-section">
+            <h2>Qualification</h2>
+            <div className="lead-detail-grid">
+              <label className="lead-detail-field lead-detail-field--checkbox">
+                <input type="checkbox" {...register("budget_confirmed")} />
+                <span>Budget confirmed</span>
+              </label>
+
+              <label className="lead-detail-field">
+                <span>Budget notes</span>
+                <input
+                  type="text"
+                  {...register("budget_notes")}
+                  className="lead-detail-input"
+                  placeholder="e.g. up to $150/month"
+                />
+              </label>
+
+              <label className="lead-detail-field">
+                <span>Move-in timeline</span>
+                <select {...register("timeline")} className="lead-detail-input">
+                  <option value="">Not discussed</option>
+                  {TIMELINE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="lead-detail-field">
+                <span>Unit type</span>
+                <select {...register("unit_type")} className="lead-detail-input">
+                  <option value="">Not discussed</option>
+                  {unitTypes.map((unitType) => (
+                    <option key={unitType.id} value={unitType.id}>
+                      {unitType.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="lead-detail-field">
+                <span>Next follow-up</span>
+                <input
+                  type="datetime-local"
+                  {...register("next_follow_up_at")}
+                  className="lead-detail-input"
+                />
+              </label>
+            </div>
+          </section>
+
           <section className="lead-detail-section">
             <h2>Notes</h2>
             <label className="lead-detail-field">
@@ -476,25 +604,106 @@ export default function LeadDetailPage() {
           </section>
 
           <div className="lead-detail-actions">
-            <button
-              type="button"
-              className="lead-detail-button lead-detail-button--danger"
-              onClick={() => setShowDeleteConfirm(true)}
-            >
-              Delete Lead
-            </button>
+            {canDelete && (
+              <button
+                type="button"
+                className="lead-detail-button lead-detail-button--danger"
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                Delete Lead
+              </button>
+            )}
             <div className="lead-detail-actions__right">
               <button type="button" className="lead-detail-button" onClick={handleBack}>
                 Cancel
               </button>
-              <button type="submit" className="lead-detail-primary" disabled={isSaving || !isDirty}>
-                {isSaving ? "Saving..." : "Save Changes"}
-              </button>
+              {canChange && (
+                <button
+                  type="submit"
+                  className="lead-detail-primary"
+                  disabled={isSaving || !isDirty}
+                >
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </button>
+              )}
             </div>
           </div>
         </form>
       </div>
 
+      <section className="lead-detail-content lead-detail-timeline">
+        <h2>Contact Timeline</h2>
+
+        <form
+          className="lead-detail-timeline__form"
+          onSubmit={activityForm.handleSubmit(handleLogActivity)}
+        >
+          <select
+            {...activityForm.register("kind")}
+            className="lead-detail-input"
+            aria-label="Contact type"
+          >
+            {ACTIVITY_KIND_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            {...activityForm.register("outcome")}
+            className="lead-detail-input"
+            aria-label="Outcome"
+          >
+            <option value="">Outcome</option>
+            {ACTIVITY_OUTCOME_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            {...activityForm.register("notes")}
+            className="lead-detail-input lead-detail-timeline__notes"
+            placeholder="What happened?"
+            aria-label="Contact notes"
+          />
+          <button type="submit" className="lead-detail-primary" disabled={isLoggingActivity}>
+            {isLoggingActivity ? "Logging..." : "Log contact"}
+          </button>
+        </form>
+
+        {activitiesError && (
+          <div className="lead-detail-alert lead-detail-alert--error">{activitiesError}</div>
+        )}
+
+        {sortedActivities.length === 0 ? (
+          <p className="lead-detail-timeline__empty">No contact attempts logged yet.</p>
+        ) : (
+          <ol className="lead-detail-timeline__list">
+            {sortedActivities.map((activity) => (
+              <li key={activity.id} className="lead-detail-timeline__item">
+                <div className="lead-detail-timeline__item-header">
+                  <strong>{getOptionLabel(ACTIVITY_KIND_OPTIONS, activity.kind)}</strong>
+                  {activity.outcome && (
+                    <span className="lead-detail-timeline__outcome">
+                      {getOptionLabel(ACTIVITY_OUTCOME_OPTIONS, activity.outcome)}
+                    </span>
+                  )}
+                  <time dateTime={activity.occurred_at}>{formatDate(activity.occurred_at)}</time>
+                </div>
+                {activity.notes && <p>{activity.notes}</p>}
+                {activity.created_by && (
+                  <span className="lead-detail-timeline__author">
+                    by {activity.created_by.name || activity.created_by.email}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
       {showDeleteConfirm && (
         <div className="lead-detail-modal" role="dialog" aria-modal="true">
           <div className="lead-detail-modal__overlay" onClick={() => setShowDeleteConfirm(false)} />
@@ -0,0 +1,152 @@
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MemoryRouter } from "react-router-dom";
+import { leadsApi } from "@/api/leads";
+import type { Lead, LeadFilters } from "@/api/leads";
+import { leadKeys } from "@/features/leads/queries";
+import { AuthContext } from "@/shared/auth";
+import type { AuthState, User } from "@/shared/auth";
+import LeadsPage from "@/pages/Leads";
+
+const lead: Lead = {
+  id: 5,
+  first_name: "Ana",
+  last_name: "Souza",
+  email: "ana@example.com",
+  phone_primary: null,
+  phone_secondary: null,
+  source: null,
+  stage: "NEW",
+  owner_id: null,
+  converted_tenant: null,
+  notes: null,
+  created_at: "2026-01-01T10:00:00Z",
+  updated_at: "2026-01-01T10:00:00Z"
+};
+
+vi.mock("@/api/leads", () => ({
+  leadsApi: { list: vi.fn(), update: vi.fn() }
+}));
+
+vi.mock("@/contexts/FacilityContext", () => ({
+  useFacility: () => ({ selectedFacilityId: "1" })
+}));
+
+vi.mock("@/features/users/queries", () => ({
+  useUsers: () => ({ data: [] })
+}));
+
+vi.mock("@/widgets/leads/ui/FollowUpsDue", () => ({
+  default: () => null
+}));
+
+const admin: User = {
+  id: 1,
+  email: "admin@example.com",
+  firstName: "Admin",
+  lastName: "",
+  name: "Admin",
+  role: "admin",
+  roles: ["admin"],
+  organizationId: null,
+  locale: "pt-BR",
+  timezone: "America/Sao_Paulo",
+  avatarUrl: null,
+  facilities: []
+};
+
+function listResponse(filters: LeadFilters = {}) {
+  const results = !filters.stage || filters.stage === "NEW" ? [lead] : [];
+  return Promise.resolve({
+    results,
+    count: results.length,
+    next: null,
+    previous: null,
+    page: 1,
+    pageSize: 25
+  });
+}
+
+async function openBoard() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, staleTime: Infinity } }
+  });
+  const auth: AuthState = {
+    user: admin,
+    isAuthenticated: true,
+    isLoading: false,
+    login: () => Promise.resolve(),
+    logout: () => undefined,
+    updateUser: () => undefined
+  };
+
+  render(
+    <QueryClientProvider client={queryClient}>
+      <AuthContext.Provider value={auth}>
+        <MemoryRouter>
+          <LeadsPage />
+        </MemoryRouter>
+      </AuthContext.Provider>
+    </QueryClientProvider>
+  );
+
+  await userEvent.click(await screen.findByRole("button", { name: "Board" }));
+  await within(screen.getByRole("region", { name: "New leads" })).findByText("Ana Souza");
+  return queryClient;
+}
+
+function dragToColumn(card: HTMLElement, column: HTMLElement) {
+  const dataTransfer = { setData: () => undefined, effectAllowed: "", dropEffect: "" };
+  fireEvent.dragStart(card, { dataTransfer });
+  fireEvent.dragOver(column, { dataTransfer });
+  fireEvent.drop(column, { dataTransfer });
+}
+
+describe("LeadsPage board", () => {
+  beforeEach(() => {
+    vi.mocked(leadsApi.list).mockImplementation(listResponse);
+  });
+
+  it("moves the card and marks the other lead lists stale", async () => {
+    vi.mocked(leadsApi.update).mockResolvedValue({ ...lead, stage: "CONTACTED" });
+    const queryClient = await openBoard();
+    const contacted = screen.getByRole("region", { name: "Contacted leads" });
+
+    dragToColumn(
+      within(screen.getByRole("region", { name: "New leads" })).getByRole("article"),
+      contacted
+    );
+
+    expect(await within(contacted).findByText("Ana Souza")).toBeInTheDocument();
+    expect(leadsApi.update).toHaveBeenCalledWith(lead.id, { stage: "CONTACTED" });
+    await waitFor(() =>
+      expect(
+        queryClient
+          .getQueryCache()
+          .findAll({ queryKey: leadKeys.lists("1") })
+          .map((query) => ({ board: query.queryKey.includes("board"), stale: query.isStale() }))
+      ).toEqual(
+        expect.arrayContaining([
+          { board: true, stale: false },
+          { board: false, stale: true }
+        ])
+      )
+    );
+  });
+
+  it("puts the card back when the move fails", async () => {
+    vi.mocked(leadsApi.update).mockRejectedValue(new Error("boom"));
+    await openBoard();
+    const newColumn = screen.getByRole("region", { name: "New leads" });
+    const contacted = screen.getByRole("region", { name: "Contacted leads" });
+
+    dragToColumn(within(newColumn).getByRole("article"), contacted);
+
+    expect(
+      await screen.findByText('Unable to move "Ana Souza" to Contacted. Please try again.')
+    ).toBeInTheDocument();
+    expect(within(newColumn).getByText("Ana Souza")).toBeInTheDocument();
+    expect(within(contacted).queryByText("Ana Souza")).not.toBeInTheDocument();
+  });
+});
@@ -1,12 +1,40 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
+import { hashKey, useQuery, useQueryClient } from "@tanstack/react-query";
 import Breadcrumb from "@/components/Breadcrumb";
-import { apiClient } from "@/api/client";
+import type { RequestOptions } from "@/shared/api/httpClient";
+import { leadsApi } from "@/api/leads";
+import type { Lead, LeadPayload, LeadStage } from "@/api/leads";
+import type { UserProfile } from "@/api/users";
+import {
+  leadKeys,
+  useCreateLead,
+  useDeleteLead,
+  useLeads,
+  useUpdateLead
+} from "@/features/leads/queries";
+import { useUsers } from "@/features/users/queries";
+import { LEAD_CSV_FIELDS, leadsToCsvRows, validateLeadRows } from "@/features/leads/csv";
+import { useFacility } from "@/contexts/FacilityContext";
+import CsvImportWizard from "@/widgets/csvImport/ui/CsvImportWizard";
+import FollowUpsDue from "@/widgets/leads/ui/FollowUpsDue";
+import LeadsBoard from "@/widgets/leads/ui/LeadsBoard";
+import type { LeadsBoardColumn } from "@/widgets/leads/ui/LeadsBoard";
+import { mapWithConcurrency } from "@/shared/lib/concurrency";
+import { csvFilename, downloadCsv } from "@/shared/lib/csv";
+import type { CsvMappedRow } from "@/shared/lib/csvImport";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import {
+  applyServerErrors,
+  getRowErrorMessage,
+  serverErrorTarget
+} from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/Leads.css";
 
-const STAGE_OPTIONS = [
+const STAGE_OPTIONS: { value: LeadStage; label: string; color: string }[] = [
   { value: "NEW", label: "New", color: "#3b82f6" },
   { value: "CONTACTED", label: "Contacted", color: "#8b5cf6" },
   { value: "QUALIFIED", label: "Qualified", color: "#f59e0b" },
@@ -24,29 +52,6 @@ const SOURCE_OPTIONS = [
   { value: "OTHER", label: "Other" }
 ];
 
-type Lead = {
-  id: number;
-  first_name: string;
-  last_name: string;
-  email: string | null;
-  phone_primary: string | null;
-  phone_secondary: string | null;
-  source: string | null;
-  stage: string;
-  owner_id: number | null;
-  owner?: { id: number; name: string; email: string } | null;
-  converted_tenant: number | null;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-};
-
-type Owner = {
-  id: number;
-  name: string;
-  email: string;
-};
-
 type LeadFormValues = {
   first_name: string;
   last_name: string;
@@ -54,11 +59,25 @@ type LeadFormValues = {
   phone_primary: string;
   phone_secondary: string;
   source: string;
-  stage: string;
+  stage: LeadStage;
   owner_id: string;
   notes: string;
 };
 
+type ViewMode = "table" | "board";
+
+type BoardColumns = Record<LeadStage, LeadsBoardColumn>;
+
+type BulkReport = {
+  action: string;
+  items: { lead: Lead; ok: boolean; error: string | null }[];
+};
+
+const PAGE_SIZE = 25;
+const BOARD_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+const BULK_CONCURRENCY = 4;
+
 const DEFAULT_FORM_VALUES: LeadFormValues = {
   first_name: "",
   last_name: "",
@@ -71,19 +90,72 @@ const DEFAULT_FORM_VALUES: LeadFormValues = {
   notes: ""
 };
 
-function normalizeList<T>(payload: unknown): T[] {
-  if (Array.isArray(payload)) {
-    return payload as T[];
-  }
+function createEmptyBoard(): BoardColumns {
+  return STAGE_OPTIONS.reduce((acc, stage) => {
+    acc[stage.value] = { leads: [], count: 0 };
+    return acc;
+  }, {} as BoardColumns);
+}
 
-  if (payload && typeof payload === "object" && "results" in payload) {
-    const results = (payload as { results?: T[] }).results;
-    if (Array.isArray(results)) {
-      return results;
-    }
+const EMPTY_LEADS: Lead[] = [];
+const EMPTY_OWNERS: UserProfile[] = [];
+const EMPTY_BOARD = createEmptyBoard();
+
+async function fetchBoardColumns(
+  filters: { q?: string; owner_id?: number },
+  options: RequestOptions
+) {
+  const responses = await Promise.all(
+    STAGE_OPTIONS.map((stage) =>
+      leadsApi.list(
+        {
+          q: filters.q,
+          owner_id: filters.owner_id,
+          stage: stage.value,
+          page_size: BOARD_PAGE_SIZE
+        },
+        options
+      )
+    )
+  );
+
+  const columns = createEmptyBoard();
+  STAGE_OPTIONS.forEach((stage, index) => {
+    columns[stage.value] = {
+      leads: responses[index].results,
+      count: responses[index].count
+    };
+  });
+  return columns;
+}
+
+// Moves `current` out of its column and puts `next` in its stage column.
+// Used both for the optimistic update and for rolling it back.
+function moveBoardCard(columns: BoardColumns, current: Lead, next: Lead): BoardColumns {
+  if (current.stage === next.stage) {
+    const column = columns[current.stage];
+    return {
+      ...columns,
+      [current.stage]: {
+        ...column,
+        leads: column.leads.map((lead) => (lead.id === next.id ? next : lead))
+      }
+    };
   }
 
-  return [];
+  const source = columns[current.stage];
+  const target = columns[next.stage];
+  return {
+    ...columns,
+    [current.stage]: {
+      leads: source.leads.filter((lead) => lead.id !== current.id),
+      count: Math.max(0, source.count - 1)
+    },
+    [next.stage]: {
+      leads: [next, ...target.leads],
+      count: target.count + 1
+    }
+  };
 }
 
 function getStageLabel(stage: string): string {
@@ -100,20 +172,37 @@ function getSourceLabel(source: string | null): string {
 }
 
 export default function LeadsPage() {
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("leads.add_lead");
+  const canChange = hasPermission("leads.change_lead");
+  const canDelete = hasPermission("leads.delete_lead");
+  const canConvert = hasPermission("leads.convert_lead");
   const navigate = useNavigate();
-  const [leads, setLeads] = useState<Lead[]>([]);
-  const [owners, setOwners] = useState<Owner[]>([]);
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [stageFilter, setStageFilter] = useState("");
   const [ownerFilter, setOwnerFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [viewMode, setViewMode] = useState<ViewMode>("table");
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
+  const [selectedLeads, setSelectedLeads] = useState<Map<number, Lead>>(new Map());
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [bulkOwner, setBulkOwner] = useState("");
+  const [bulkStage, setBulkStage] = useState("");
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(
+    null
+  );
+  const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
   const modalFirstInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -121,6 +210,7 @@ export default function LeadsPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors }
   } = useForm<LeadFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -130,77 +220,74 @@ export default function LeadsPage() {
     required: "First name is required."
   });
 
-  const stageLabelMap = useMemo(() => {
-    return new Map(STAGE_OPTIONS.map((stage) => [stage.value, stage.label]));
-  }, []);
-
-  const filteredLeads = useMemo(() => {
-    const normalizedQuery = searchTerm.trim().toLowerCase();
-
-    return leads.filter((lead) => {
-      const fullName = `${lead.first_name} ${lead.last_name}`.toLowerCase();
-      const email = (lead.email ?? "").toLowerCase();
-      const phone = (lead.phone_primary ?? "").toLowerCase();
-      const stageLabel = (stageLabelMap.get(lead.stage) ?? lead.stage).toLowerCase();
-
-      const matchesStage = !stageFilter || lead.stage === stageFilter;
-      const matchesOwner = !ownerFilter || String(lead.owner_id) === ownerFilter;
-
-      if (!normalizedQuery) {
-        return matchesStage && matchesOwner;
-      }
+  const filters = useMemo(
+    () => ({
+      q: debouncedSearch.trim() || undefined,
+      stage: (stageFilter || undefined) as LeadStage | undefined,
+      owner_id: ownerFilter ? Number(ownerFilter) : undefined,
+      page,
+      page_size: PAGE_SIZE
+    }),
+    [debouncedSearch, stageFilter, ownerFilter, page]
+  );
+  const boardFilters = useMemo(
+    () => ({ q: filters.q, owner_id: filters.owner_id }),
+    [filters.q, filters.owner_id]
+  );
 
-      const searchable = [fullName, email, phone, stageLabel].join(" ");
-      return matchesStage && matchesOwner && searchable.includes(normalizedQuery);
-    });
-  }, [leads, searchTerm, stageFilter, ownerFilter, stageLabelMap]);
+  const ownersQuery = useUsers();
+  const leadsQuery = useLeads(filters, { enabled: viewMode === "table" });
+  const boardQuery = useQuery({
+    queryKey: leadKeys.board(selectedFacilityId, boardFilters),
+    queryFn: ({ signal }) =>
+      fetchBoardColumns(boardFilters, { facilityId: selectedFacilityId, signal }),
+    enabled: viewMode === "board"
+  });
+  const createLead = useCreateLead();
+  const updateLead = useUpdateLead();
+  const deleteLead = useDeleteLead();
+
+  // The owner filter stays empty if users fail to load; the list itself still works.
+  const owners = ownersQuery.data ?? EMPTY_OWNERS;
+  const leads = leadsQuery.data?.results ?? EMPTY_LEADS;
+  const boardColumns = boardQuery.data ?? EMPTY_BOARD;
+  const activeQuery = viewMode === "board" ? boardQuery : leadsQuery;
+  const isLoading = activeQuery.isFetching;
+  const hasNextPage = (leadsQuery.data?.next ?? null) !== null;
+  const totalCount =
+    viewMode === "board"
+      ? Object.values(boardColumns).reduce((total, column) => total + column.count, 0)
+      : (leadsQuery.data?.count ?? 0);
+  const loadError =
+    actionError ?? (activeQuery.isError ? "Unable to load leads. Please try again." : null);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const showingFrom = totalCount === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const showingTo = Math.min(page * PAGE_SIZE, totalCount);
+  const hasActiveFilters = Boolean(debouncedSearch.trim() || stageFilter || ownerFilter);
+
+  // On the board only the NEW column is selectable, for triage.
+  const selectableLeads = viewMode === "board" ? boardColumns.NEW.leads : leads;
+  const selectableCount = viewMode === "board" ? boardColumns.NEW.count : totalCount;
+  const selectedOnPage = selectableLeads.filter((lead) => selectedLeads.has(lead.id)).length;
+  const isPageSelected = selectableLeads.length > 0 && selectedOnPage === selectableLeads.length;
+  const selectedLeadIds = useMemo(() => new Set(selectedLeads.keys()), [selectedLeads]);
 
   useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [leadsResponse, ownersResponse] = await Promise.all([
-          apiClient.get("/api/v1/leads/"),
-          apiClient.get("/api/v1/users/")
-        ]);
-
-        if (!isMounted) {
-          return;
-        }
-
-        const leadList = normalizeList<Lead>(leadsResponse.data);
-        const ownerList = normalizeList<Owner>(ownersResponse.data);
-        setLeads(leadList);
-        setOwners(ownerList);
-      } catch (error) {
-        if (!isMounted) {
-          return;
-        }
-
-        setLoadError("Unable to load leads. Please try again.");
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
+    const timeoutId = window.setTimeout(() => {
+      setDebouncedSearch(searchTerm);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
 
     return () => {
-      isMounted = false;
+      window.clearTimeout(timeoutId);
     };
-  }, []);
+  }, [searchTerm]);
 
-  const refreshLeads = async () => {
-    const response = await apiClient.get("/api/v1/leads/");
-    const leadList = normalizeList<Lead>(response.data);
-    setLeads(leadList);
-  };
+  // A selection only makes sense for the filter it was made under.
+  useEffect(() => {
+    setSelectedLeads(new Map());
+  }, [debouncedSearch, stageFilter, ownerFilter, viewMode]);
 
   const openCreateModal = () => {
     setEditingLead(null);
@@ -301,9 +388,8 @@ export default function LeadsPage() {
 
   const onSubmit = async (values: LeadFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
 
-    const payload = {
+    const payload: LeadPayload = {
       first_name: values.first_name,
       last_name: values.last_name,
       email: values.email || null,
@@ -323,28 +409,22 @@ export default function LeadsPage() {
         : "Lead created successfully.";
 
       if (editingLead) {
-        await apiClient.patch(`/api/v1/leads/${editingLead.id}/`, payload);
+        await updateLead.mutateAsync({ id: editingLead.id, data: payload });
       } else {
-        await apiClient.post("/api/v1/leads/", payload);
+        await createLead.mutateAsync(payload);
       }
 
-      await refreshLeads();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, errors]) => {
-              if (Array.isArray(errors)) {
-                return `${field}: ${errors.join(", ")}`;
-              }
-              return `${field}: ${errors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save lead. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["first_name", "last_name", "stage"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save lead. Please check the form and try again.");
         }
       } else {
@@ -366,21 +446,23 @@ export default function LeadsPage() {
       return;
     }
 
+    setActionError(null);
+
     try {
       setDeletingIds((prev) => {
         const next = new Set(prev);
         next.add(lead.id);
         return next;
       });
-      await apiClient.delete(`/api/v1/leads/${lead.id}/`);
-      await refreshLeads();
+      await deleteLead.mutateAsync(lead.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshLeads();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
 
-      setLoadError("Unable to delete lead. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete lead. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -390,6 +472,167 @@ export default function LeadsPage() {
     }
   };
 
+  const handleViewModeChange = (mode: ViewMode) => {
+    if (mode === viewMode) {
+      return;
+    }
+
+    // The board already splits leads by stage, so the stage filter does not apply there.
+    if (mode === "board") {
+      setStageFilter("");
+    }
+    setPage(1);
+    setViewMode(mode);
+  };
+
+  const handleMoveLead = async (lead: Lead, stage: LeadStage) => {
+    const boardKey = leadKeys.board(selectedFacilityId, boardFilters);
+    const setBoardColumns = (update: (columns: BoardColumns) => BoardColumns) =>
+      queryClient.setQueryData<BoardColumns>(boardKey, (prev) => update(prev ?? EMPTY_BOARD));
+    const optimistic: Lead = { ...lead, stage };
+    setActionError(null);
+    // Keep an in-flight board refetch from overwriting the optimistic move.
+    await queryClient.cancelQueries({ queryKey: boardKey });
+    setBoardColumns((prev) => moveBoardCard(prev, lead, optimistic));
+
+    try {
+      const updated = await leadsApi.update(lead.id, { stage });
+      setBoardColumns((prev) => moveBoardCard(prev, optimistic, updated));
+      queryClient.setQueryData(leadKeys.detail(selectedFacilityId, updated.id), updated);
+    } catch {
+      setBoardColumns((prev) => moveBoardCard(prev, optimistic, lead));
+      setActionError(
+        `Unable to move "${lead.first_name} ${lead.last_name}" to ${getStageLabel(stage)}. Please try again.`
+      );
+    } finally {
+      // The table and follow-ups show the stage too; this board already has the server's copy.
+      queryClient.invalidateQueries({
+        queryKey: leadKeys.lists(selectedFacilityId),
+        predicate: (query) => query.queryHash !== hashKey(boardKey)
+      });
+    }
+  };
+
+  const toggleLeadSelection = (lead: Lead) => {
+    setSelectedLeads((prev) => {
+      const next = new Map(prev);
+      if (next.has(lead.id)) {
+        next.delete(lead.id);
+      } else {
+        next.set(lead.id, lead);
+      }
+      return next;
+    });
+  };
+
+  const setLeadsSelected = (targets: Lead[], selected: boolean) => {
+    setSelectedLeads((prev) => {
+      const next = new Map(prev);
+      targets.forEach((lead) => {
+        if (selected) {
+          next.set(lead.id, lead);
+        } else {
+          next.delete(lead.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const togglePageSelection = () => {
+    setLeadsSelected(selectableLeads, !isPageSelected);
+  };
+
+  const handleSelectAllFiltered = async () => {
+    setIsSelectingAll(true);
+    setActionError(null);
+
+    try {
+      const allLeads = await leadsApi.listAll(
+        viewMode === "board"
+          ? { ...boardFilters, stage: "NEW" }
+          : { q: filters.q, stage: filters.stage, owner_id: filters.owner_id }
+      );
+      setSelectedLeads(new Map(allLeads.map((lead) => [lead.id, lead])));
+    } catch {
+      setActionError("Unable to select all matching leads. Please try again.");
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const runBulkAction = async (action: string, worker: (lead: Lead) => Promise<unknown>) => {
+    const targets = Array.from(selectedLeads.values());
+    if (targets.length === 0 || isBulkRunning) {
+      return;
+    }
+
+    setIsBulkRunning(true);
+    setBulkReport(null);
+    setActionError(null);
+    setBulkProgress({ completed: 0, total: targets.length });
+
+    const results = await mapWithConcurrency(
+      targets,
+      BULK_CONCURRENCY,
+      worker,
+      (completed, total) => setBulkProgress({ completed, total })
+    );
+
+    setBulkReport({
+      action,
+      items: results.map((result) => ({
+        lead: result.item,
+        ok: result.status === "fulfilled",
+        error: result.status === "rejected" ? getRowErrorMessage(result.reason) : null
+      }))
+    });
+    // Keep the failed leads selected so the action can be retried on them.
+    setSelectedLeads(
+      new Map(
+        results
+          .filter((result) => result.status === "rejected")
+          .map((result) => [result.item.id, result.item])
+      )
+    );
+    setBulkProgress(null);
+    setIsBulkRunning(false);
+
+    await queryClient.invalidateQueries({ queryKey: leadKeys.lists(selectedFacilityId) });
+  };
+
+  const handleBulkAssignOwner = () => {
+    if (!bulkOwner) {
+      return;
+    }
+    const ownerId = bulkOwner === "none" ? null : Number(bulkOwner);
+    runBulkAction("Assign owner", (lead) => leadsApi.update(lead.id, { owner_id: ownerId }));
+  };
+
+  const handleBulkChangeStage = () => {
+    if (!bulkStage) {
+      return;
+    }
+    const stage = bulkStage as LeadStage;
+    runBulkAction(`Move to ${getStageLabel(stage)}`, (lead) => leadsApi.update(lead.id, { stage }));
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Delete ${selectedLeads.size} selected lead(s)?`)) {
+      return;
+    }
+    runBulkAction("Delete", async (lead) => {
+      try {
+        await leadsApi.delete(lead.id);
+      } catch (error) {
+        // Already gone counts as deleted.
+        if (!(isHttpError(error) && error.status === 404)) {
+          throw error;
+        }
+      }
+    });
+  };
+
   const handleConvert = (lead: Lead) => {
     navigate(`/leads/${lead.id}/convert`);
   };
@@ -398,6 +641,37 @@ export default function LeadsPage() {
     navigate(`/leads/${lead.id}`);
   };
 
+  const closeImport = useCallback(() => setIsImportOpen(false), []);
+
+  const validateImportRows = useCallback(
+    (rows: CsvMappedRow[]) => validateLeadRows(rows, { owners }),
+    [owners]
+  );
+
+  const handleLeadsImported = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: leadKeys.all(selectedFacilityId) }),
+    [queryClient, selectedFacilityId]
+  );
+
+  // Exports every lead matching the current filters, not just the visible page.
+  const exportLeads = async () => {
+    setIsExporting(true);
+    setActionError(null);
+
+    try {
+      const allLeads = await leadsApi.listAll(
+        viewMode === "board"
+          ? boardFilters
+          : { q: filters.q, stage: filters.stage, owner_id: filters.owner_id }
+      );
+      downloadCsv(csvFilename("leads"), leadsToCsvRows(allLeads, owners));
+    } catch {
+      setActionError("Unable to export leads. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   return (
     <main className="leads-page">
       <header className="leads-header">
@@ -405,39 +679,73 @@ export default function LeadsPage() {
           <Breadcrumb items={[{ label: "Leads" }]} />
           <p className="leads-subtitle">Manage your sales pipeline and track opportunities.</p>
         </div>
-        <button type="button" className="leads-primary" onClick={openCreateModal}>
-          New Lead
-        </button>
+        {canAdd && (
+          <div className="leads-header__actions">
+            <button type="button" className="leads-secondary" onClick={() => setIsImportOpen(true)}>
+              Import CSV
+            </button>
+            <button type="button" className="leads-primary" onClick={openCreateModal}>
+              New Lead
+            </button>
+          </div>
+        )}
       </header>
 
       {loadError && <div className="leads-alert leads-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="leads-alert leads-alert--success">{pageSuccess}</div>}
 
-      {isLoading ? (
+      <FollowUpsDue onOpenLead={handleViewDetail} />
+
+      {isLoading && !hasActiveFilters && leads.length === 0 ? (
         <div className="leads-empty">Loading leads...</div>
-      ) : leads.length === 0 ? (
+      ) : !isLoading && !hasActiveFilters && totalCount === 0 ? (
         <div className="leads-empty">No leads found. Create the first lead to get started.</div>
       ) : (
         <div className="leads-table-wrapper">
           <div className="leads-table-toolbar">
             <span className="leads-table-title">Leads</span>
             <div className="leads-table-actions">
-              <select
-                className="leads-table-filter"
-                value={stageFilter}
-                onChange={(event) => setStageFilter(event.target.value)}
-              >
-                <option value="">All stages</option>
-                {STAGE_OPTIONS.map((stageOption) => (
-                  <option key={stageOption.value} value={stageOption.value}>
-                    {stageOption.label}
-                  </option>
-                ))}
-              </select>
+              <div className="leads-view-toggle" role="group" aria-label="View mode">
+                <button
+                  type="button"
+                  className={`leads-view-toggle__option ${viewMode === "table" ? "leads-view-toggle__option--active" : ""}`}
+                  onClick={() => handleViewModeChange("table")}
+                  aria-pressed={viewMode === "table"}
+                >
+                  Table
+                </button>
+                <button
+                  type="button"
+                  className={`leads-view-toggle__option ${viewMode === "board" ? "leads-view-toggle__option--active" : ""}`}
+                  onClick={() => handleViewModeChange("board")}
+                  aria-pressed={viewMode === "board"}
+                >
+                  Board
+                </button>
+              </div>
+              {viewMode === "table" && (
+                <select
+                  className="leads-table-filter"
+                  value={stageFilter}
+                  onChange={(event) => {
+                    setStageFilter(event.target.value);
+                    setPage(1);
+                  }}
+                >
+                  <option value="">All stages</option>
+                  {STAGE_OPTIONS.map((stageOption) => (
+                    <option key={stageOption.value} value={stageOption.value}>
+                      {stageOption.label}
+                    </option>
+                  ))}
+                </select>
+              )}
               <select
                 className="leads-table-filter"
                 value={ownerFilter}
-                onChange={(event) => setOwnerFilter(event.target.value)}
+                onChange={(event) => {
+                  setOwnerFilter(event.target.value);
+                  setPage(1);
+                }}
               >
                 <option value="">All owners</option>
                 {owners.map((owner) => (
@@ -459,117 +767,312 @@ export default function LeadsPage() {
                   aria-label="Search leads"
                 />
               </label>
+              <button
+                type="button"
+                className="leads-table-export"
+                onClick={exportLeads}
+                disabled={isExporting || totalCount === 0}
+              >
+                {isExporting ? "Exporting..." : "Export CSV"}
+              </button>
             </div>
           </div>
-          <table className="leads-table">
-            <thead>
-              <tr>
-                <th>Name</th>
-                <th>Email</th>
-                <th>Phone</th>
-                <th>Source</th>
-                <th>Stage</th>
-                <th>Owner</th>
-                <th>Action</th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredLeads.map((lead) => {
-                const ownerName = lead.owner?.name || lead.owner?.email || "-";
-                const isWon = lead.stage === "WON";
-                const isConverted = lead.converted_tenant !== null;
-
-                return (
-                  <tr key={lead.id}>
-                    <td>
-                      <button
-                        type="button"
-                        className="leads-name-link"
-                        onClick={() => handleViewDetail(lead)}
-                      >
-                        {lead.first_name} {lead.last_name}
-                      </button>
-                    </td>
-                    <td>{lead.email || "-"}</td>
-                    <td>{lead.phone_primary || "-"}</td>
-                    <td>{getSourceLabel(lead.source)}</td>
-                    <td>
-                      <span
-                        className="leads-stage-badge"
-                        style={{
-                          backgroundColor: `${getStageColor(lead.stage)}15`,
-                          color: getStageColor(lead.stage)
+          {selectedLeads.size > 0 && (
+            <div className="leads-bulk-bar">
+              <span className="leads-bulk-bar__count">{selectedLeads.size} selected</span>
+              {isPageSelected && selectedLeads.size < selectableCount && (
+                <button
+                  type="button"
+                  className="leads-name-link"
+                  onClick={handleSelectAllFiltered}
+                  disabled={isSelectingAll || isBulkRunning}
+                >
+                  {isSelectingAll ? "Selecting..." : `Select all ${selectableCount} matching leads`}
+                </button>
+              )}
+              <div className="leads-bulk-bar__actions">
+                <select
+                  className="leads-table-filter"
+                  value={bulkOwner}
+                  onChange={(event) => setBulkOwner(event.target.value)}
+                  aria-label="Owner to assign"
+                >
+                  <option value="">Assign owner...</option>
+                  <option value="none">Unassigned</option>
+                  {owners.map((owner) => (
+                    <option key={owner.id} value={owner.id}>
+                      {owner.name || owner.email}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="leads-button"
+                  onClick={handleBulkAssignOwner}
+                  disabled={!bulkOwner || isBulkRunning}
+                >
+                  Assign
+                </button>
+                <select
+                  className="leads-table-filter"
+                  value={bulkStage}
+                  onChange={(event) => setBulkStage(event.target.value)}
+                  aria-label="Stage to move to"
+                >
+                  <option value="">Change stage...</option>
+                  {STAGE_OPTIONS.map((stageOption) => (
+                    <option key={stageOption.value} value={stageOption.value}>
+                      {stageOption.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="leads-button"
+                  onClick={handleBulkChangeStage}
+                  disabled={!bulkStage || isBulkRunning}
+                >
+                  Move
+                </button>
+                {canDelete && (
+                  <button
+                    type="button"
+                    className="leads-button leads-button--danger"
+                    onClick={handleBulkDelete}
+                    disabled={isBulkRunning}
+                  >
+                    Delete
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="leads-button"
+                  onClick={() => setSelectedLeads(new Map())}
+                  disabled={isBulkRunning}
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+          )}
+          {bulkProgress && (
+            <div className="leads-bulk-progress" role="status">
+              Processing {bulkProgress.completed} of {bulkProgress.total} leads...
+            </div>
+          )}
+          {bulkReport && (
+            <div className="leads-bulk-report" role="status">
+              <div className="leads-bulk-report__header">
+                <strong>
+                  {bulkReport.action}: {bulkReport.items.filter((item) => item.ok).length}{" "}
+                  succeeded, {bulkReport.items.filter((item) => !item.ok).length} failed
+                </strong>
+                <button type="button" className="leads-button" onClick={() => setBulkReport(null)}>
+                  Dismiss
+                </button>
+              </div>
+              <ul className="leads-bulk-report__list">
+                {bulkReport.items.map((item) => (
+                  <li
+                    key={item.lead.id}
+                    className={
+                      item.ok
+                        ? "leads-bulk-report__item"
+                        : "leads-bulk-report__item leads-bulk-report__item--error"
+                    }
+                  >
+                    {item.lead.first_name} {item.lead.last_name}: {item.ok ? "done" : item.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {viewMode === "board" ? (
+            <div className="leads-board-wrapper">
+              <LeadsBoard
+                stages={STAGE_OPTIONS}
+                columns={boardColumns}
+                isLoading={isLoading}
+                selection={{
+                  stage: "NEW",
+                  selectedIds: selectedLeadIds,
+                  disabled: isBulkRunning,
+                  onToggleLead: toggleLeadSelection,
+                  onToggleColumn: setLeadsSelected
+                }}
+                onMoveLead={handleMoveLead}
+                onOpenLead={handleViewDetail}
+              />
+            </div>
+          ) : (
+            <>
+              <table className="leads-table">
+                <thead>
+                  <tr>
+                    <th className="leads-table__select">
+                      <input
+                        type="checkbox"
+                        checked={isPageSelected}
+                        ref={(node) => {
+                          if (node) {
+                            node.indeterminate = selectedOnPage > 0 && !isPageSelected;
+                          }
                         }}
-                      >
-                        {getStageLabel(lead.stage)}
-                      </span>
-                    </td>
-                    <td>{ownerName}</td>
-                    <td>
-                      <div className="leads-actions">
-                        <button
-                          type="button"
-                          className="leads-icon-button"
-                          onClick={() => openEditModal(lead)}
-                          aria-label="Edit lead"
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                          </svg>
-                        </button>
-                        {isWon && !isConverted && (
+                        onChange={togglePageSelection}
+                        disabled={leads.length === 0 || isBulkRunning}
+                        aria-label="Select all leads on this page"
+                      />
+                    </th>
+                    <th>Name</th>
+                    <th>Email</th>
+                    <th>Phone</th>
+                    <th>Source</th>
+                    <th>Stage</th>
+                    <th>Owner</th>
+                    <th>Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {leads.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="leads-table-empty">
+                        {isLoading ? "Loading leads..." : "No leads match the current filters."}
+                      </td>
+                    </tr>
+                  )}
+                  {leads.map((lead) => {
+                    const ownerName = lead.owner?.name || lead.owner?.email || "-";
+                    const isWon = lead.stage === "WON";
+                    const isConverted = lead.converted_tenant !== null;
+
+                    return (
+                      <tr key={lead.id}>
+                        <td className="leads-table__select">
+                          <input
+                            type="checkbox"
+                            checked={selectedLeads.has(lead.id)}
+                            onChange={() => toggleLeadSelection(lead)}
+                            disabled={isBulkRunning}
+                            aria-label={`Select ${lead.first_name} ${lead.last_name}`}
+                          />
+                        </td>
+                        <td>
                           <button
                             type="button"
-                            className="leads-icon-button leads-icon-button--success"
-                            onClick={() => handleConvert(lead)}
-                            aria-label="Convert to tenant"
-                            title="Convert to tenant"
+                            className="leads-name-link"
+                            onClick={() => handleViewDetail(lead)}
                           >
-                            <svg viewBox="0 0 24 24" aria-hidden="true">
-                              <path d="M16 3h5v5M4 20L21 3M21 16v5h-5M15 15l6 6M4 4l5 5" />
-                            </svg>
+                            {lead.first_name} {lead.last_name}
                           </button>
-                        )}
-                        {isConverted && (
-                          <button
-                            type="button"
-                            className="leads-icon-button leads-icon-button--info"
-                            onClick={() => navigate(`/tenants/${lead.converted_tenant}`)}
-                            aria-label="View tenant"
-                            title="View tenant"
+                        </td>
+                        <td>{lead.email || "-"}</td>
+                        <td>{lead.phone_primary || "-"}</td>
+                        <td>{getSourceLabel(lead.source)}</td>
+                        <td>
+                          <span
+                            className="leads-stage-badge"
+                            style={{
+                              backgroundColor: `${getStageColor(lead.stage)}15`,
+                              color: getStageColor(lead.stage)
+                            }}
                           >
-                            <svg viewBox="0 0 24 24" aria-hidden="true">
-                              <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2" />
-                              <circle cx="12" cy="7" r="4" />
-                            </svg>
-                          </button>
-                        )}
-                        <button
-                          type="button"
-                          className="leads-icon-button leads-icon-button--danger"
-                          onClick={() => handleDelete(lead)}
-                          disabled={deletingIds.has(lead.id)}
-                          aria-label="Delete lead"
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <polyline points="3 6 5 6 21 6" />
-                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                          </svg>
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
-          <div className="leads-table-footer">
-            Showing {filteredLeads.length === 0 ? 0 : 1} to {filteredLeads.length} of {leads.length}{" "}
-            entries
-          </div>
+                            {getStageLabel(lead.stage)}
+                          </span>
+                        </td>
+                        <td>{ownerName}</td>
+                        <td>
+                          <div className="leads-actions">
+                            {canChange && (
+                              <button
+                                type="button"
+                                className="leads-icon-button"
+                                onClick={() => openEditModal(lead)}
+                                aria-label="Edit lead"
+                                title="Edit"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                                </svg>
+                              </button>
+                            )}
+                            {canConvert && isWon && !isConverted && (
+                              <button
+                                type="button"
+                                className="leads-icon-button leads-icon-button--success"
+                                onClick={() => handleConvert(lead)}
+                                aria-label="Convert to tenant"
+                                title="Convert to tenant"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <path d="M16 3h5v5M4 20L21 3M21 16v5h-5M15 15l6 6M4 4l5 5" />
+                                </svg>
+                              </button>
+                            )}
+                            {isConverted && (
+                              <button
+                                type="button"
+                                className="leads-icon-button leads-icon-button--info"
+                                onClick={() => navigate(`/tenants/${lead.converted_tenant}`)}
+                                aria-label="View tenant"
+                                title="View tenant"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2" />
+                                  <circle cx="12" cy="7" r="4" />
+                                </svg>
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button
+                                type="button"
+                                className="leads-icon-button leads-icon-button--danger"
+                                onClick={() => handleDelete(lead)}
+                                disabled={deletingIds.has(lead.id)}
+                                aria-label="Delete lead"
+                                title="Delete"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <polyline points="3 6 5 6 21 6" />
+                                  <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                                  <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                                </svg>
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="leads-table-footer">
+                <span>
+                  Showing {showingFrom} to {showingTo} of {totalCount} entries
+                </span>
+                <div className="leads-pagination">
+                  <button
+                    type="button"
+                    className="leads-button"
+                    onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+                    disabled={page <= 1 || isLoading}
+                  >
+                    Previous
+                  </button>
+                  <span className="leads-pagination__label">
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    type="button"
+                    className="leads-button"
+                    onClick={() => setPage((prev) => prev + 1)}
+                    disabled={(page >= totalPages && !hasNextPage) || isLoading}
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
         </div>
       )}
 
@@ -595,6 +1098,7 @@ export default function LeadsPage() {
             </div>
 
             <form className="leads-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="leads-alert leads-alert--error">{formError}</div>}
               <div className="leads-form-grid">
                 <label className="leads-field">
                   <span>First Name *</span>
@@ -690,8 +1194,6 @@ export default function LeadsPage() {
                 <textarea {...register("notes")} className="leads-input leads-textarea" rows={3} />
               </label>
 
-              {formError && <div className="leads-alert leads-alert--error">{formError}</div>}
-
               <div className="leads-form__actions">
                 <button type="button" className="leads-button" onClick={closeModal}>
                   Cancel
@@ -704,6 +1206,18 @@ export default function LeadsPage() {
           </div>
         </div>
       )}
+
+      {isImportOpen && (
+        <CsvImportWizard
+          title="Import leads"
+          entityName="leads"
+          fields={LEAD_CSV_FIELDS}
+          validate={validateImportRows}
+          importRow={leadsApi.create}
+          onImported={handleLeadsImported}
+          onClose={closeImport}
+        />
+      )}
     </main>
   );
 }
@@ -1,8 +1,8 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
-import { Navigate, useLocation, useNavigate } from "react-router-dom";
-import { useAuth } from "@/shared/auth";
-import axios from "axios";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { safeNextPath, useAuth } from "@/shared/auth";
+import { isHttpError } from "@/shared/api/errorHandling";
 import "./Login.css";
 
 type LoginFormValues = {
@@ -12,9 +12,11 @@ type LoginFormValues = {
 
 export default function LoginPage() {
   const navigate = useNavigate();
-  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const { login, isAuthenticated } = useAuth();
   const [formError, setFormError] = useState<string | null>(null);
+  const next = safeNextPath(searchParams.get("next"));
+  const wasIdle = searchParams.get("reason") === "idle";
 
   const {
     register,
@@ -28,17 +30,16 @@ export default function LoginPage() {
   });
 
   if (isAuthenticated) {
-    const redirectTo = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname;
-    return <Navigate to={redirectTo ?? "/dashboard"} replace />;
+    return <Navigate to={next} replace />;
   }
 
   const onSubmit = async (values: LoginFormValues) => {
     setFormError(null);
     try {
       await login(values);
-      navigate("/dashboard", { replace: true });
+      navigate(next, { replace: true });
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 401) {
+      if (isHttpError(error) && error.status === 401) {
         setFormError("Invalid credentials.");
         return;
       }
@@ -63,6 +64,12 @@ export default function LoginPage() {
         </div>
 
         <form onSubmit={handleSubmit(onSubmit)} noValidate className="login-form">
+          {wasIdle && !formError ? (
+            <div className="login-form__notice" role="status">
+              You were signed out after a period of inactivity.
+            </div>
+          ) : null}
+
           <div className="login-field">
             <label className="login-field__label" htmlFor="login-email">
               Email
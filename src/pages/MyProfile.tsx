@@ -0,0 +1,314 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import Breadcrumb from "@/components/Breadcrumb";
+import { useChangePassword, useUpdateProfile } from "@/features/profile/queries";
+import { getRoleLabel, useAuth } from "@/shared/auth";
+import type { User } from "@/shared/auth";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import "@/pages/MyProfile.css";
+
+const LOCALE_OPTIONS = [
+  { value: "pt-BR", label: "Português (Brasil)" },
+  { value: "en-US", label: "English (US)" },
+  { value: "es-ES", label: "Español" }
+];
+
+type ProfileFormValues = {
+  first_name: string;
+  last_name: string;
+  locale: string;
+};
+
+type PasswordFormValues = {
+  current_password: string;
+  new_password: string;
+  confirm_password: string;
+};
+
+const EMPTY_PASSWORD_FORM: PasswordFormValues = {
+  current_password: "",
+  new_password: "",
+  confirm_password: ""
+};
+
+function toFormValues(user: User): ProfileFormValues {
+  return {
+    first_name: user.firstName,
+    last_name: user.lastName,
+    locale: user.locale
+  };
+}
+
+export default function MyProfilePage() {
+  const { user, updateUser } = useAuth();
+  const updateProfile = useUpdateProfile();
+  const changePassword = useChangePassword();
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isDirty, isSubmitting }
+  } = useForm<ProfileFormValues>();
+
+  const {
+    register: registerPassword,
+    handleSubmit: handlePasswordSubmit,
+    reset: resetPassword,
+    setError: setPasswordFieldError,
+    getValues: getPasswordValues,
+    formState: { errors: passwordErrors, isSubmitting: isChangingPassword }
+  } = useForm<PasswordFormValues>({ defaultValues: EMPTY_PASSWORD_FORM });
+
+  useEffect(() => {
+    if (user && !isDirty) {
+      reset(toFormValues(user));
+    }
+  }, [user, isDirty, reset]);
+
+  if (!user) {
+    return (
+      <main className="profile-page">
+        <div className="profile-loading">Loading profile...</div>
+      </main>
+    );
+  }
+
+  const onSubmit = async (values: ProfileFormValues) => {
+    setProfileError(null);
+    try {
+      const updated = await updateProfile.mutateAsync({
+        first_name: values.first_name.trim(),
+        last_name: values.last_name.trim(),
+        locale: values.locale
+      });
+      reset(toFormValues(updated));
+      // The PATCH answers with the full profile, so no second request can fail a saved edit.
+      updateUser(updated);
+      notify.success("Profile updated successfully.");
+    } catch (error) {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["first_name", "last_name", "locale"])
+      );
+      if (summary) {
+        setProfileError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setProfileError("Unable to save your profile. Please try again.");
+        }
+      } else {
+        setProfileError("Unexpected error while saving your profile.");
+      }
+    }
+  };
+
+  const onPasswordSubmit = async (values: PasswordFormValues) => {
+    setPasswordError(null);
+    try {
+      await changePassword.mutateAsync({
+        current_password: values.current_password,
+        new_password: values.new_password
+      });
+      resetPassword(EMPTY_PASSWORD_FORM);
+      notify.success("Password changed successfully.");
+    } catch (error) {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setPasswordFieldError, ["current_password", "new_password"])
+      );
+      if (summary) {
+        setPasswordError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (!notifyHttpError(error)) {
+        setPasswordError("Unable to change your password. Please try again.");
+      }
+    }
+  };
+
+  return (
+    <main className="profile-page">
+      <header className="profile-header">
+        <Breadcrumb items={[{ label: "Meu perfil" }]} />
+        <div className="profile-identity">
+          {user.avatarUrl ? (
+            <img className="profile-avatar" src={user.avatarUrl} alt="" />
+          ) : (
+            <div className="profile-avatar">{user.name.charAt(0).toUpperCase() || "U"}</div>
+          )}
+          <div>
+            <h1>{user.name}</h1>
+            <span className="profile-email">{user.email}</span>
+          </div>
+        </div>
+      </header>
+
+      <section className="profile-card">
+        <h2>Personal Information</h2>
+        {profileError && <div className="profile-alert profile-alert--error">{profileError}</div>}
+        <form className="profile-form" onSubmit={handleSubmit(onSubmit)}>
+          <div className="profile-grid">
+            <label className="profile-field">
+              <span>First Name *</span>
+              <input
+                type="text"
+                {...register("first_name", { required: "First name is required." })}
+                className={
+                  errors.first_name ? "profile-input profile-input--error" : "profile-input"
+                }
+              />
+              {errors.first_name && (
+                <span className="profile-error">{errors.first_name.message}</span>
+              )}
+            </label>
+
+            <label className="profile-field">
+              <span>Last Name</span>
+              <input
+                type="text"
+                {...register("last_name")}
+                className={
+                  errors.last_name ? "profile-input profile-input--error" : "profile-input"
+                }
+              />
+              {errors.last_name && (
+                <span className="profile-error">{errors.last_name.message}</span>
+              )}
+            </label>
+
+            <label className="profile-field">
+              <span>Language</span>
+              <select {...register("locale")} className="profile-input">
+                {LOCALE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {errors.locale && <span className="profile-error">{errors.locale.message}</span>}
+            </label>
+
+            <label className="profile-field">
+              <span>Timezone</span>
+              <input type="text" value={user.timezone} className="profile-input" disabled />
+            </label>
+          </div>
+          <div className="profile-actions">
+            <button type="submit" className="profile-primary" disabled={isSubmitting || !isDirty}>
+              {isSubmitting ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="profile-card">
+        <h2>Access</h2>
+        <div className="profile-access">
+          <div>
+            <span className="profile-label">Roles</span>
+            <div className="profile-chips">
+              {user.roles.length > 0 ? (
+                user.roles.map((role) => (
+                  <span key={role} className="profile-chip">
+                    {getRoleLabel(role)}
+                  </span>
+                ))
+              ) : (
+                <span className="profile-muted">No roles assigned.</span>
+              )}
+            </div>
+          </div>
+          <div>
+            <span className="profile-label">Facilities</span>
+            {user.facilities.length > 0 ? (
+              <ul className="profile-facilities">
+                {user.facilities.map((facility) => (
+                  <li key={facility.id}>{facility.name}</li>
+                ))}
+              </ul>
+            ) : (
+              <span className="profile-muted">No facilities assigned.</span>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="profile-card">
+        <h2>Change Password</h2>
+        {passwordError && <div className="profile-alert profile-alert--error">{passwordError}</div>}
+        <form className="profile-form" onSubmit={handlePasswordSubmit(onPasswordSubmit)}>
+          <div className="profile-grid">
+            <label className="profile-field profile-field--full">
+              <span>Current Password *</span>
+              <input
+                type="password"
+                autoComplete="current-password"
+                {...registerPassword("current_password", {
+                  required: "Current password is required."
+                })}
+                className={
+                  passwordErrors.current_password
+                    ? "profile-input profile-input--error"
+                    : "profile-input"
+                }
+              />
+              {passwordErrors.current_password && (
+                <span className="profile-error">{passwordErrors.current_password.message}</span>
+              )}
+            </label>
+
+            <label className="profile-field">
+              <span>New Password *</span>
+              <input
+                type="password"
+                autoComplete="new-password"
+                {...registerPassword("new_password", {
+                  required: "New password is required.",
+                  minLength: { value: 8, message: "Use at least 8 characters." }
+                })}
+                className={
+                  passwordErrors.new_password
+                    ? "profile-input profile-input--error"
+                    : "profile-input"
+                }
+              />
+              {passwordErrors.new_password && (
+                <span className="profile-error">{passwordErrors.new_password.message}</span>
+              )}
+            </label>
+
+            <label className="profile-field">
+              <span>Confirm New Password *</span>
+              <input
+                type="password"
+                autoComplete="new-password"
+                {...registerPassword("confirm_password", {
+                  required: "Confirm the new password.",
+                  validate: (value) =>
+                    value === getPasswordValues("new_password") || "Passwords do not match."
+                })}
+                className={
+                  passwordErrors.confirm_password
+                    ? "profile-input profile-input--error"
+                    : "profile-input"
+                }
+              />
+              {passwordErrors.confirm_password && (
+                <span className="profile-error">{passwordErrors.confirm_password.message}</span>
+              )}
+            </label>
+          </div>
+          <div className="profile-actions">
+            <button type="submit" className="profile-primary" disabled={isChangingPassword}>
+              {isChangingPassword ? "Changing..." : "Change Password"}
+            </button>
+          </div>
+        </form>
+      </section>
+    </main>
+  );
+}
@@ -1,9 +1,17 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
-import axios from "axios";
 import { useForm } from "react-hook-form";
-import { organizationsApi } from "@/api/organizations";
 import type { Organization, OrganizationPayload } from "@/api/organizations";
+import {
+  useCreateOrganization,
+  useDeleteOrganization,
+  useOrganizations,
+  useUpdateOrganization
+} from "@/features/organizations/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/Organizations.css";
 
 type OrgFormValues = {
@@ -18,15 +26,24 @@ const DEFAULT_FORM_VALUES: OrgFormValues = {
   timezone: ""
 };
 
+const EMPTY_ORGANIZATIONS: Organization[] = [];
+
 export default function OrganizationsPage() {
-  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("organizations.add_organization");
+  const canChange = hasPermission("organizations.change_organization");
+  const canDelete = hasPermission("organizations.delete_organization");
+  const organizationsQuery = useOrganizations();
+  const createOrganization = useCreateOrganization();
+  const updateOrganization = useUpdateOrganization();
+  const deleteOrganization = useDeleteOrganization();
+  const organizations = organizationsQuery.data ?? EMPTY_ORGANIZATIONS;
+  const isLoading = organizationsQuery.isLoading;
   const [searchTerm, setSearchTerm] = useState("");
   const [timezoneFilter, setTimezoneFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
@@ -37,6 +54,7 @@ export default function OrganizationsPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors }
   } = useForm<OrgFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -72,35 +90,9 @@ export default function OrganizationsPage() {
     });
   }, [organizations, searchTerm, timezoneFilter]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const list = await organizationsApi.list();
-        if (isMounted) {
-          setOrganizations(list);
-        }
-      } catch {
-        if (isMounted) {
-          setLoadError("Unable to load organizations. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+  const loadError =
+    actionError ??
+    (organizationsQuery.isError ? "Unable to load organizations. Please try again." : null);
 
   const openCreateModal = () => {
     setEditingOrg(null);
@@ -146,14 +138,8 @@ export default function OrganizationsPage() {
     };
   }, [closeModal, isModalOpen]);
 
-  const refreshList = async () => {
-    const list = await organizationsApi.list();
-    setOrganizations(list);
-  };
-
   const onSubmit = async (values: OrgFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
     setIsSaving(true);
 
     const payload: OrganizationPayload = {
@@ -168,17 +154,21 @@ export default function OrganizationsPage() {
         : "Organization created successfully.";
 
       if (editingOrg) {
-        await organizationsApi.update(editingOrg.id, payload);
+        await updateOrganization.mutateAsync({ id: editingOrg.id, data: payload });
       } else {
-        await organizationsApi.create(payload);
+        await createOrganization.mutateAsync(payload);
       }
 
-      await refreshList();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        setFormError("Unable to save organization. Please check the form and try again.");
+      const summary = applyServerErrors(error, serverErrorTarget(setError, ["name"]));
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setFormError("Unable to save organization. Please check the form and try again.");
+        }
       } else {
         setFormError("Unexpected error while saving organization.");
       }
@@ -202,14 +192,15 @@ export default function OrganizationsPage() {
         next.add(org.id);
         return next;
       });
-      await organizationsApi.delete(org.id);
-      await refreshList();
+      setActionError(null);
+      await deleteOrganization.mutateAsync(org.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshList();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
-      setLoadError("Unable to delete organization. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete organization. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -243,24 +234,25 @@ export default function OrganizationsPage() {
           </div>
           <p className="orgs-subtitle">Manage organizations in the system.</p>
         </div>
-        <button type="button" className="orgs-primary" onClick={openCreateModal}>
-          <svg
-            width="18"
-            height="18"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2.5"
-          >
-            <line x1="12" y1="5" x2="12" y2="19" />
-            <line x1="5" y1="12" x2="19" y2="12" />
-          </svg>
-          Add organization
-        </button>
+        {canAdd && (
+          <button type="button" className="orgs-primary" onClick={openCreateModal}>
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.5"
+            >
+              <line x1="12" y1="5" x2="12" y2="19" />
+              <line x1="5" y1="12" x2="19" y2="12" />
+            </svg>
+            Add organization
+          </button>
+        )}
       </header>
 
       {loadError && <div className="orgs-alert orgs-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="orgs-alert orgs-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="orgs-loading">
@@ -351,31 +343,35 @@ export default function OrganizationsPage() {
                     <td>{org.timezone || "-"}</td>
                     <td>
                       <div className="orgs-actions">
-                        <button
-                          type="button"
-                          className="orgs-icon-button"
-                          onClick={() => openEditModal(org)}
-                          aria-label="Edit organization"
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          className="orgs-icon-button orgs-icon-button--danger"
-                          onClick={() => handleDelete(org)}
-                          disabled={deletingIds.has(org.id)}
-                          aria-label="Delete organization"
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <polyline points="3 6 5 6 21 6" />
-                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                          </svg>
-                        </button>
+                        {canChange && (
+                          <button
+                            type="button"
+                            className="orgs-icon-button"
+                            onClick={() => openEditModal(org)}
+                            aria-label="Edit organization"
+                            title="Edit"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type="button"
+                            className="orgs-icon-button orgs-icon-button--danger"
+                            onClick={() => handleDelete(org)}
+                            disabled={deletingIds.has(org.id)}
+                            aria-label="Delete organization"
+                            title="Delete"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <polyline points="3 6 5 6 21 6" />
+                              <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                              <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -417,6 +413,7 @@ export default function OrganizationsPage() {
             </div>
 
             <form className="orgs-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="orgs-alert orgs-alert--error">{formError}</div>}
               <label className="orgs-field">
                 <span>Name</span>
                 <input
@@ -451,8 +448,6 @@ export default function OrganizationsPage() {
                 />
               </label>
 
-              {formError && <div className="orgs-alert orgs-alert--error">{formError}</div>}
-
               <div className="orgs-form__actions">
                 <button type="button" className="orgs-button" onClick={closeModal}>
                   Cancel
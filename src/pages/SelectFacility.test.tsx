@@ -0,0 +1,54 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { Link, MemoryRouter, Route, Routes } from "react-router-dom";
+import SelectFacilityPage from "@/pages/SelectFacility";
+import {
+  requestFacilitySelection,
+  setFacilityPromptHandler
+} from "@/shared/facility/facilityPrompt";
+
+vi.mock("@/contexts/FacilityContext", () => ({
+  useFacility: () => ({
+    facilities: [{ id: 1, name: "Centro" }],
+    selectedFacilityId: null,
+    setSelectedFacilityId: () => undefined
+  })
+}));
+
+function renderSelector() {
+  render(
+    <MemoryRouter initialEntries={["/select-facility?next=/leads"]}>
+      <Link to="/tenants">Tenants</Link>
+      <Routes>
+        <Route path="/select-facility" element={<SelectFacilityPage />} />
+        <Route path="*" element={<p>Elsewhere</p>} />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+describe("SelectFacilityPage", () => {
+  it("rejects parked requests when the user leaves without choosing", async () => {
+    const unregister = setFacilityPromptHandler(() => undefined);
+    const cancelled = expect(requestFacilitySelection()).rejects.toThrow(
+      "Facility selection cancelled"
+    );
+    renderSelector();
+
+    await userEvent.click(screen.getByRole("link", { name: "Tenants" }));
+
+    await cancelled;
+    unregister();
+  });
+
+  it("resolves parked requests with the chosen facility", async () => {
+    const unregister = setFacilityPromptHandler(() => undefined);
+    const selection = requestFacilitySelection();
+    renderSelector();
+
+    await userEvent.click(screen.getByRole("button", { name: /Centro/ }));
+
+    await expect(selection).resolves.toBe("1");
+    unregister();
+  });
+});
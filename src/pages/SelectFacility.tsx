@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useFacility } from "@/contexts/FacilityContext";
+import { safeNextPath } from "@/shared/auth";
+import {
+  cancelFacilitySelection,
+  hasPendingFacilitySelection,
+  resolveFacilitySelection
+} from "@/shared/facility/facilityPrompt";
+import "@/pages/SelectFacility.css";
+
+let mountedSelectors = 0;
+
+export default function SelectFacilityPage() {
+  const { facilities, selectedFacilityId, setSelectedFacilityId } = useFacility();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const next = safeNextPath(searchParams.get("next"));
+  const isPrompted = hasPendingFacilitySelection();
+
+  // Leaving the selector any other way (sidebar, back button, sign-out) counts as cancel,
+  // otherwise the parked requests never settle. The check waits a tick because StrictMode
+  // unmounts and remounts the page once in development.
+  useEffect(() => {
+    mountedSelectors += 1;
+    return () => {
+      mountedSelectors -= 1;
+      setTimeout(() => {
+        if (mountedSelectors === 0 && hasPendingFacilitySelection()) {
+          cancelFacilitySelection();
+        }
+      }, 0);
+    };
+  }, []);
+
+  const handleSelect = (facilityId: string) => {
+    setSelectedFacilityId(facilityId);
+    resolveFacilitySelection(facilityId);
+    navigate(next, { replace: true });
+  };
+
+  const handleCancel = () => {
+    cancelFacilitySelection();
+    navigate(next, { replace: true });
+  };
+
+  return (
+    <main className="select-facility-page">
+      <section className="select-facility-card">
+        <h1>Select a facility</h1>
+        <p className="select-facility-subtitle">
+          {isPrompted
+            ? "This action needs a facility. Choose one and we will pick up where you left off."
+            : "Choose the facility you want to work in."}
+        </p>
+
+        {facilities.length === 0 ? (
+          <div className="select-facility-empty">
+            No facilities are assigned to your account. Ask an administrator for access.
+          </div>
+        ) : (
+          <ul className="select-facility-list">
+            {facilities.map((facility) => {
+              const id = String(facility.id);
+              const isCurrent = id === selectedFacilityId;
+              return (
+                <li key={id}>
+                  <button
+                    type="button"
+                    className={`select-facility-option ${isCurrent ? "select-facility-option--current" : ""}`}
+                    onClick={() => handleSelect(id)}
+                  >
+                    <span>{facility.name}</span>
+                    {isCurrent && <span className="select-facility-option__badge">Current</span>}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="select-facility-actions">
+          <button type="button" className="select-facility-cancel" onClick={handleCancel}>
+            {isPrompted ? "Cancel" : "Back"}
+          </button>
+        </div>
+      </section>
+    </main>
+  );
+}
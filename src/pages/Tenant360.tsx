@@ -1,9 +1,9 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import axios from "axios";
 import { useNavigate, useParams } from "react-router-dom";
 import Breadcrumb from "@/components/Breadcrumb";
-import { tenantsApi } from "@/api/tenants";
-import type { Tenant360 } from "@/api/tenants";
+import { useTenant360 } from "@/features/tenants/queries";
+import { isHttpError } from "@/shared/api/errorHandling";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/Tenant360.css";
 
 const DEFAULT_TABS = ["contracts", "invoices", "payments", "access", "tickets", "audit_logs"];
@@ -224,59 +224,24 @@ function getFieldLabel(key: string): string {
 }
 
 export default function Tenant360Page() {
+  const { hasPermission } = usePermissions();
+  const canChange = hasPermission("tenants.change_tenant");
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [data, setData] = useState<Tenant360 | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const tenant360Query = useTenant360(id ? parseInt(id, 10) : null);
+  const data = tenant360Query.data ?? null;
+  const isLoading = tenant360Query.isLoading;
   const [activeTab, setActiveTab] = useState("contracts");
   const [detailRow, setDetailRow] = useState<Record<string, unknown> | null>(null);
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      if (!id) {
-        setLoadError("Tenant ID is required.");
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const result = await tenantsApi.get360(parseInt(id, 10));
-
-        if (!isMounted) {
-          return;
-        }
-
-        setData(result);
-      } catch (error) {
-        if (!isMounted) {
-          return;
-        }
-
-        if (axios.isAxiosError(error) && error.response?.status === 404) {
-          setLoadError("Tenant not found.");
-        } else {
-          setLoadError("Unable to load tenant 360 view. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [id]);
+  const loadError = !id
+    ? "Tenant ID is required."
+    : isHttpError(tenant360Query.error) && tenant360Query.error.status === 404
+      ? "Tenant not found."
+      : tenant360Query.isError
+        ? "Unable to load tenant 360 view. Please try again."
+        : null;
 
   const closeModal = useCallback(() => {
     setDetailRow(null);
@@ -377,9 +342,11 @@ export default function Tenant360Page() {
           </div>
         </div>
         <div className="tenant-360-header__actions">
-          <button type="button" className="tenant-360-secondary" onClick={handleEdit}>
-            Edit Tenant
-          </button>
+          {canChange && (
+            <button type="button" className="tenant-360-secondary" onClick={handleEdit}>
+              Edit Tenant
+            </button>
+          )}
         </div>
       </header>
 
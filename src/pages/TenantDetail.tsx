@@ -1,10 +1,13 @@
 import { useEffect, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate, useParams } from "react-router-dom";
 import Breadcrumb from "@/components/Breadcrumb";
-import { tenantsApi } from "@/api/tenants";
 import type { Tenant } from "@/api/tenants";
+import { useDeleteTenant, useTenant, useUpdateTenant } from "@/features/tenants/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
 import "@/pages/TenantDetail.css";
 
 const CATEGORY_OPTIONS = [
@@ -44,16 +47,34 @@ function formatDate(dateString: string | null): string {
   });
 }
 
+function toFormValues(tenant: Tenant): TenantFormValues {
+  return {
+    first_name: tenant.first_name,
+    last_name: tenant.last_name,
+    email: tenant.email ?? "",
+    phone_primary: tenant.phone_primary ?? "",
+    phone_secondary: tenant.phone_secondary ?? "",
+    document: tenant.document ?? "",
+    category: tenant.category ?? "PF",
+    address: tenant.address ?? ""
+  };
+}
+
 export default function TenantDetailPage() {
+  const { hasPermission } = usePermissions();
+  const canChange = hasPermission("tenants.change_tenant");
+  const canDelete = hasPermission("tenants.delete_tenant");
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [tenant, setTenant] = useState<Tenant | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const tenantId = id ? parseInt(id, 10) : null;
+  const tenantQuery = useTenant(tenantId);
+  const updateTenant = useUpdateTenant();
+  const deleteTenant = useDeleteTenant();
+  const tenant = tenantQuery.data ?? null;
+  const isLoading = tenantQuery.isLoading;
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
 
@@ -61,64 +82,24 @@ export default function TenantDetailPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors, isDirty }
   } = useForm<TenantFormValues>();
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      if (!id) {
-        setLoadError("Tenant ID is required.");
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setLoadError(null);
+  const loadError = !id
+    ? "Tenant ID is required."
+    : isHttpError(tenantQuery.error) && tenantQuery.error.status === 404
+      ? "Tenant not found."
+      : tenantQuery.isError
+        ? "Unable to load tenant details. Please try again."
+        : null;
 
-      try {
-        const tenantData = await tenantsApi.get(parseInt(id, 10));
-
-        if (!isMounted) {
-          return;
-        }
-
-        setTenant(tenantData);
-
-        reset({
-          first_name: tenantData.first_name,
-          last_name: tenantData.last_name,
-          email: tenantData.email ?? "",
-          phone_primary: tenantData.phone_primary ?? "",
-          phone_secondary: tenantData.phone_secondary ?? "",
-          document: tenantData.document ?? "",
-          category: tenantData.category ?? "PF",
-          address: tenantData.address ?? ""
-        });
-      } catch (error) {
-        if (!isMounted) {
-          return;
-        }
-
-        if (axios.isAxiosError(error) && error.response?.status === 404) {
-          setLoadError("Tenant not found.");
-        } else {
-          setLoadError("Unable to load tenant details. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
+  // Background refetches must not clobber edits in progress.
+  useEffect(() => {
+    if (tenant && !isDirty) {
+      reset(toFormValues(tenant));
     }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [id, reset]);
+  }, [tenant, isDirty, reset]);
 
   useEffect(() => {
     if (!showDeleteConfirm) {
@@ -142,7 +123,6 @@ export default function TenantDetailPage() {
     if (!tenant) return;
 
     setFormError(null);
-    setPageSuccess(null);
 
     const payload = {
       first_name: values.first_name,
@@ -158,25 +138,18 @@ export default function TenantDetailPage() {
     setIsSaving(true);
 
     try {
-      await tenantsApi.update(tenant.id, payload);
-      const updatedTenant = await tenantsApi.get(tenant.id);
-      setTenant(updatedTenant);
+      await updateTenant.mutateAsync({ id: tenant.id, data: payload });
       reset(values);
-      setPageSuccess("Tenant updated successfully.");
+      notify.success("Tenant updated successfully.");
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, fieldErrors]) => {
-              if (Array.isArray(fieldErrors)) {
-                return `${field}: ${fieldErrors.join(", ")}`;
-              }
-              return `${field}: ${fieldErrors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save tenant. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["first_name", "last_name"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save tenant. Please check the form and try again.");
         }
       } else {
@@ -194,14 +167,16 @@ export default function TenantDetailPage() {
     setFormError(null);
 
     try {
-      await tenantsApi.delete(tenant.id);
+      await deleteTenant.mutateAsync(tenant.id);
       navigate("/tenants");
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
+      if (isHttpError(error) && error.status === 404) {
         navigate("/tenants");
         return;
       }
-      setFormError("Unable to delete tenant. Please try again.");
+      if (!notifyHttpError(error)) {
+        setFormError("Unable to delete tenant. Please try again.");
+      }
     } finally {
       setIsDeleting(false);
       setShowDeleteConfirm(false);
@@ -275,9 +250,6 @@ export default function TenantDetailPage() {
         </div>
       </header>
 
-      {pageSuccess && (
-        <div className="tenant-detail-alert tenant-detail-alert--success">{pageSuccess}</div>
-      )}
       {formError && (
         <div className="tenant-detail-alert tenant-detail-alert--error">{formError}</div>
       )}
@@ -379,24 +351,28 @@ export default function TenantDetailPage() {
           </section>
 
           <div className="tenant-detail-actions">
-            <button
-              type="button"
-              className="tenant-detail-button tenant-detail-button--danger"
-              onClick={() => setShowDeleteConfirm(true)}
-            >
-              Delete Tenant
-            </button>
+            {canDelete && (
+              <button
+                type="button"
+                className="tenant-detail-button tenant-detail-button--danger"
+                onClick={() => setShowDeleteConfirm(true)}
+              >
+                Delete Tenant
+              </button>
+            )}
             <div className="tenant-detail-actions__right">
               <button type="button" className="tenant-detail-button" onClick={handleBack}>
                 Cancel
               </button>
-              <button
-                type="submit"
-                className="tenant-detail-primary"
-                disabled={isSaving || !isDirty}
-              >
-                {isSaving ? "Saving..." : "Save Changes"}
-              </button>
+              {canChange && (
+                <button
+                  type="submit"
+                  className="tenant-detail-primary"
+                  disabled={isSaving || !isDirty}
+                >
+                  {isSaving ? "Saving..." : "Save Changes"}
+                </button>
+              )}
             </div>
           </div>
         </form>
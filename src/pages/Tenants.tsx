@@ -1,10 +1,25 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import Breadcrumb from "@/components/Breadcrumb";
 import { tenantsApi } from "@/api/tenants";
 import type { Tenant } from "@/api/tenants";
+import { useFacility } from "@/contexts/FacilityContext";
+import { TENANT_CSV_FIELDS, tenantsToCsvRows, validateTenantRows } from "@/features/tenants/csv";
+import {
+  tenantKeys,
+  useCreateTenant,
+  useDeleteTenant,
+  useTenants,
+  useUpdateTenant
+} from "@/features/tenants/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { csvFilename, downloadCsv } from "@/shared/lib/csv";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
+import CsvImportWizard from "@/widgets/csvImport/ui/CsvImportWizard";
 import "@/pages/Tenants.css";
 
 const CATEGORY_OPTIONS = [
@@ -53,16 +68,28 @@ function formatDate(dateString: string | null): string {
   });
 }
 
+const EMPTY_TENANTS: Tenant[] = [];
+
 export default function TenantsPage() {
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("tenants.add_tenant");
+  const canChange = hasPermission("tenants.change_tenant");
+  const canDelete = hasPermission("tenants.delete_tenant");
   const navigate = useNavigate();
-  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  const tenantsQuery = useTenants();
+  const createTenant = useCreateTenant();
+  const updateTenant = useUpdateTenant();
+  const deleteTenant = useDeleteTenant();
+  const tenants = tenantsQuery.data ?? EMPTY_TENANTS;
+  const isLoading = tenantsQuery.isLoading;
   const [searchTerm, setSearchTerm] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
@@ -73,6 +100,7 @@ export default function TenantsPage() {
     register,
     handleSubmit,
     reset,
+    setError,
     formState: { errors }
   } = useForm<TenantFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -97,45 +125,8 @@ export default function TenantsPage() {
     });
   }, [tenants, searchTerm, categoryFilter]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const tenantList = await tenantsApi.list();
-
-        if (!isMounted) {
-          return;
-        }
-
-        setTenants(tenantList);
-      } catch {
-        if (!isMounted) {
-          return;
-        }
-
-        setLoadError("Unable to load tenants. Please try again.");
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
-
-  const refreshTenants = async () => {
-    const tenantList = await tenantsApi.list();
-    setTenants(tenantList);
-  };
+  const loadError =
+    actionError ?? (tenantsQuery.isError ? "Unable to load tenants. Please try again." : null);
 
   const openCreateModal = () => {
     setEditingTenant(null);
@@ -235,7 +226,6 @@ export default function TenantsPage() {
 
   const onSubmit = async (values: TenantFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
 
     const payload = {
       first_name: values.first_name,
@@ -256,28 +246,22 @@ export default function TenantsPage() {
         : "Tenant created successfully.";
 
       if (editingTenant) {
-        await tenantsApi.update(editingTenant.id, payload);
+        await updateTenant.mutateAsync({ id: editingTenant.id, data: payload });
       } else {
-        await tenantsApi.create(payload);
+        await createTenant.mutateAsync(payload);
       }
 
-      await refreshTenants();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const errorData = error.response?.data;
-        if (errorData && typeof errorData === "object") {
-          const messages = Object.entries(errorData)
-            .map(([field, fieldErrors]) => {
-              if (Array.isArray(fieldErrors)) {
-                return `${field}: ${fieldErrors.join(", ")}`;
-              }
-              return `${field}: ${fieldErrors}`;
-            })
-            .join("; ");
-          setFormError(messages || "Unable to save tenant. Please check the form and try again.");
-        } else {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["first_name", "last_name"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
           setFormError("Unable to save tenant. Please check the form and try again.");
         }
       } else {
@@ -305,15 +289,16 @@ export default function TenantsPage() {
         next.add(tenant.id);
         return next;
       });
-      await tenantsApi.delete(tenant.id);
-      await refreshTenants();
+      setActionError(null);
+      await deleteTenant.mutateAsync(tenant.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshTenants();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
 
-      setLoadError("Unable to delete tenant. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete tenant. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -331,6 +316,17 @@ export default function TenantsPage() {
     navigate(`/tenants/${tenant.id}/360`);
   };
 
+  const closeImport = useCallback(() => setIsImportOpen(false), []);
+
+  const handleTenantsImported = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: tenantKeys.all(selectedFacilityId) }),
+    [queryClient, selectedFacilityId]
+  );
+
+  const exportTenants = () => {
+    downloadCsv(csvFilename("tenants"), tenantsToCsvRows(filteredTenants));
+  };
+
   return (
     <main className="tenants-page">
       <header className="tenants-header">
@@ -338,13 +334,23 @@ export default function TenantsPage() {
           <Breadcrumb items={[{ label: "Inquilinos" }]} />
           <p className="tenants-subtitle">Manage tenants and their information.</p>
         </div>
-        <button type="button" className="tenants-primary" onClick={openCreateModal}>
-          New Tenant
-        </button>
+        {canAdd && (
+          <div className="tenants-header__actions">
+            <button
+              type="button"
+              className="tenants-secondary"
+              onClick={() => setIsImportOpen(true)}
+            >
+              Import CSV
+            </button>
+            <button type="button" className="tenants-primary" onClick={openCreateModal}>
+              New Tenant
+            </button>
+          </div>
+        )}
       </header>
 
       {loadError && <div className="tenants-alert tenants-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="tenants-alert tenants-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="tenants-empty">Loading tenants...</div>
@@ -382,6 +388,14 @@ export default function TenantsPage() {
                   aria-label="Search tenants"
                 />
               </label>
+              <button
+                type="button"
+                className="tenants-table-export"
+                onClick={exportTenants}
+                disabled={filteredTenants.length === 0}
+              >
+                Export CSV
+              </button>
             </div>
           </div>
           <table className="tenants-table">
@@ -423,17 +437,19 @@ export default function TenantsPage() {
                   <td>{formatDate(tenant.created_at)}</td>
                   <td>
                     <div className="tenants-actions">
-                      <button
-                        type="button"
-                        className="tenants-icon-button"
-                        onClick={() => openEditModal(tenant)}
-                        aria-label="Edit tenant"
-                        title="Edit"
-                      >
-                        <svg viewBox="0 0 24 24" aria-hidden="true">
-                          <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                        </svg>
-                      </button>
+                      {canChange && (
+                        <button
+                          type="button"
+                          className="tenants-icon-button"
+                          onClick={() => openEditModal(tenant)}
+                          aria-label="Edit tenant"
+                          title="Edit"
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                          </svg>
+                        </button>
+                      )}
                       <button
                         type="button"
                         className="tenants-icon-button tenants-icon-button--info"
@@ -447,20 +463,22 @@ export default function TenantsPage() {
                           <line x1="12" y1="16" x2="12.01" y2="16" />
                         </svg>
                       </button>
-                      <button
-                        type="button"
-                        className="tenants-icon-button tenants-icon-button--danger"
-                        onClick={() => handleDelete(tenant)}
-                        disabled={deletingIds.has(tenant.id)}
-                        aria-label="Delete tenant"
-                        title="Delete"
-                      >
-                        <svg viewBox="0 0 24 24" aria-hidden="true">
-                          <polyline points="3 6 5 6 21 6" />
-                          <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                          <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                        </svg>
-                      </button>
+                      {canDelete && (
+                        <button
+                          type="button"
+                          className="tenants-icon-button tenants-icon-button--danger"
+                          onClick={() => handleDelete(tenant)}
+                          disabled={deletingIds.has(tenant.id)}
+                          aria-label="Delete tenant"
+                          title="Delete"
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <polyline points="3 6 5 6 21 6" />
+                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -496,6 +514,7 @@ export default function TenantsPage() {
             </div>
 
             <form className="tenants-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="tenants-alert tenants-alert--error">{formError}</div>}
               <div className="tenants-form-grid">
                 <label className="tenants-field">
                   <span>First Name *</span>
@@ -573,8 +592,6 @@ export default function TenantsPage() {
                 </label>
               </div>
 
-              {formError && <div className="tenants-alert tenants-alert--error">{formError}</div>}
-
               <div className="tenants-form__actions">
                 <button type="button" className="tenants-button" onClick={closeModal}>
                   Cancel
@@ -587,6 +604,18 @@ export default function TenantsPage() {
           </div>
         </div>
       )}
+
+      {isImportOpen && (
+        <CsvImportWizard
+          title="Import tenants"
+          entityName="tenants"
+          fields={TENANT_CSV_FIELDS}
+          validate={validateTenantRows}
+          importRow={tenantsApi.create}
+          onImported={handleTenantsImported}
+          onClose={closeImport}
+        />
+      )}
     </main>
   );
 }
@@ -0,0 +1,592 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import type { UnitRecord, UnitType, UnitTypePayload } from "@/api/units";
+import { useFacility } from "@/contexts/FacilityContext";
+import {
+  formatArea,
+  formatVolume,
+  getPriceOrderErrors,
+  getUnitTypeArea,
+  getUnitTypeVolume
+} from "@/entities/unit/lib/measurements";
+import {
+  useCreateUnitType,
+  useDeleteUnitType,
+  useUnits,
+  useUnitTypes,
+  useUpdateUnitType
+} from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
+import "@/pages/Units.css";
+import "@/pages/UnitTypes.css";
+
+type UnitTypeFormValues = {
+  name: string;
+  width: string;
+  depth: string;
+  height: string;
+  base_price: string;
+  min_price: string;
+  max_price: string;
+};
+
+const DEFAULT_FORM_VALUES: UnitTypeFormValues = {
+  name: "",
+  width: "",
+  depth: "",
+  height: "",
+  base_price: "",
+  min_price: "",
+  max_price: ""
+};
+
+const DIMENSION_FIELDS = [
+  { name: "width", label: "Width (m)" },
+  { name: "depth", label: "Depth (m)" },
+  { name: "height", label: "Height (m)" }
+] as const;
+
+const PRICE_FIELDS = [
+  { name: "min_price", label: "Min Price" },
+  { name: "base_price", label: "Base Price" },
+  { name: "max_price", label: "Max Price" }
+] as const;
+
+const EMPTY_UNITS: UnitRecord[] = [];
+const EMPTY_UNIT_TYPES: UnitType[] = [];
+
+function formatCurrency(value: string | null): string {
+  if (value === null || value === "") return "-";
+  const num = parseFloat(value);
+  if (isNaN(num)) return "-";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD"
+  }).format(num);
+}
+
+function toFormValues(unitType: UnitType): UnitTypeFormValues {
+  return {
+    name: unitType.name,
+    width: unitType.width ?? "",
+    depth: unitType.depth ?? "",
+    height: unitType.height ?? "",
+    base_price: unitType.base_price ?? "",
+    min_price: unitType.min_price ?? "",
+    max_price: unitType.max_price ?? ""
+  };
+}
+
+function toPayload(values: UnitTypeFormValues, facility: number | null): UnitTypePayload {
+  return {
+    name: values.name.trim(),
+    width: values.width || null,
+    depth: values.depth || null,
+    height: values.height || null,
+    base_price: values.base_price || null,
+    min_price: values.min_price || null,
+    max_price: values.max_price || null,
+    facility
+  };
+}
+
+const positiveNumber = (value: string) =>
+  !value || Number(value) >= 0 || "Enter a number of zero or more.";
+
+export default function UnitTypesPage() {
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("units.add_unittype");
+  const canChange = hasPermission("units.change_unittype");
+  const canDelete = hasPermission("units.delete_unittype");
+  const { selectedFacilityId } = useFacility();
+  const unitTypesQuery = useUnitTypes();
+  const unitsQuery = useUnits();
+  const createUnitType = useCreateUnitType();
+  const updateUnitType = useUpdateUnitType();
+  const deleteUnitType = useDeleteUnitType();
+  const unitTypes = unitTypesQuery.data ?? EMPTY_UNIT_TYPES;
+  const units = unitsQuery.data ?? EMPTY_UNITS;
+  const isLoading = unitTypesQuery.isLoading || unitsQuery.isLoading;
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingUnitType, setEditingUnitType] = useState<UnitType | null>(null);
+  const [deletingUnitType, setDeletingUnitType] = useState<UnitType | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const modalFirstInputRef = useRef<HTMLInputElement | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setError,
+    formState: { errors }
+  } = useForm<UnitTypeFormValues>({
+    defaultValues: DEFAULT_FORM_VALUES
+  });
+
+  const nameRegister = register("name", { required: "Name is required." });
+  const [width, depth, height] = watch(["width", "depth", "height"]);
+  const previewArea = getUnitTypeArea({ width, depth });
+  const previewVolume = getUnitTypeVolume({ width, depth, height });
+
+  // Units per type, to warn before deleting a type that is still in use.
+  const unitCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    units.forEach((unit) => counts.set(unit.unit_type, (counts.get(unit.unit_type) ?? 0) + 1));
+    return counts;
+  }, [units]);
+
+  const filteredUnitTypes = useMemo(() => {
+    const normalizedQuery = searchTerm.trim().toLowerCase();
+    if (!normalizedQuery) {
+      return unitTypes;
+    }
+    return unitTypes.filter((unitType) => unitType.name.toLowerCase().includes(normalizedQuery));
+  }, [searchTerm, unitTypes]);
+
+  const loadError =
+    actionError ??
+    (unitTypesQuery.isError || unitsQuery.isError
+      ? "Unable to load unit types. Please try again."
+      : null);
+
+  const openCreateModal = () => {
+    setEditingUnitType(null);
+    reset(DEFAULT_FORM_VALUES);
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (unitType: UnitType) => {
+    setEditingUnitType(unitType);
+    reset(toFormValues(unitType));
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const closeModal = useCallback(() => {
+    setIsModalOpen(false);
+    setEditingUnitType(null);
+    reset(DEFAULT_FORM_VALUES);
+  }, [reset]);
+
+  const closeDeleteModal = useCallback(() => {
+    setDeletingUnitType(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isModalOpen && !deletingUnitType) {
+      return;
+    }
+
+    if (isModalOpen) {
+      modalFirstInputRef.current?.focus();
+    }
+
+    const handleKeydown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        closeModal();
+        closeDeleteModal();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeydown);
+    return () => {
+      document.removeEventListener("keydown", handleKeydown);
+    };
+  }, [closeDeleteModal, closeModal, deletingUnitType, isModalOpen]);
+
+  const onSubmit = async (values: UnitTypeFormValues) => {
+    setFormError(null);
+
+    const priceErrors = getPriceOrderErrors(values);
+    const invalidFields = Object.entries(priceErrors) as [keyof typeof priceErrors, string][];
+    if (invalidFields.length > 0) {
+      invalidFields.forEach(([field, message]) => setError(field, { type: "validate", message }));
+      return;
+    }
+
+    const facility = editingUnitType?.facility ?? Number(selectedFacilityId);
+    const payload = toPayload(values, facility);
+
+    setIsSaving(true);
+
+    try {
+      const successMessage = editingUnitType
+        ? "Unit type updated successfully."
+        : "Unit type created successfully.";
+
+      if (editingUnitType) {
+        await updateUnitType.mutateAsync({ id: editingUnitType.id, data: payload });
+      } else {
+        await createUnitType.mutateAsync(payload);
+      }
+
+      notify.success(successMessage);
+      closeModal();
+    } catch (error) {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, [
+          "name",
+          "width",
+          "depth",
+          "height",
+          "base_price",
+          "min_price",
+          "max_price"
+        ])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setFormError("Unable to save unit type. Please check the form and try again.");
+        }
+      } else {
+        setFormError("Unexpected error while saving unit type.");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingUnitType) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setActionError(null);
+
+    try {
+      await deleteUnitType.mutateAsync(deletingUnitType.id);
+      notify.success("Unit type deleted successfully.");
+    } catch (error) {
+      if (!(isHttpError(error) && error.status === 404) && !notifyHttpError(error)) {
+        setActionError("Unable to delete unit type. Please try again.");
+      }
+    } finally {
+      setIsDeleting(false);
+      setDeletingUnitType(null);
+    }
+  };
+
+  const deletingUnitCount = deletingUnitType ? (unitCounts.get(deletingUnitType.id) ?? 0) : 0;
+
+  return (
+    <main className="units-page">
+      <header className="units-header">
+        <div className="units-header__left">
+          <div className="units-header__title-row">
+            <Link to="/units" className="units-header__home" title="Go to Units">
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
+              </svg>
+              <span className="units-header__path">Units</span>
+            </Link>
+            <span className="units-header__path-divider">/</span>
+            <span className="units-header__current">Unit Types</span>
+          </div>
+          <p className="units-subtitle">
+            Sizes and price bands of the units offered in the current facility.
+          </p>
+        </div>
+        {canAdd && (
+          <button
+            type="button"
+            className="units-primary"
+            onClick={openCreateModal}
+            disabled={!selectedFacilityId}
+            title={selectedFacilityId ? undefined : "Select a facility first"}
+          >
+            <svg
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.5"
+            >
+              <line x1="12" y1="5" x2="12" y2="19" />
+              <line x1="5" y1="12" x2="19" y2="12" />
+            </svg>
+            Add unit type
+          </button>
+        )}
+      </header>
+
+      {loadError && <div className="units-alert units-alert--error">{loadError}</div>}
+
+      {isLoading ? (
+        <div className="units-loading">
+          <div className="units-loading__spinner" />
+          Loading unit types...
+        </div>
+      ) : unitTypes.length === 0 ? (
+        <div className="units-empty">
+          <div className="units-empty__icon">📐</div>
+          <p>No unit types found. Create the first unit type to get started.</p>
+        </div>
+      ) : (
+        <div className="units-table-wrapper">
+          <div className="units-table-toolbar">
+            <span className="units-table-title">Unit Types</span>
+            <div className="units-table-actions">
+              <label className="units-search">
+                <svg viewBox="0 0 24 24" aria-hidden="true">
+                  <circle cx="11" cy="11" r="7" />
+                  <line x1="16.65" y1="16.65" x2="21" y2="21" />
+                </svg>
+                <input
+                  type="search"
+                  value={searchTerm}
+                  onChange={(event) => setSearchTerm(event.target.value)}
+                  placeholder="Search"
+                  aria-label="Search unit types"
+                />
+              </label>
+            </div>
+          </div>
+          <table className="units-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Dimensions (W × D × H)</th>
+                <th>Area</th>
+                <th>Volume</th>
+                <th>Price (min / base / max)</th>
+                <th>Units</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredUnitTypes.map((unitType) => (
+                <tr key={unitType.id}>
+                  <td>
+                    <strong>{unitType.name}</strong>
+                  </td>
+                  <td>
+                    {[unitType.width, unitType.depth, unitType.height]
+                      .map((value) => value ?? "-")
+                      .join(" × ")}
+                  </td>
+                  <td>{formatArea(getUnitTypeArea(unitType))}</td>
+                  <td>{formatVolume(getUnitTypeVolume(unitType))}</td>
+                  <td>
+                    {formatCurrency(unitType.min_price)} / {formatCurrency(unitType.base_price)} /{" "}
+                    {formatCurrency(unitType.max_price)}
+                  </td>
+                  <td>{unitCounts.get(unitType.id) ?? 0}</td>
+                  <td>
+                    <div className="units-actions">
+                      {canChange && (
+                        <button
+                          type="button"
+                          className="units-icon-button"
+                          onClick={() => openEditModal(unitType)}
+                          aria-label="Edit unit type"
+                          title="Edit"
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                          </svg>
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          type="button"
+                          className="units-icon-button units-icon-button--danger"
+                          onClick={() => setDeletingUnitType(unitType)}
+                          aria-label="Delete unit type"
+                          title="Delete"
+                        >
+                          <svg viewBox="0 0 24 24" aria-hidden="true">
+                            <polyline points="3 6 5 6 21 6" />
+                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="units-table-footer">
+            Showing {filteredUnitTypes.length === 0 ? 0 : 1} to {filteredUnitTypes.length} of{" "}
+            {unitTypes.length} entries
+          </div>
+        </div>
+      )}
+
+      {isModalOpen && (
+        <div
+          className="units-modal"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="unit-types-modal-title"
+        >
+          <div className="units-modal__overlay" onClick={closeModal} />
+          <div className="units-modal__panel unit-types-modal__panel">
+            <div className="units-modal__header">
+              <h2 id="unit-types-modal-title">
+                {editingUnitType ? "Edit unit type" : "Add unit type"}
+              </h2>
+              <button type="button" className="units-modal__close" onClick={closeModal}>
+                <svg
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                >
+                  <line x1="18" y1="6" x2="6" y2="18" />
+                  <line x1="6" y1="6" x2="18" y2="18" />
+                </svg>
+              </button>
+            </div>
+
+            <form className="units-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="units-alert units-alert--error">{formError}</div>}
+              <label className="units-field">
+                <span>Name</span>
+                <input
+                  type="text"
+                  {...nameRegister}
+                  ref={(node) => {
+                    nameRegister.ref(node);
+                    modalFirstInputRef.current = node;
+                  }}
+                  className={errors.name ? "units-input units-input--error" : "units-input"}
+                  placeholder="e.g., Small 2×2"
+                />
+                {errors.name && <span className="units-error">{errors.name.message}</span>}
+              </label>
+
+              <div className="unit-types-row">
+                {DIMENSION_FIELDS.map((field) => (
+                  <label key={field.name} className="units-field">
+                    <span>{field.label}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      {...register(field.name, { validate: positiveNumber })}
+                      className={
+                        errors[field.name] ? "units-input units-input--error" : "units-input"
+                      }
+                    />
+                    {errors[field.name] && (
+                      <span className="units-error">{errors[field.name]?.message}</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              <div className="unit-types-computed">
+                <span>
+                  Area <strong>{formatArea(previewArea)}</strong>
+                </span>
+                <span>
+                  Volume <strong>{formatVolume(previewVolume)}</strong>
+                </span>
+              </div>
+
+              <div className="unit-types-row">
+                {PRICE_FIELDS.map((field) => (
+                  <label key={field.name} className="units-field">
+                    <span>{field.label}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      {...register(field.name, { validate: positiveNumber })}
+                      className={
+                        errors[field.name] ? "units-input units-input--error" : "units-input"
+                      }
+                    />
+                    {errors[field.name] && (
+                      <span className="units-error">{errors[field.name]?.message}</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              <div className="units-form__actions">
+                <button type="button" className="units-button" onClick={closeModal}>
+                  Cancel
+                </button>
+                <button type="submit" className="units-primary" disabled={isSaving}>
+                  {isSaving
+                    ? "Saving..."
+                    : editingUnitType
+                      ? "Update unit type"
+                      : "Create unit type"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {deletingUnitType && (
+        <div
+          className="units-modal"
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="unit-types-delete-title"
+        >
+          <div className="units-modal__overlay" onClick={closeDeleteModal} />
+          <div className="units-modal__panel">
+            <div className="units-modal__header">
+              <h2 id="unit-types-delete-title">Delete unit type</h2>
+            </div>
+            {deletingUnitCount > 0 ? (
+              <p className="unit-types-delete-text">
+                <strong>{deletingUnitType.name}</strong> is used by {deletingUnitCount}{" "}
+                {deletingUnitCount === 1 ? "unit" : "units"}. Move or delete those units before
+                deleting the type.
+              </p>
+            ) : (
+              <p className="unit-types-delete-text">
+                No units use <strong>{deletingUnitType.name}</strong>. Delete it?
+              </p>
+            )}
+            <div className="units-form__actions">
+              <button type="button" className="units-button" onClick={closeDeleteModal}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="units-button units-button--danger"
+                onClick={handleDelete}
+                disabled={isDeleting || deletingUnitCount > 0}
+              >
+                {isDeleting ? "Deleting..." : "Delete"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
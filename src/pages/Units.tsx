@@ -1,10 +1,31 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
-import axios from "axios";
 import { useForm } from "react-hook-form";
-import { unitsApi, unitTypesApi } from "@/api/units";
+import { useQueryClient } from "@tanstack/react-query";
+import { unitsApi } from "@/api/units";
 import type { UnitRecord, UnitPayload, UnitStatus, UnitType } from "@/api/units";
+import { getStatusTransitionError, requiresStatusReason } from "@/entities/unit/lib/status";
 import { useFacility } from "@/contexts/FacilityContext";
+import { useActiveUnitContracts } from "@/features/contracts/queries";
+import { UNIT_CSV_FIELDS, unitsToCsvRows, validateUnitRows } from "@/features/units/csv";
+import {
+  unitKeys,
+  useCreateUnit,
+  useDeleteUnit,
+  useUnits,
+  useUnitTypes,
+  useUpdateUnit
+} from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { csvFilename, downloadCsv } from "@/shared/lib/csv";
+import type { CsvMappedRow } from "@/shared/lib/csvImport";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
+import CsvImportWizard from "@/widgets/csvImport/ui/CsvImportWizard";
+import BulkUnitGenerator from "@/widgets/units/ui/BulkUnitGenerator";
+import UnitFloorMap from "@/widgets/units/ui/UnitFloorMap";
+import UnitStatusHistory from "@/widgets/units/ui/UnitStatusHistory";
 import "@/pages/Units.css";
 
 const STATUS_OPTIONS: { value: UnitStatus; label: string }[] = [
@@ -20,37 +41,60 @@ type UnitFormValues = {
   unit_number: string;
   status: UnitStatus;
   reservation_expires_at: string;
+  status_reason: string;
 };
 
 const DEFAULT_FORM_VALUES: UnitFormValues = {
   unit_type: "",
   unit_number: "",
   status: "LIVRE",
-  reservation_expires_at: ""
+  reservation_expires_at: "",
+  status_reason: ""
 };
 
+type ViewMode = "table" | "map";
+
+const EMPTY_UNITS: UnitRecord[] = [];
+const EMPTY_UNIT_TYPES: UnitType[] = [];
+
 export default function UnitsPage() {
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("units.add_unit");
+  const canChange = hasPermission("units.change_unit");
+  const canDelete = hasPermission("units.delete_unit");
+  const queryClient = useQueryClient();
   const { selectedFacilityId } = useFacility();
-  const [units, setUnits] = useState<UnitRecord[]>([]);
-  const [unitTypes, setUnitTypes] = useState<UnitType[]>([]);
+  const unitsQuery = useUnits();
+  const unitTypesQuery = useUnitTypes();
+  const createUnit = useCreateUnit();
+  const updateUnit = useUpdateUnit();
+  const deleteUnit = useDeleteUnit();
+  const units = unitsQuery.data ?? EMPTY_UNITS;
+  const unitTypes = unitTypesQuery.data ?? EMPTY_UNIT_TYPES;
+  const isLoading = unitsQuery.isLoading || unitTypesQuery.isLoading;
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
+  const [viewMode, setViewMode] = useState<ViewMode>("table");
+  const [isBulkOpen, setIsBulkOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUnit, setEditingUnit] = useState<UnitRecord | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
   const modalPanelRef = useRef<HTMLDivElement | null>(null);
   const modalFirstInputRef = useRef<HTMLSelectElement | null>(null);
+  const unitContractsQuery = useActiveUnitContracts(
+    isModalOpen && editingUnit ? editingUnit.id : null
+  );
 
   const {
     register,
     handleSubmit,
     reset,
     watch,
+    setError,
     formState: { errors }
   } = useForm<UnitFormValues>({
     defaultValues: DEFAULT_FORM_VALUES
@@ -61,6 +105,19 @@ export default function UnitsPage() {
 
   const watchedStatus = watch("status");
 
+  // New units can start in any status; existing ones follow the transition map.
+  const getTransitionError = (status: UnitStatus): string | null =>
+    editingUnit
+      ? getStatusTransitionError(editingUnit.status, status, {
+          hasActiveContract: unitContractsQuery.isSuccess
+            ? unitContractsQuery.data.length > 0
+            : null
+        })
+      : null;
+
+  const needsStatusReason =
+    requiresStatusReason(watchedStatus) && watchedStatus !== editingUnit?.status;
+
   const unitTypeMap = useMemo(() => new Map(unitTypes.map((ut) => [ut.id, ut.name])), [unitTypes]);
 
   const filteredUnits = useMemo(() => {
@@ -90,6 +147,11 @@ export default function UnitsPage() {
     });
   }, [searchTerm, statusFilter, unitTypeMap, units]);
 
+  const filteredUnitIds = useMemo(
+    () => new Set(filteredUnits.map((unit) => unit.id)),
+    [filteredUnits]
+  );
+
   // Calculate stats
   const stats = useMemo(() => {
     const statusCounts = units.reduce<Record<UnitStatus, number>>(
@@ -107,37 +169,11 @@ export default function UnitsPage() {
     };
   }, [units]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [unitList, typeList] = await Promise.all([unitsApi.list(), unitTypesApi.list()]);
-
-        if (isMounted) {
-          setUnits(unitList);
-          setUnitTypes(typeList);
-        }
-      } catch {
-        if (isMounted) {
-          setLoadError("Unable to load units. Please try again.");
-        }
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [selectedFacilityId]);
+  const loadError =
+    actionError ??
+    (unitsQuery.isError || unitTypesQuery.isError
+      ? "Unable to load units. Please try again."
+      : null);
 
   const openCreateModal = () => {
     setEditingUnit(null);
@@ -154,12 +190,37 @@ export default function UnitsPage() {
       status: unit.status,
       reservation_expires_at: unit.reservation_expires_at
         ? unit.reservation_expires_at.slice(0, 16)
-        : ""
+        : "",
+      status_reason: ""
     });
     setFormError(null);
     setIsModalOpen(true);
   };
 
+  // Without change permission the modal only shows the unit, e.g. when opened from the map.
+  const isReadOnly = editingUnit !== null && !canChange;
+
+  const closeBulkGenerator = useCallback(() => setIsBulkOpen(false), []);
+  const closeImport = useCallback(() => setIsImportOpen(false), []);
+
+  const validateImportRows = useCallback(
+    (rows: CsvMappedRow[]) =>
+      validateUnitRows(rows, {
+        unitTypes,
+        existingUnitNumbers: units.map((unit) => unit.unit_number)
+      }),
+    [unitTypes, units]
+  );
+
+  const handleUnitsImported = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) }),
+    [queryClient, selectedFacilityId]
+  );
+
+  const exportUnits = () => {
+    downloadCsv(csvFilename("units"), unitsToCsvRows(filteredUnits, unitTypes));
+  };
+
   const closeModal = useCallback(() => {
     setIsModalOpen(false);
     setEditingUnit(null);
@@ -186,16 +247,14 @@ export default function UnitsPage() {
     };
   }, [closeModal, isModalOpen]);
 
-  const refreshList = async () => {
-    const list = await unitsApi.list();
-    setUnits(list);
-  };
-
   const onSubmit = async (values: UnitFormValues) => {
+    if (isReadOnly) {
+      return;
+    }
     setFormError(null);
-    setPageSuccess(null);
     setIsSaving(true);
 
+    const statusChanged = !editingUnit || editingUnit.status !== values.status;
     const payload: UnitPayload = {
       unit_type: Number(values.unit_type),
       unit_number: values.unit_number,
@@ -203,7 +262,8 @@ export default function UnitsPage() {
       reservation_expires_at:
         values.status === "RESERVADA" && values.reservation_expires_at
           ? values.reservation_expires_at
-          : null
+          : null,
+      ...(statusChanged && { status_reason: values.status_reason.trim() || null })
     };
 
     try {
@@ -212,17 +272,24 @@ export default function UnitsPage() {
         : "Unit created successfully.";
 
       if (editingUnit) {
-        await unitsApi.update(editingUnit.id, payload);
+        await updateUnit.mutateAsync({ id: editingUnit.id, data: payload });
       } else {
-        await unitsApi.create(payload);
+        await createUnit.mutateAsync(payload);
       }
 
-      await refreshList();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        setFormError("Unable to save unit. Please check the form and try again.");
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["unit_type", "unit_number", "status", "status_reason"])
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setFormError("Unable to save unit. Please check the form and try again.");
+        }
       } else {
         setFormError("Unexpected error while saving unit.");
       }
@@ -246,14 +313,15 @@ export default function UnitsPage() {
         next.add(unit.id);
         return next;
       });
-      await unitsApi.delete(unit.id);
-      await refreshList();
+      setActionError(null);
+      await deleteUnit.mutateAsync(unit.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshList();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
-      setLoadError("Unable to delete unit. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete unit. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -287,24 +355,33 @@ export default function UnitsPage() {
           </div>
           <p className="units-subtitle">Manage storage units for the current facility.</p>
         </div>
-        <button type="button" className="units-primary" onClick={openCreateModal}>
-          <svg
-            width="18"
-            height="18"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2.5"
-          >
-            <line x1="12" y1="5" x2="12" y2="19" />
-            <line x1="5" y1="12" x2="19" y2="12" />
-          </svg>
-          Add unit
-        </button>
+        {canAdd && (
+          <div className="units-header__actions">
+            <button type="button" className="units-secondary" onClick={() => setIsImportOpen(true)}>
+              Import CSV
+            </button>
+            <button type="button" className="units-secondary" onClick={() => setIsBulkOpen(true)}>
+              Generate units
+            </button>
+            <button type="button" className="units-primary" onClick={openCreateModal}>
+              <svg
+                width="18"
+                height="18"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+              >
+                <line x1="12" y1="5" x2="12" y2="19" />
+                <line x1="5" y1="12" x2="19" y2="12" />
+              </svg>
+              Add unit
+            </button>
+          </div>
+        )}
       </header>
 
       {loadError && <div className="units-alert units-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="units-alert units-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="units-loading">
@@ -405,6 +482,24 @@ export default function UnitsPage() {
             <div className="units-table-toolbar">
               <span className="units-table-title">Units</span>
               <div className="units-table-actions">
+                <div className="units-view-toggle" role="group" aria-label="View mode">
+                  <button
+                    type="button"
+                    className={`units-view-toggle__option ${viewMode === "table" ? "units-view-toggle__option--active" : ""}`}
+                    onClick={() => setViewMode("table")}
+                    aria-pressed={viewMode === "table"}
+                  >
+                    Table
+                  </button>
+                  <button
+                    type="button"
+                    className={`units-view-toggle__option ${viewMode === "map" ? "units-view-toggle__option--active" : ""}`}
+                    onClick={() => setViewMode("map")}
+                    aria-pressed={viewMode === "map"}
+                  >
+                    Map
+                  </button>
+                </div>
                 <select
                   className="units-table-filter"
                   value={statusFilter}
@@ -430,77 +525,103 @@ export default function UnitsPage() {
                     aria-label="Search units"
                   />
                 </label>
+                <button
+                  type="button"
+                  className="units-table-export"
+                  onClick={exportUnits}
+                  disabled={filteredUnits.length === 0}
+                >
+                  Export CSV
+                </button>
               </div>
             </div>
-            <table className="units-table">
-              <thead>
-                <tr>
-                  <th>Unit</th>
-                  <th>Type</th>
-                  <th>Status</th>
-                  <th>Expires</th>
-                  <th>Action</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredUnits.map((unit) => (
-                  <tr key={unit.id}>
-                    <td>
-                      <strong>{unit.unit_number}</strong>
-                    </td>
-                    <td>{unitTypeMap.get(unit.unit_type) ?? unit.unit_type ?? "-"}</td>
-                    <td>
-                      <span className={`units-status units-status--${unit.status.toLowerCase()}`}>
-                        <span className="units-status-dot" />
-                        {unit.status === "LIVRE" && "Livre"}
-                        {unit.status === "OCUPADA" && "Ocupada"}
-                        {unit.status === "RESERVADA" && "Reservada"}
-                        {unit.status === "BLOQUEADA" && "Bloqueada"}
-                        {unit.status === "EM_VISTORIA" && "Em Vistoria"}
-                      </span>
-                    </td>
-                    <td>
-                      {unit.reservation_expires_at
-                        ? new Date(unit.reservation_expires_at).toLocaleDateString()
-                        : "-"}
-                    </td>
-                    <td>
-                      <div className="units-actions">
-                        <button
-                          type="button"
-                          className="units-icon-button"
-                          onClick={() => openEditModal(unit)}
-                          aria-label="Edit unit"
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          className="units-icon-button units-icon-button--danger"
-                          onClick={() => handleDelete(unit)}
-                          disabled={deletingIds.has(unit.id)}
-                          aria-label="Delete unit"
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <polyline points="3 6 5 6 21 6" />
-                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                          </svg>
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-            <div className="units-table-footer">
-              Showing {filteredUnits.length === 0 ? 0 : 1} to {filteredUnits.length} of{" "}
-              {units.length} entries
-            </div>
+            {viewMode === "map" ? (
+              <UnitFloorMap
+                units={units}
+                unitTypes={unitTypes}
+                highlightedIds={filteredUnitIds}
+                canEditLayout={canChange}
+                onOpenUnit={openEditModal}
+              />
+            ) : (
+              <>
+                <table className="units-table">
+                  <thead>
+                    <tr>
+                      <th>Unit</th>
+                      <th>Type</th>
+                      <th>Status</th>
+                      <th>Expires</th>
+                      <th>Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredUnits.map((unit) => (
+                      <tr key={unit.id}>
+                        <td>
+                          <strong>{unit.unit_number}</strong>
+                        </td>
+                        <td>{unitTypeMap.get(unit.unit_type) ?? unit.unit_type ?? "-"}</td>
+                        <td>
+                          <span
+                            className={`units-status units-status--${unit.status.toLowerCase()}`}
+                          >
+                            <span className="units-status-dot" />
+                            {unit.status === "LIVRE" && "Livre"}
+                            {unit.status === "OCUPADA" && "Ocupada"}
+                            {unit.status === "RESERVADA" && "Reservada"}
+                            {unit.status === "BLOQUEADA" && "Bloqueada"}
+                            {unit.status === "EM_VISTORIA" && "Em Vistoria"}
+                          </span>
+                        </td>
+                        <td>
+                          {unit.reservation_expires_at
+                            ? new Date(unit.reservation_expires_at).toLocaleDateString()
+                            : "-"}
+                        </td>
+                        <td>
+                          <div className="units-actions">
+                            {canChange && (
+                              <button
+                                type="button"
+                                className="units-icon-button"
+                                onClick={() => openEditModal(unit)}
+                                aria-label="Edit unit"
+                                title="Edit"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                                </svg>
+                              </button>
+                            )}
+                            {canDelete && (
+                              <button
+                                type="button"
+                                className="units-icon-button units-icon-button--danger"
+                                onClick={() => handleDelete(unit)}
+                                disabled={deletingIds.has(unit.id)}
+                                aria-label="Delete unit"
+                                title="Delete"
+                              >
+                                <svg viewBox="0 0 24 24" aria-hidden="true">
+                                  <polyline points="3 6 5 6 21 6" />
+                                  <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                                  <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                                </svg>
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="units-table-footer">
+                  Showing {filteredUnits.length === 0 ? 0 : 1} to {filteredUnits.length} of{" "}
+                  {units.length} entries
+                </div>
+              </>
+            )}
           </div>
         </>
       )}
@@ -515,7 +636,9 @@ export default function UnitsPage() {
           <div className="units-modal__overlay" onClick={closeModal} />
           <div className="units-modal__panel" ref={modalPanelRef}>
             <div className="units-modal__header">
-              <h2 id="units-modal-title">{editingUnit ? "Edit unit" : "Add unit"}</h2>
+              <h2 id="units-modal-title">
+                {isReadOnly ? "Unit details" : editingUnit ? "Edit unit" : "Add unit"}
+              </h2>
               <button type="button" className="units-modal__close" onClick={closeModal}>
                 <svg
                   width="20"
@@ -532,10 +655,12 @@ export default function UnitsPage() {
             </div>
 
             <form className="units-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="units-alert units-alert--error">{formError}</div>}
               <label className="units-field">
                 <span>Unit Type</span>
                 <select
                   {...unitTypeRegister}
+                  disabled={isReadOnly}
                   className={errors.unit_type ? "units-input units-input--error" : "units-input"}
                   ref={(node) => {
                     unitTypeRegister.ref(node);
@@ -559,6 +684,7 @@ export default function UnitsPage() {
                 <input
                   type="text"
                   {...unitNumberRegister}
+                  disabled={isReadOnly}
                   className={errors.unit_number ? "units-input units-input--error" : "units-input"}
                   placeholder="e.g., A-101"
                 />
@@ -569,15 +695,49 @@ export default function UnitsPage() {
 
               <label className="units-field">
                 <span>Status</span>
-                <select {...register("status")} className="units-input">
+                <select
+                  {...register("status", {
+                    validate: (value) => getTransitionError(value) ?? true
+                  })}
+                  className={errors.status ? "units-input units-input--error" : "units-input"}
+                  disabled={isReadOnly}
+                >
                   {STATUS_OPTIONS.map((opt) => (
-                    <option key={opt.value} value={opt.value}>
+                    <option
+                      key={opt.value}
+                      value={opt.value}
+                      disabled={getTransitionError(opt.value) !== null}
+                      title={getTransitionError(opt.value) ?? undefined}
+                    >
                       {opt.label}
                     </option>
                   ))}
                 </select>
+                {errors.status && <span className="units-error">{errors.status.message}</span>}
               </label>
 
+              {needsStatusReason && !isReadOnly && (
+                <label className="units-field">
+                  <span>Reason</span>
+                  <textarea
+                    rows={3}
+                    {...register("status_reason", {
+                      validate: (value) =>
+                        !needsStatusReason ||
+                        value.trim() !== "" ||
+                        "A reason is required for this status."
+                    })}
+                    className={
+                      errors.status_reason ? "units-input units-input--error" : "units-input"
+                    }
+                    placeholder="e.g., Door damaged, waiting for repair"
+                  />
+                  {errors.status_reason && (
+                    <span className="units-error">{errors.status_reason.message}</span>
+                  )}
+                </label>
+              )}
+
               {watchedStatus === "RESERVADA" && (
                 <label className="units-field">
                   <span>Reservation Expires At</span>
@@ -585,24 +745,43 @@ export default function UnitsPage() {
                     type="datetime-local"
                     {...register("reservation_expires_at")}
                     className="units-input"
+                    disabled={isReadOnly}
                   />
                 </label>
               )}
 
-              {formError && <div className="units-alert units-alert--error">{formError}</div>}
-
               <div className="units-form__actions">
                 <button type="button" className="units-button" onClick={closeModal}>
-                  Cancel
-                </button>
-                <button type="submit" className="units-primary" disabled={isSaving}>
-                  {isSaving ? "Saving..." : editingUnit ? "Update unit" : "Create unit"}
+                  {isReadOnly ? "Close" : "Cancel"}
                 </button>
+                {!isReadOnly && (
+                  <button type="submit" className="units-primary" disabled={isSaving}>
+                    {isSaving ? "Saving..." : editingUnit ? "Update unit" : "Create unit"}
+                  </button>
+                )}
               </div>
             </form>
+
+            {editingUnit && <UnitStatusHistory unitId={editingUnit.id} />}
           </div>
         </div>
       )}
+
+      {isBulkOpen && (
+        <BulkUnitGenerator units={units} unitTypes={unitTypes} onClose={closeBulkGenerator} />
+      )}
+
+      {isImportOpen && (
+        <CsvImportWizard
+          title="Import units"
+          entityName="units"
+          fields={UNIT_CSV_FIELDS}
+          validate={validateImportRows}
+          importRow={unitsApi.create}
+          onImported={handleUnitsImported}
+          onClose={closeImport}
+        />
+      )}
     </main>
   );
 }
@@ -1,37 +1,22 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import axios from "axios";
 import { useForm } from "react-hook-form";
-import { apiClient } from "@/api/client";
 import Breadcrumb from "@/components/Breadcrumb";
+import type { UserAccount, UserFacility, UserProfile, UserProfilePayload } from "@/api/users";
+import { useFacilities } from "@/features/facilities/queries";
+import { useCreateUser, useDeleteUser, useUpdateUser, useUsers } from "@/features/users/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  ASSIGNABLE_ROLES,
+  ROLES,
+  getFacilityRuleMessage,
+  getRoleDefinition,
+  getRoleLabel
+} from "@/shared/auth";
 import "@/pages/Users.css";
 
-const ROLE_OPTIONS = [
-  { value: "ADMIN", label: "Admin" },
-  { value: "MANAGER", label: "Manager" },
-  { value: "OPERATOR", label: "Operator" },
-  { value: "ATTENDANCE", label: "Attendance" },
-  { value: "FINANCIAL", label: "Financial" }
-];
-
-type FacilityOption = {
-  id: number;
-  name: string;
-};
-
-type UserOption = {
-  id: number;
-  email: string;
-};
-
-type UserProfile = {
-  id: number;
-  user?: UserOption | number | null;
-  user_id?: number | null;
-  user_email?: string | null;
-  role?: string | null;
-  facilities?: Array<FacilityOption | number> | null;
-};
-
 type UserFormValues = {
   userId: string;
   role: string;
@@ -44,24 +29,12 @@ const DEFAULT_FORM_VALUES: UserFormValues = {
   facilityIds: []
 };
 
-function normalizeList<T>(payload: unknown): T[] {
-  if (Array.isArray(payload)) {
-    return payload as T[];
-  }
+const EMPTY_PROFILES: UserProfile[] = [];
+const EMPTY_FACILITIES: UserFacility[] = [];
 
-  if (payload && typeof payload === "object" && "results" in payload) {
-    const results = (payload as { results?: T[] }).results;
-    if (Array.isArray(results)) {
-      return results;
-    }
-  }
-
-  return [];
-}
-
-function normalizeUser(profile: UserProfile): UserOption | null {
+function normalizeUser(profile: UserProfile): UserAccount | null {
   if (profile.user && typeof profile.user === "object") {
-    const user = profile.user as UserOption;
+    const user = profile.user as UserAccount;
     if (user.id && user.email) {
       return user;
     }
@@ -77,12 +50,12 @@ function normalizeUser(profile: UserProfile): UserOption | null {
   return null;
 }
 
-function normalizeFacilityId(facility: FacilityOption | number): string {
+function normalizeFacilityId(facility: UserFacility | number): string {
   return typeof facility === "number" ? String(facility) : String(facility.id);
 }
 
 function normalizeFacilityName(
-  facility: FacilityOption | number,
+  facility: UserFacility | number,
   facilityMap: Map<string, string>
 ): string {
   if (typeof facility === "number") {
@@ -92,39 +65,29 @@ function normalizeFacilityName(
   return facility.name ?? facilityMap.get(String(facility.id)) ?? String(facility.id);
 }
 
-function getFacilityValidationMessage(role: string, facilityIds: string[]): string | null {
-  if (!role) {
-    return null;
-  }
-
-  const count = facilityIds.length;
-
-  if (["OPERATOR", "ATTENDANCE", "FINANCIAL"].includes(role)) {
-    return count === 1 ? null : "This role requires exactly 1 facility.";
-  }
-
-  if (role === "MANAGER") {
-    return count >= 1 ? null : "This role requires at least 1 facility.";
-  }
-
-  if (role === "ADMIN") {
-    return count === 0 ? null : "Admins should not be assigned to facilities.";
-  }
-
-  return null;
+// Profiles may carry either role vocabulary; the form always works with server codes.
+function toRoleCode(role: string | null | undefined): string {
+  return getRoleDefinition(role)?.code ?? role ?? "";
 }
 
 export default function UsersPage() {
-  const [profiles, setProfiles] = useState<UserProfile[]>([]);
-  const [facilities, setFacilities] = useState<FacilityOption[]>([]);
-  const [userOptions, setUserOptions] = useState<UserOption[]>([]);
+  const { hasPermission } = usePermissions();
+  const canAdd = hasPermission("users.add_userprofile");
+  const canChange = hasPermission("users.change_userprofile");
+  const canDelete = hasPermission("users.delete_userprofile");
+  const usersQuery = useUsers();
+  const facilitiesQuery = useFacilities();
+  const createUser = useCreateUser();
+  const updateUser = useUpdateUser();
+  const deleteUser = useDeleteUser();
+  const profiles = usersQuery.data ?? EMPTY_PROFILES;
+  const facilities = facilitiesQuery.data ?? EMPTY_FACILITIES;
+  const isLoading = usersQuery.isLoading || facilitiesQuery.isLoading;
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
-  const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
-  const [pageSuccess, setPageSuccess] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProfile, setEditingProfile] = useState<UserProfile | null>(null);
   const [deletingIds, setDeletingIds] = useState<Set<number>>(new Set());
@@ -147,21 +110,29 @@ export default function UsersPage() {
   const userIdRegister = register("userId");
   const selectedRole = watch("role");
   const selectedFacilities = watch("facilityIds");
+  const takesNoFacilities = getRoleDefinition(selectedRole)?.facilityRule === "none";
   const facilityMap = useMemo(
     () => new Map(facilities.map((facility) => [String(facility.id), facility.name])),
     [facilities]
   );
 
-  const roleLabelMap = useMemo(() => {
-    return new Map(ROLE_OPTIONS.map((role) => [role.value, role.label]));
-  }, []);
+  const userOptions = useMemo(() => {
+    const userMap = new Map<number, UserAccount>();
+    profiles.forEach((profile) => {
+      const user = normalizeUser(profile);
+      if (user) {
+        userMap.set(user.id, user);
+      }
+    });
+    return Array.from(userMap.values());
+  }, [profiles]);
 
   const filteredProfiles = useMemo(() => {
     const normalizedQuery = searchTerm.trim().toLowerCase();
 
     return profiles.filter((profile) => {
-      const role = profile.role ?? "";
-      const roleLabel = roleLabelMap.get(role) ?? role;
+      const role = toRoleCode(profile.role);
+      const roleLabel = getRoleLabel(profile.role);
       const user = normalizeUser(profile);
       const facilitiesLabel = (profile.facilities ?? [])
         .map((facility) => normalizeFacilityName(facility, facilityMap))
@@ -176,16 +147,16 @@ export default function UsersPage() {
       const searchable = [user?.email ?? "", roleLabel, facilitiesLabel].join(" ").toLowerCase();
       return matchesStatus && searchable.includes(normalizedQuery);
     });
-  }, [facilityMap, profiles, roleLabelMap, searchTerm, statusFilter]);
+  }, [facilityMap, profiles, searchTerm, statusFilter]);
 
   useEffect(() => {
-    if (selectedRole === "ADMIN" && selectedFacilities.length > 0) {
+    if (takesNoFacilities && selectedFacilities.length > 0) {
       setValue("facilityIds", []);
     }
-  }, [selectedRole, selectedFacilities, setValue]);
+  }, [takesNoFacilities, selectedFacilities, setValue]);
 
   useEffect(() => {
-    const validationMessage = getFacilityValidationMessage(selectedRole, selectedFacilities);
+    const validationMessage = getFacilityRuleMessage(selectedRole, selectedFacilities.length);
     if (validationMessage) {
       setError("facilityIds", { type: "validate", message: validationMessage });
     } else {
@@ -193,57 +164,11 @@ export default function UsersPage() {
     }
   }, [selectedRole, selectedFacilities, setError, clearErrors]);
 
-  useEffect(() => {
-    let isMounted = true;
-
-    async function loadData() {
-      setIsLoading(true);
-      setLoadError(null);
-
-      try {
-        const [profilesResponse, facilitiesResponse] = await Promise.all([
-          apiClient.get("/api/v1/users/"),
-          apiClient.get("/api/v1/organizations/facilities/")
-        ]);
-
-        if (!isMounted) {
-          return;
-        }
-
-        const profileList = normalizeList<UserProfile>(profilesResponse.data);
-        const facilityList = normalizeList<FacilityOption>(facilitiesResponse.data);
-        setProfiles(profileList);
-        setFacilities(facilityList);
-
-        const userMap = new Map<number, UserOption>();
-
-        profileList.forEach((profile) => {
-          const user = normalizeUser(profile);
-          if (user) {
-            userMap.set(user.id, user);
-          }
-        });
-
-        setUserOptions(Array.from(userMap.values()));
-      } catch (error) {
-        if (!isMounted) {
-          return;
-        }
-
-        setLoadError("Unable to load users. Please try again.");
-      } finally {
-        if (isMounted) {
-          setIsLoading(false);
-        }
-      }
-    }
-
-    loadData();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+  const loadError =
+    actionError ??
+    (usersQuery.isError || facilitiesQuery.isError
+      ? "Unable to load users. Please try again."
+      : null);
 
   const openCreateModal = () => {
     setEditingProfile(null);
@@ -259,7 +184,7 @@ export default function UsersPage() {
     setEditingProfile(profile);
     reset({
       userId: user?.id ? String(user.id) : "",
-      role: profile.role ?? "",
+      role: toRoleCode(profile.role),
       facilityIds
     });
     setFormError(null);
@@ -339,27 +264,10 @@ export default function UsersPage() {
     };
   }, [closeModal, isModalOpen]);
 
-  const refreshProfiles = async () => {
-    const response = await apiClient.get("/api/v1/users/");
-    const profileList = normalizeList<UserProfile>(response.data);
-    setProfiles(profileList);
-
-    const userMap = new Map<number, UserOption>();
-    profileList.forEach((profile) => {
-      const user = normalizeUser(profile);
-      if (user) {
-        userMap.set(user.id, user);
-      }
-    });
-
-    setUserOptions(Array.from(userMap.values()));
-  };
-
   const onSubmit = async (values: UserFormValues) => {
     setFormError(null);
-    setPageSuccess(null);
 
-    const validationMessage = getFacilityValidationMessage(values.role, values.facilityIds);
+    const validationMessage = getFacilityRuleMessage(values.role, values.facilityIds.length);
     if (validationMessage) {
       setError("facilityIds", { type: "validate", message: validationMessage });
       return;
@@ -379,7 +287,7 @@ export default function UsersPage() {
       return;
     }
 
-    const payload = {
+    const payload: UserProfilePayload = {
       user: resolvedUserId,
       role: values.role,
       facilities: values.facilityIds
@@ -393,17 +301,26 @@ export default function UsersPage() {
         : "User created successfully.";
 
       if (editingProfile) {
-        await apiClient.put(`/api/v1/users/${editingProfile.id}/`, payload);
+        await updateUser.mutateAsync({ id: editingProfile.id, data: payload });
       } else {
-        await apiClient.post("/api/v1/users/", payload);
+        await createUser.mutateAsync(payload);
       }
 
-      await refreshProfiles();
-      setPageSuccess(successMessage);
+      notify.success(successMessage);
       closeModal();
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        setFormError("Unable to save user. Please check the form and try again.");
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["userId", "role", "facilityIds"], {
+          fieldMap: { user: "userId", facilities: "facilityIds" }
+        })
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error)) {
+        if (!notifyHttpError(error)) {
+          setFormError("Unable to save user. Please check the form and try again.");
+        }
       } else {
         setFormError("Unexpected error while saving user.");
       }
@@ -424,21 +341,23 @@ export default function UsersPage() {
       return;
     }
 
+    setActionError(null);
+
     try {
       setDeletingIds((prev) => {
         const next = new Set(prev);
         next.add(profile.id);
         return next;
       });
-      await apiClient.delete(`/api/v1/users/${profile.id}/`);
-      await refreshProfiles();
+      await deleteUser.mutateAsync(profile.id);
     } catch (error) {
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        await refreshProfiles();
+      if (isHttpError(error) && error.status === 404) {
         return;
       }
 
-      setLoadError("Unable to delete user. Please try again.");
+      if (!notifyHttpError(error)) {
+        setActionError("Unable to delete user. Please try again.");
+      }
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -455,13 +374,14 @@ export default function UsersPage() {
           <Breadcrumb items={[{ label: "Usuários" }]} />
           <p className="users-subtitle">Manage roles and facility access for your team.</p>
         </div>
-        <button type="button" className="users-primary" onClick={openCreateModal}>
-          Add user
-        </button>
+        {canAdd && (
+          <button type="button" className="users-primary" onClick={openCreateModal}>
+            Add user
+          </button>
+        )}
       </header>
 
       {loadError && <div className="users-alert users-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="users-alert users-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="users-empty">Loading users...</div>
@@ -478,8 +398,8 @@ export default function UsersPage() {
                 onChange={(event) => setStatusFilter(event.target.value)}
               >
                 <option value="">All status</option>
-                {ROLE_OPTIONS.map((roleOption) => (
-                  <option key={roleOption.value} value={roleOption.value}>
+                {ROLES.map((roleOption) => (
+                  <option key={roleOption.code} value={roleOption.code}>
                     {roleOption.label}
                   </option>
                 ))}
@@ -514,7 +434,7 @@ export default function UsersPage() {
                 const facilitiesLabel = (profile.facilities ?? [])
                   .map((facility) => normalizeFacilityName(facility, facilityMap))
                   .join(", ");
-                const roleLabel = roleLabelMap.get(profile.role ?? "") ?? profile.role ?? "";
+                const roleLabel = getRoleLabel(profile.role);
 
                 return (
                   <tr key={profile.id}>
@@ -523,31 +443,35 @@ export default function UsersPage() {
                     <td>{facilitiesLabel || "-"}</td>
                     <td>
                       <div className="users-actions">
-                        <button
-                          type="button"
-                          className="users-icon-button"
-                          onClick={() => openEditModal(profile)}
-                          aria-label="Edit user"
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
-                          </svg>
-                        </button>
-                        <button
-                          type="button"
-                          className="users-icon-button users-icon-button--danger"
-                          onClick={() => handleDelete(profile)}
-                          disabled={deletingIds.has(profile.id)}
-                          aria-label="Delete user"
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" aria-hidden="true">
-                            <polyline points="3 6 5 6 21 6" />
-                            <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
-                            <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
-                          </svg>
-                        </button>
+                        {canChange && (
+                          <button
+                            type="button"
+                            className="users-icon-button"
+                            onClick={() => openEditModal(profile)}
+                            aria-label="Edit user"
+                            title="Edit"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <path d="M3 21h6l12-12a2.1 2.1 0 0 0-3-3L6 18l-3 3z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            type="button"
+                            className="users-icon-button users-icon-button--danger"
+                            onClick={() => handleDelete(profile)}
+                            disabled={deletingIds.has(profile.id)}
+                            aria-label="Delete user"
+                            title="Delete"
+                          >
+                            <svg viewBox="0 0 24 24" aria-hidden="true">
+                              <polyline points="3 6 5 6 21 6" />
+                              <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+                              <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -582,6 +506,7 @@ export default function UsersPage() {
             </div>
 
             <form className="users-form" onSubmit={handleSubmit(onSubmit)}>
+              {formError && <div className="users-alert users-alert--error">{formError}</div>}
               <label className="users-field">
                 <span>User</span>
                 <select
@@ -613,8 +538,8 @@ export default function UsersPage() {
                   className={errors.role ? "users-input users-input--error" : "users-input"}
                 >
                   <option value="">Select role</option>
-                  {ROLE_OPTIONS.map((role) => (
-                    <option key={role.value} value={role.value}>
+                  {ASSIGNABLE_ROLES.map((role) => (
+                    <option key={role.code} value={role.code}>
                       {role.label}
                     </option>
                   ))}
@@ -631,7 +556,7 @@ export default function UsersPage() {
                         type="checkbox"
                         value={facility.id}
                         {...register("facilityIds")}
-                        disabled={selectedRole === "ADMIN"}
+                        disabled={takesNoFacilities}
                       />
                       <span>{facility.name}</span>
                     </label>
@@ -640,13 +565,11 @@ export default function UsersPage() {
                 {errors.facilityIds && (
                   <span className="users-error">{errors.facilityIds.message}</span>
                 )}
-                {selectedRole === "ADMIN" && (
-                  <span className="users-help">Admins do not need facility assignments.</span>
+                {takesNoFacilities && (
+                  <span className="users-help">This role does not need facility assignments.</span>
                 )}
               </fieldset>
 
-              {formError && <div className="users-alert users-alert--error">{formError}</div>}
-
               <div className="users-form__actions">
                 <button type="button" className="users-button" onClick={closeModal}>
                   Cancel
@@ -2,11 +2,24 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useFacility } from "@/contexts/FacilityContext";
 import { usePermissions } from "@/hooks/usePermissions";
-import { invoiceAPI, invoiceItemsAPI } from "@/services/billing";
+import { invoiceAPI } from "@/services/billing";
+import {
+  useCreateInvoiceItem,
+  useDeleteInvoice,
+  useDeleteInvoiceItem,
+  useInvoice,
+  useInvoiceItems,
+  useRecordPayment,
+  useUpdateInvoice,
+  useUpdateInvoiceItem,
+  useVoidInvoice
+} from "@/features/billing/queries";
 import { STATUS_OPTIONS, STATUS_LABELS, PAYMENT_METHODS } from "@/pages/billing/billingConstants";
 import "@/pages/billing/InvoiceListPage.css";
 import "@/pages/billing/InvoiceDetailPage.css";
 import Breadcrumb from "@/components/Breadcrumb";
+import { notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
 
 const EMPTY_ITEM_FORM = { description: "", quantity: "1", unit_price: "" };
 
@@ -61,11 +74,7 @@ export default function InvoiceDetailPage() {
   const facilityId = selectedFacilityId;
   const invoiceId = invoiceParam;
 
-  const [invoice, setInvoice] = useState(null);
-  const [items, setItems] = useState([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadError, setLoadError] = useState(null);
-  const [pageSuccess, setPageSuccess] = useState(null);
+  const [actionError, setActionError] = useState(null);
 
   // Edit invoice modal
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -110,12 +119,34 @@ export default function InvoiceDetailPage() {
 
   const canView = hasPermission("billing.view_invoice");
   const canChange = hasPermission("billing.change_invoice");
+  const canVoid = hasPermission("billing.void_invoice");
   const canDelete = hasPermission("billing.delete_invoice");
   const canRecordPayment = hasPermission("billing.record_payment");
   const canAddItem = hasPermission("billing.add_invoiceitem");
   const canChangeItem = hasPermission("billing.change_invoiceitem");
   const canDeleteItem = hasPermission("billing.delete_invoiceitem");
 
+  const invoiceQuery = useInvoice(canView ? facilityId : null, invoiceId);
+  const invoice = invoiceQuery.data ?? null;
+  // Older API versions do not embed items in the invoice payload.
+  const itemsQuery = useInvoiceItems(
+    invoice && !Array.isArray(invoice.items) ? facilityId : null,
+    invoiceId
+  );
+  const items = (Array.isArray(invoice?.items) ? invoice.items : itemsQuery.data) ?? [];
+  const isLoading = invoiceQuery.isLoading || itemsQuery.isLoading;
+  const loadError =
+    actionError ??
+    (invoiceQuery.isError || itemsQuery.isError ? "Não foi possível carregar a fatura." : null);
+
+  const updateInvoice = useUpdateInvoice(facilityId);
+  const voidInvoice = useVoidInvoice(facilityId);
+  const deleteInvoice = useDeleteInvoice(facilityId);
+  const recordPayment = useRecordPayment(facilityId);
+  const createItem = useCreateInvoiceItem(facilityId, invoiceId);
+  const updateItem = useUpdateInvoiceItem(facilityId, invoiceId);
+  const deleteItem = useDeleteInvoiceItem(facilityId, invoiceId);
+
   const isFinalPaymentState =
     String(invoice?.status ?? "").toUpperCase() === "VOID" ||
     String(invoice?.status ?? "").toUpperCase() === "PAID";
@@ -132,30 +163,6 @@ export default function InvoiceDetailPage() {
     }));
   }, [items, invoice]);
 
-  const fetchInvoice = async () => {
-    if (!facilityId || !invoiceId || !canView) return;
-    setIsLoading(true);
-    setLoadError(null);
-    try {
-      const data = await invoiceAPI.get(facilityId, invoiceId);
-      setInvoice(data);
-      if (Array.isArray(data.items)) {
-        setItems(data.items);
-      } else {
-        const itemList = await invoiceItemsAPI.list(facilityId, invoiceId);
-        setItems(itemList);
-      }
-    } catch {
-      setLoadError("Não foi possível carregar a fatura.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchInvoice();
-  }, [facilityId, invoiceId, canView]);
-
   useEffect(() => {
     if (invoice && !paymentForm.amount) {
       const total = getTotal(invoice);
@@ -214,13 +221,13 @@ export default function InvoiceDetailPage() {
       };
       if (editForm.tenant) payload.tenant = Number(editForm.tenant);
       if (editForm.contract) payload.contract = Number(editForm.contract);
-      await invoiceAPI.update(facilityId, invoiceId, payload);
-      setPageSuccess("Fatura atualizada.");
+      await updateInvoice.mutateAsync({ invoiceId, payload });
+      notify.success("Fatura atualizada.");
       closeEdit();
-      await fetchInvoice();
     } catch (err) {
-      const msg = err?.response?.data
-        ? Object.values(err.response.data).flat().join(" ")
+      if (notifyHttpError(err)) return;
+      const msg = err?.body
+        ? Object.values(err.body).flat().join(" ")
         : "Erro ao atualizar fatura.";
       setEditError(msg);
     } finally {
@@ -251,16 +258,15 @@ export default function InvoiceDetailPage() {
 
   const handleVoidSubmit = async (e) => {
     e.preventDefault();
-    if (!facilityId || !invoiceId || !canChange || isVoiding) return;
+    if (!facilityId || !invoiceId || !canVoid || isVoiding) return;
     setIsVoiding(true);
-    setLoadError(null);
+    setActionError(null);
     try {
-      await invoiceAPI.voidInvoice(facilityId, invoiceId, { void_reason: voidReason });
-      setPageSuccess(`Fatura #${invoiceId} anulada.`);
+      await voidInvoice.mutateAsync({ invoiceId, voidReason });
+      notify.success(`Fatura #${invoiceId} anulada.`);
       closeVoid();
-      await fetchInvoice();
-    } catch {
-      setLoadError("Não foi possível anular a fatura.");
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível anular a fatura.");
     } finally {
       setIsVoiding(false);
     }
@@ -272,10 +278,10 @@ export default function InvoiceDetailPage() {
     if (!facilityId || !invoiceId || !canDelete) return;
     if (!window.confirm(`Excluir fatura #${invoiceId}? Esta ação não pode ser desfeita.`)) return;
     try {
-      await invoiceAPI.delete(facilityId, invoiceId);
+      await deleteInvoice.mutateAsync(invoiceId);
       navigate("/invoices");
-    } catch {
-      setLoadError("Não foi possível excluir a fatura.");
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível excluir a fatura.");
     }
   };
 
@@ -285,20 +291,18 @@ export default function InvoiceDetailPage() {
     e.preventDefault();
     if (!facilityId || !invoiceId || !canRecordPayment || isPaymentSubmitting) return;
     setIsPaymentSubmitting(true);
-    setLoadError(null);
-    setPageSuccess(null);
+    setActionError(null);
     try {
-      await invoiceAPI.recordPayment(facilityId, {
+      await recordPayment.mutateAsync({
         invoice: Number(invoiceId),
         amount: paymentForm.amount,
         method: paymentForm.method,
         transaction_id: paymentForm.transaction_id || undefined
       });
-      setPageSuccess("Pagamento registrado.");
+      notify.success("Pagamento registrado.");
       setPaymentForm({ amount: "", method: "CASH", transaction_id: "" });
-      await fetchInvoice();
-    } catch {
-      setLoadError("Não foi possível registrar o pagamento.");
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível registrar o pagamento.");
     } finally {
       setIsPaymentSubmitting(false);
     }
@@ -336,18 +340,16 @@ export default function InvoiceDetailPage() {
     setIsSavingItem(true);
     setItemError(null);
     try {
-      await invoiceItemsAPI.create(facilityId, invoiceId, {
+      await createItem.mutateAsync({
         description: itemForm.description,
         quantity: Number(itemForm.quantity),
         unit_price: itemForm.unit_price
       });
-      setPageSuccess("Item adicionado.");
+      notify.success("Item adicionado.");
       closeAddItem();
-      await fetchInvoice();
     } catch (err) {
-      const msg = err?.response?.data
-        ? Object.values(err.response.data).flat().join(" ")
-        : "Erro ao adicionar item.";
+      if (notifyHttpError(err)) return;
+      const msg = err?.body ? Object.values(err.body).flat().join(" ") : "Erro ao adicionar item.";
       setItemError(msg);
     } finally {
       setIsSavingItem(false);
@@ -390,18 +392,19 @@ export default function InvoiceDetailPage() {
     setIsSavingEditItem(true);
     setEditItemError(null);
     try {
-      await invoiceItemsAPI.update(facilityId, invoiceId, editingItem.id, {
-        description: editItemForm.description,
-        quantity: Number(editItemForm.quantity),
-        unit_price: editItemForm.unit_price
+      await updateItem.mutateAsync({
+        itemId: editingItem.id,
+        payload: {
+          description: editItemForm.description,
+          quantity: Number(editItemForm.quantity),
+          unit_price: editItemForm.unit_price
+        }
       });
-      setPageSuccess("Item atualizado.");
+      notify.success("Item atualizado.");
       closeEditItem();
-      await fetchInvoice();
     } catch (err) {
-      const msg = err?.response?.data
-        ? Object.values(err.response.data).flat().join(" ")
-        : "Erro ao atualizar item.";
+      if (notifyHttpError(err)) return;
+      const msg = err?.body ? Object.values(err.body).flat().join(" ") : "Erro ao atualizar item.";
       setEditItemError(msg);
     } finally {
       setIsSavingEditItem(false);
@@ -412,11 +415,10 @@ export default function InvoiceDetailPage() {
     if (!facilityId || !invoiceId || !canDeleteItem) return;
     if (!window.confirm(`Remover item "${item.description}"?`)) return;
     try {
-      await invoiceItemsAPI.delete(facilityId, invoiceId, item.id);
-      setPageSuccess("Item removido.");
-      await fetchInvoice();
-    } catch {
-      setLoadError("Não foi possível remover o item.");
+      await deleteItem.mutateAsync(item.id);
+      notify.success("Item removido.");
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível remover o item.");
     }
   };
 
@@ -435,7 +437,7 @@ export default function InvoiceDetailPage() {
       document.body.removeChild(anchor);
       URL.revokeObjectURL(objectUrl);
     } catch {
-      setLoadError("Não foi possível baixar o PDF.");
+      setActionError("Não foi possível baixar o PDF.");
     } finally {
       setIsPdfDownloading(false);
     }
@@ -505,7 +507,7 @@ export default function InvoiceDetailPage() {
               Editar
             </button>
           )}
-          {canChange && !isFinalPaymentState && (
+          {canVoid && !isFinalPaymentState && (
             <button className="invoice-button invoice-button--warning" onClick={openVoid}>
               Anular
             </button>
@@ -519,7 +521,6 @@ export default function InvoiceDetailPage() {
       </header>
 
       {loadError && <div className="invoice-alert invoice-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="invoice-alert invoice-alert--success">{pageSuccess}</div>}
 
       {isLoading ? (
         <div className="invoice-empty">Carregando fatura…</div>
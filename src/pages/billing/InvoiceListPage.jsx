@@ -2,10 +2,18 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useFacility } from "@/contexts/FacilityContext";
 import { usePermissions } from "@/hooks/usePermissions";
-import { invoiceAPI } from "@/services/billing";
+import {
+  useCreateInvoice,
+  useDeleteInvoice,
+  useInvoices,
+  useRecordPayment,
+  useVoidInvoice
+} from "@/features/billing/queries";
 import { STATUS_OPTIONS, STATUS_LABELS, PAYMENT_METHODS } from "@/pages/billing/billingConstants";
 import "@/pages/billing/InvoiceListPage.css";
 import Breadcrumb from "@/components/Breadcrumb";
+import { notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
 
 const FILTER_STATUS_OPTIONS = [{ value: "", label: "Todos os status" }, ...STATUS_OPTIONS];
 
@@ -76,17 +84,8 @@ export default function InvoiceListPage() {
   const [statusFilter, setStatusFilter] = useState("");
   const [tenantFilter, setTenantFilter] = useState("");
 
-  const [invoices, setInvoices] = useState([]);
-  const [pagination, setPagination] = useState({
-    count: 0,
-    page: 1,
-    pageSize: PAGE_SIZE,
-    next: null,
-    previous: null
-  });
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadError, setLoadError] = useState(null);
-  const [pageSuccess, setPageSuccess] = useState(null);
+  const [page, setPage] = useState(1);
+  const [actionError, setActionError] = useState(null);
 
   // Create modal
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -110,7 +109,36 @@ export default function InvoiceListPage() {
   const canAdd = hasPermission("billing.add_invoice");
   const canDelete = hasPermission("billing.delete_invoice");
   const canRecordPayment = hasPermission("billing.record_payment");
-  const canVoid = hasPermission("billing.change_invoice");
+  const canVoid = hasPermission("billing.void_invoice");
+
+  // A facility switch starts over at the first page.
+  useEffect(() => {
+    setPage(1);
+  }, [selectedFacilityId]);
+
+  const invoicesQuery = useInvoices(canView ? selectedFacilityId : null, {
+    status: statusFilter || undefined,
+    tenant_id: tenantFilter || undefined,
+    page,
+    page_size: PAGE_SIZE
+  });
+  const createInvoice = useCreateInvoice(selectedFacilityId);
+  const recordPayment = useRecordPayment(selectedFacilityId);
+  const voidInvoice = useVoidInvoice(selectedFacilityId);
+  const deleteInvoice = useDeleteInvoice(selectedFacilityId);
+
+  const invoices = invoicesQuery.data?.results ?? [];
+  const pagination = {
+    count: invoicesQuery.data?.count ?? 0,
+    page: invoicesQuery.data?.page ?? page,
+    pageSize: invoicesQuery.data?.pageSize || PAGE_SIZE,
+    next: invoicesQuery.data?.next ?? null,
+    previous: invoicesQuery.data?.previous ?? null
+  };
+  const isLoading = invoicesQuery.isFetching;
+  const loadError =
+    actionError ??
+    (invoicesQuery.isError ? "Não foi possível carregar as faturas. Tente novamente." : null);
 
   const totalPages = useMemo(() => {
     if (!pagination.count || !pagination.pageSize) return 1;
@@ -127,37 +155,6 @@ export default function InvoiceListPage() {
   const showingTo =
     pagination.count === 0 ? 0 : Math.min(pagination.page * pagination.pageSize, pagination.count);
 
-  const fetchInvoices = async ({ page = 1 } = {}) => {
-    if (!selectedFacilityId || !canView) return;
-    setIsLoading(true);
-    setLoadError(null);
-    setPageSuccess(null);
-    try {
-      const response = await invoiceAPI.list(selectedFacilityId, {
-        status: statusFilter || undefined,
-        tenant_id: tenantFilter || undefined,
-        page,
-        page_size: PAGE_SIZE
-      });
-      setInvoices(response.results);
-      setPagination({
-        count: response.count,
-        page: response.page,
-        pageSize: response.pageSize || PAGE_SIZE,
-        next: response.next,
-        previous: response.previous
-      });
-    } catch {
-      setLoadError("Não foi possível carregar as faturas. Tente novamente.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchInvoices({ page: 1 });
-  }, [selectedFacilityId, statusFilter, tenantFilter, canView]);
-
   // ── Create modal ──────────────────────────────────────────────────────
 
   const openCreate = () => {
@@ -203,14 +200,13 @@ export default function InvoiceListPage() {
       if (invoiceForm.contract) {
         payload.contract = Number(invoiceForm.contract);
       }
-      await invoiceAPI.create(selectedFacilityId, payload);
-      setPageSuccess("Fatura criada com sucesso.");
+      await createInvoice.mutateAsync(payload);
+      notify.success("Fatura criada com sucesso.");
       closeCreate();
-      await fetchInvoices({ page: 1 });
+      setPage(1);
     } catch (err) {
-      const msg = err?.response?.data
-        ? Object.values(err.response.data).flat().join(" ")
-        : "Erro ao criar fatura.";
+      if (notifyHttpError(err)) return;
+      const msg = err?.body ? Object.values(err.body).flat().join(" ") : "Erro ao criar fatura.";
       setFormError(msg);
     } finally {
       setIsSaving(false);
@@ -251,18 +247,18 @@ export default function InvoiceListPage() {
     e.preventDefault();
     if (!selectedFacilityId || !activeInvoice || isSubmittingPayment || !canRecordPayment) return;
     setIsSubmittingPayment(true);
+    setActionError(null);
     try {
-      await invoiceAPI.recordPayment(selectedFacilityId, {
+      await recordPayment.mutateAsync({
         invoice: activeInvoice.id,
         amount: paymentForm.amount,
         method: paymentForm.method,
         transaction_id: paymentForm.transaction_id || undefined
       });
-      setPageSuccess(`Pagamento registrado para fatura #${activeInvoice.id}.`);
+      notify.success(`Pagamento registrado para fatura #${activeInvoice.id}.`);
       closePayment();
-      await fetchInvoices({ page: pagination.page });
-    } catch {
-      setLoadError("Não foi possível registrar o pagamento.");
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível registrar o pagamento.");
     } finally {
       setIsSubmittingPayment(false);
     }
@@ -279,30 +275,30 @@ export default function InvoiceListPage() {
     if (!window.confirm(`Anular fatura #${invoice.id}?`)) return;
     const reason = window.prompt("Motivo da anulação (obrigatório):") ?? "";
     if (!reason.trim()) return;
+    setActionError(null);
     try {
-      await invoiceAPI.voidInvoice(selectedFacilityId, invoice.id, { void_reason: reason });
-      setPageSuccess(`Fatura #${invoice.id} anulada.`);
-      await fetchInvoices({ page: pagination.page });
-    } catch {
-      setLoadError("Não foi possível anular a fatura.");
+      await voidInvoice.mutateAsync({ invoiceId: invoice.id, voidReason: reason });
+      notify.success(`Fatura #${invoice.id} anulada.`);
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível anular a fatura.");
     }
   };
 
   const handleDelete = async (invoice) => {
     if (!selectedFacilityId || !canDelete) return;
     if (!window.confirm(`Excluir fatura #${invoice.id}? Esta ação não pode ser desfeita.`)) return;
+    setActionError(null);
     try {
-      await invoiceAPI.delete(selectedFacilityId, invoice.id);
-      setPageSuccess(`Fatura #${invoice.id} excluída.`);
-      await fetchInvoices({ page: pagination.page });
-    } catch {
-      setLoadError("Não foi possível excluir a fatura.");
+      await deleteInvoice.mutateAsync(invoice.id);
+      notify.success(`Fatura #${invoice.id} excluída.`);
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível excluir a fatura.");
     }
   };
 
   const handlePageChange = (nextPage) => {
     const target = Math.min(Math.max(1, nextPage), totalPages);
-    fetchInvoices({ page: target });
+    setPage(target);
   };
 
   // ── Guards ────────────────────────────────────────────────────────────
@@ -348,7 +344,6 @@ export default function InvoiceListPage() {
       </header>
 
       {loadError && <div className="invoice-alert invoice-alert--error">{loadError}</div>}
-      {pageSuccess && <div className="invoice-alert invoice-alert--success">{pageSuccess}</div>}
 
       <div className="invoice-table-wrapper">
         <div className="invoice-table-toolbar">
@@ -357,7 +352,10 @@ export default function InvoiceListPage() {
             <select
               className="invoice-table-filter"
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
+              onChange={(e) => {
+                setStatusFilter(e.target.value);
+                setPage(1);
+              }}
             >
               {FILTER_STATUS_OPTIONS.map((o) => (
                 <option key={o.value} value={o.value}>
@@ -374,7 +372,10 @@ export default function InvoiceListPage() {
                 type="search"
                 placeholder="Inquilino..."
                 value={tenantFilter}
-                onChange={(e) => setTenantFilter(e.target.value)}
+                onChange={(e) => {
+                  setTenantFilter(e.target.value);
+                  setPage(1);
+                }}
                 aria-label="Filtrar por inquilino"
               />
             </label>
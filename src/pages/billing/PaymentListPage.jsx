@@ -2,10 +2,11 @@ import React, { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useFacility } from "@/contexts/FacilityContext";
 import { usePermissions } from "@/hooks/usePermissions";
-import { paymentsAPI } from "@/services/billing";
+import { useDeletePayment, usePayments } from "@/features/billing/queries";
 import { PAYMENT_METHODS } from "@/pages/billing/billingConstants";
 import "@/pages/billing/PaymentListPage.css";
 import Breadcrumb from "@/components/Breadcrumb";
+import { notifyHttpError } from "@/shared/api/errorHandling";
 
 const FILTER_METHOD_OPTIONS = [{ value: "", label: "Todos os métodos" }, ...PAYMENT_METHODS];
 
@@ -56,20 +57,37 @@ export default function PaymentListPage() {
 
   const [methodFilter, setMethodFilter] = useState("");
 
-  const [payments, setPayments] = useState([]);
-  const [pagination, setPagination] = useState({
-    count: 0,
-    page: 1,
-    pageSize: PAGE_SIZE,
-    next: null,
-    previous: null
-  });
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadError, setLoadError] = useState(null);
+  const [page, setPage] = useState(1);
+  const [actionError, setActionError] = useState(null);
   const [deletingIds, setDeletingIds] = useState(new Set());
 
-  const canView = hasPermission("billing.view_invoice");
-  const canDelete = hasPermission("billing.delete_invoice");
+  const canView = hasPermission("billing.view_payment");
+  const canDelete = hasPermission("billing.delete_payment");
+
+  // A facility switch starts over at the first page.
+  useEffect(() => {
+    setPage(1);
+  }, [selectedFacilityId]);
+
+  const paymentsQuery = usePayments(canView ? selectedFacilityId : null, {
+    method: methodFilter || undefined,
+    page,
+    page_size: PAGE_SIZE
+  });
+  const deletePayment = useDeletePayment(selectedFacilityId);
+
+  const payments = paymentsQuery.data?.results ?? [];
+  const pagination = {
+    count: paymentsQuery.data?.count ?? 0,
+    page: paymentsQuery.data?.page ?? page,
+    pageSize: paymentsQuery.data?.pageSize || PAGE_SIZE,
+    next: paymentsQuery.data?.next ?? null,
+    previous: paymentsQuery.data?.previous ?? null
+  };
+  const isLoading = paymentsQuery.isFetching;
+  const loadError =
+    actionError ??
+    (paymentsQuery.isError ? "Não foi possível carregar os pagamentos. Tente novamente." : null);
 
   const totalPages = useMemo(() => {
     if (!pagination.count || !pagination.pageSize) return 1;
@@ -89,45 +107,17 @@ export default function PaymentListPage() {
       ? 0
       : Math.min(pagination.page * pagination.pageSize, pagination.count);
 
-  const fetchPayments = async ({ page = 1 } = {}) => {
-    if (!selectedFacilityId || !canView) return;
-    setIsLoading(true);
-    setLoadError(null);
-    try {
-      const response = await paymentsAPI.list(selectedFacilityId, {
-        method: methodFilter || undefined,
-        page,
-        page_size: PAGE_SIZE
-      });
-      setPayments(response.results);
-      setPagination({
-        count: response.count,
-        page: response.page,
-        pageSize: response.pageSize || PAGE_SIZE,
-        next: response.next,
-        previous: response.previous
-      });
-    } catch {
-      setLoadError("Não foi possível carregar os pagamentos. Tente novamente.");
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchPayments({ page: 1 });
-  }, [selectedFacilityId, methodFilter, canView]);
 
   const handleDelete = async (payment) => {
     if (!canDelete || deletingIds.has(payment.id)) return;
     if (!window.confirm(`Excluir pagamento #${payment.id}?`)) return;
 
     setDeletingIds((prev) => new Set(prev).add(payment.id));
+    setActionError(null);
     try {
-      await paymentsAPI.delete(selectedFacilityId, payment.id);
-      await fetchPayments({ page: pagination.page });
-    } catch {
-      setLoadError("Não foi possível excluir o pagamento. Tente novamente.");
+      await deletePayment.mutateAsync(payment.id);
+    } catch (err) {
+      if (!notifyHttpError(err)) setActionError("Não foi possível excluir o pagamento. Tente novamente.");
     } finally {
       setDeletingIds((prev) => {
         const next = new Set(prev);
@@ -172,7 +162,10 @@ export default function PaymentListPage() {
             <select
               className="payments-table-filter"
               value={methodFilter}
-              onChange={(e) => setMethodFilter(e.target.value)}
+              onChange={(e) => {
+                setMethodFilter(e.target.value);
+                setPage(1);
+              }}
             >
               {FILTER_METHOD_OPTIONS.map((o) => (
                 <option key={o.value} value={o.value}>
@@ -278,7 +271,7 @@ export default function PaymentListPage() {
             <div className="payments-pagination">
               <button
                 className="payments-page-btn"
-                onClick={() => fetchPayments({ page: pagination.page - 1 })}
+                onClick={() => setPage(pagination.page - 1)}
                 disabled={!pagination.previous || isLoading}
                 aria-label="Página anterior"
               >
@@ -288,7 +281,7 @@ export default function PaymentListPage() {
                 <button
                   key={p}
                   className={`payments-page-btn ${p === pagination.page ? "payments-page-btn--active" : ""}`}
-                  onClick={() => fetchPayments({ page: p })}
+                  onClick={() => setPage(p)}
                   disabled={isLoading}
                 >
                   {p}
@@ -296,7 +289,7 @@ export default function PaymentListPage() {
               ))}
               <button
                 className="payments-page-btn"
-                onClick={() => fetchPayments({ page: pagination.page + 1 })}
+                onClick={() => setPage(pagination.page + 1)}
                 disabled={!pagination.next || isLoading}
                 aria-label="Próxima página"
               >
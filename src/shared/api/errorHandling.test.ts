@@ -0,0 +1,26 @@
+import { notifyHttpError } from "@/shared/api/errorHandling";
+import { HttpError } from "@/shared/api/httpClient";
+import { dismissToast, getToasts } from "@/shared/notifications";
+
+describe("notifyHttpError", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    getToasts().forEach((toast) => dismissToast(toast.id));
+  });
+
+  it("toasts errors the form cannot show, with the server detail", () => {
+    const error = new HttpError("x", 409, "/api/v1/units/1/", { detail: "Unit is rented." });
+
+    expect(notifyHttpError(error)).toBe(true);
+    expect(getToasts().map((toast) => toast.message)).toEqual(["Unit is rented."]);
+  });
+
+  it("leaves validation errors and non-HTTP failures to the caller", () => {
+    expect(notifyHttpError(new HttpError("x", 400, "/api/v1/units/", {}))).toBe(false);
+    expect(notifyHttpError(new Error("boom"))).toBe(false);
+    expect(getToasts()).toEqual([]);
+  });
+});
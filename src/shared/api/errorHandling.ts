@@ -1,20 +1,60 @@
-import type { HttpError } from "@/shared/api/httpClient";
+import axios from "axios";
+import { HttpError, isFacilityRequired } from "@/shared/api/httpClient";
+import { notify } from "@/shared/notifications";
 
 export function isHttpError(error: unknown): error is HttpError {
-  return typeof error === "object" && error !== null && "status" in error;
+  return error instanceof HttpError;
+}
+
+function readDetail(body: unknown): string | null {
+  const detail = (body as { detail?: unknown } | null)?.detail;
+  return typeof detail === "string" && detail.trim() ? detail : null;
+}
+
+// 400s are left to the form that sent them and 401s to the session refresh; everything
+// else the user cannot fix from the current screen gets a toast.
+export function getHttpErrorToast(error: HttpError): string | null {
+  if (error.status === 0) {
+    return "Network error. Check your connection and try again.";
+  }
+  if (isFacilityRequired(error)) {
+    return "Select a facility to continue.";
+  }
+  if (error.status === 403) {
+    return readDetail(error.body) ?? "You do not have permission to perform this action.";
+  }
+  if (error.status === 404) {
+    return "The requested record was not found. It may have been removed.";
+  }
+  if (error.status === 409) {
+    return (
+      readDetail(error.body) ?? "This record was changed in the meantime. Reload and try again."
+    );
+  }
+  if (error.status >= 500) {
+    return "The server failed to process the request. Please try again shortly.";
+  }
+  return null;
 }
 
 export function handleHttpError(error: unknown) {
+  // Aborted requests (facility switch, unmount) are expected, not failures.
+  if (axios.isCancel(error)) return;
+
   if (isHttpError(error)) {
     if (error.handled) return;
     error.handled = true;
-    // Central place to hook in toast/telemetry later.
+    const toast = getHttpErrorToast(error);
+    if (toast) {
+      notify.error(toast);
+    }
     // eslint-disable-next-line no-console
     console.error("HTTP error", {
       status: error.status,
       message: error.message,
       url: error.url,
-      body: error.body
+      body: error.body,
+      fieldErrors: error.fieldErrors
     });
     return;
   }
@@ -23,6 +63,19 @@ export function handleHttpError(error: unknown) {
   console.error("Unexpected error", error);
 }
 
+/**
+ * For callers of mutations marked `handlesErrors`: toasts the errors the screen cannot explain
+ * (403, 404, 409, 5xx, network) and returns true, so the caller keeps its own message for the
+ * rest.
+ */
+export function notifyHttpError(error: unknown): boolean {
+  if (!isHttpError(error) || getHttpErrorToast(error) === null) {
+    return false;
+  }
+  handleHttpError(error);
+  return true;
+}
+
 export function handleQueryError(error: unknown) {
   handleHttpError(error);
 }
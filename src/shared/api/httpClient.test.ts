@@ -0,0 +1,76 @@
+import axios, { AxiosError } from "axios";
+import type { AxiosAdapter, InternalAxiosRequestConfig } from "axios";
+import { HttpError, apiClient, parseFieldErrors } from "@/shared/api/httpClient";
+import { resolveReauthentication, setReauthPromptHandler } from "@/shared/auth/reauthPrompt";
+import { getAccessToken, setTokens } from "@/shared/auth/tokenStorage";
+
+describe("parseFieldErrors", () => {
+  it("flattens nested DRF errors to dotted paths", () => {
+    expect(
+      parseFieldErrors({
+        non_field_errors: ["Unit is not available."],
+        tenant: { first_name: ["This field is required."] },
+        contract: { start_date: "Invalid date." },
+        items: [{ quantity: ["Must be positive."] }]
+      })
+    ).toEqual({
+      non_field_errors: ["Unit is not available."],
+      "tenant.first_name": ["This field is required."],
+      "contract.start_date": ["Invalid date."],
+      "items.0.quantity": ["Must be positive."]
+    });
+  });
+
+  it("only fills field errors for 400 responses", () => {
+    const body = { detail: "Not found." };
+    expect(new HttpError("x", 400, "/api/units/", body).fieldErrors).toEqual({
+      detail: ["Not found."]
+    });
+    expect(new HttpError("x", 404, "/api/units/", body).fieldErrors).toEqual({});
+  });
+});
+
+describe("session expiry", () => {
+  const defaultAdapter = apiClient.defaults.adapter;
+
+  function respondWith(handler: (config: InternalAxiosRequestConfig) => number) {
+    const adapter: AxiosAdapter = async (config) => {
+      const status = handler(config);
+      const response = { status, statusText: "", data: { ok: status < 400 }, headers: {}, config };
+      if (status >= 400) {
+        throw new AxiosError("Request failed", "ERR_BAD_REQUEST", config, null, response);
+      }
+      return response;
+    };
+    apiClient.defaults.adapter = adapter;
+  }
+
+  afterEach(() => {
+    apiClient.defaults.adapter = defaultAdapter;
+    localStorage.clear();
+  });
+
+  it("replays the request after the user signs in again", async () => {
+    setTokens("expired", "expired-refresh");
+    vi.spyOn(axios, "post").mockRejectedValue(new Error("refresh token expired"));
+    respondWith((config) => (config.headers.Authorization === "Bearer renewed" ? 200 : 401));
+    const unregister = setReauthPromptHandler(() => {
+      setTokens("renewed", "renewed-refresh");
+      resolveReauthentication();
+    });
+
+    const response = await apiClient.get("/api/units/");
+    unregister();
+
+    expect(response.data).toEqual({ ok: true });
+  });
+
+  it("fails with the 401 when nothing can prompt for sign-in", async () => {
+    setTokens("expired", "expired-refresh");
+    vi.spyOn(axios, "post").mockRejectedValue(new Error("refresh token expired"));
+    respondWith(() => 401);
+
+    await expect(apiClient.get("/api/units/")).rejects.toMatchObject({ status: 401 });
+    expect(getAccessToken()).toBeNull();
+  });
+});
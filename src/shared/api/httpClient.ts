@@ -1,12 +1,29 @@
+import axios from "axios";
+import type { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from "axios";
 import { env } from "@/shared/config/env";
-import { handleHttpError } from "@/shared/api/errorHandling";
+import {
+  clearTokens,
+  getAccessToken,
+  getRefreshToken,
+  setAccessToken
+} from "@/shared/auth/tokenStorage";
+import { requestReauthentication } from "@/shared/auth/reauthPrompt";
+import { broadcastSessionEvent } from "@/shared/auth/session";
+import { requestFacilitySelection } from "@/shared/facility/facilityPrompt";
+import { readStoredFacilityId } from "@/shared/facility/storage";
 
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
+// Field path ("email", "tenant.first_name", "non_field_errors") -> messages.
+export type FieldErrors = Record<string, string[]>;
+
 export class HttpError extends Error {
   status: number;
   url: string;
   body: unknown;
+  fieldErrors: FieldErrors;
+  // Machine-readable reason some endpoints add next to `detail`, e.g. "facility_required".
+  code?: string;
   handled?: boolean;
 
   constructor(message: string, status: number, url: string, body: unknown) {
@@ -15,54 +32,214 @@ export class HttpError extends Error {
     this.status = status;
     this.url = url;
     this.body = body;
+    this.fieldErrors = status === 400 ? parseFieldErrors(body) : {};
+    const code = (body as { code?: unknown } | null)?.code;
+    this.code = typeof code === "string" ? code : undefined;
   }
 }
 
-type RequestOptions = {
-  method?: HttpMethod;
-  body?: unknown;
-  headers?: HeadersInit;
+function toMessages(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value as string[];
+  }
+  return [];
+}
+
+// Flattens a DRF validation payload. Nested serializers become dotted paths and list
+// serializers use the item index, e.g. `items.0.quantity`.
+export function parseFieldErrors(body: unknown, prefix = ""): FieldErrors {
+  if (!body || typeof body !== "object") {
+    return {};
+  }
+  // `raise ValidationError("...")` outside a serializer field returns a bare list.
+  const topLevel = prefix ? [] : toMessages(body);
+  if (topLevel.length > 0) {
+    return { non_field_errors: topLevel };
+  }
+
+  const errors: FieldErrors = {};
+  Object.entries(body as Record<string, unknown>).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const messages = toMessages(value);
+    if (messages.length > 0) {
+      errors[path] = messages;
+      return;
+    }
+    Object.assign(errors, parseFieldErrors(value, path));
+  });
+  return errors;
+}
+
+function toHttpError(error: AxiosError): HttpError {
+  const url = error.config?.url ?? "";
+  if (!error.response) {
+    return new HttpError(error.message || "Network error", 0, url, null);
+  }
+  return new HttpError(
+    `Request failed with status ${error.response.status}`,
+    error.response.status,
+    url,
+    error.response.data
+  );
+}
+
+export function isFacilityRequired(error: HttpError): boolean {
+  const detail = (error.body as { detail?: unknown } | null)?.detail;
+  return (
+    error.status === 403 && (error.code === "facility_required" || detail === "facility_required")
+  );
+}
+
+export const apiClient = axios.create({
+  baseURL: env.apiBaseUrl
+});
+
+// Per-request overrides for facility-scoped reads: the facility the result is cached under
+// and the abort signal React Query passes to the query function.
+export type RequestOptions = {
+  facilityId?: string | null;
   signal?: AbortSignal;
 };
 
-export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
-  const url = new URL(path, env.apiBaseUrl).toString();
-  const headers: Record<string, string> = {
-    Accept: "application/json",
-    ...(options.headers as Record<string, string> | undefined)
-  };
-
-  let body: BodyInit | undefined;
-  if (options.body !== undefined) {
-    headers["Content-Type"] = "application/json";
-    body = JSON.stringify(options.body);
+export function toRequestConfig(options: RequestOptions = {}): AxiosRequestConfig {
+  const config: AxiosRequestConfig = { signal: options.signal };
+  if (options.facilityId) {
+    config.headers = { "X-Facility-ID": options.facilityId };
+  }
+  return config;
+}
+
+apiClient.interceptors.request.use((config) => {
+  const token = getAccessToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+
+  // An explicit facility (see toRequestConfig) wins; otherwise use the stored selection
+  const facilityId = readStoredFacilityId();
+  if (facilityId && !config.headers["X-Facility-ID"]) {
+    config.headers["X-Facility-ID"] = facilityId;
   }
+  return config;
+});
 
-  try {
-    const response = await fetch(url, {
-      method: options.method ?? "GET",
-      headers,
-      body,
-      signal: options.signal
+let refreshPromise: Promise<string> | null = null;
+
+async function refreshAccessToken(refreshToken: string): Promise<string> {
+  const response = await axios.post(
+    `${env.apiBaseUrl}/api/token/refresh/`,
+    { refresh: refreshToken },
+    { headers: { "Content-Type": "application/json" } }
+  );
+  const access = response.data?.access as string | undefined;
+  if (!access) {
+    throw new Error("Token refresh did not return an access token");
+  }
+  setAccessToken(access);
+  broadcastSessionEvent({ type: "refresh" });
+  return access;
+}
+
+/** Refreshes the access token, sharing one request between concurrent callers. */
+export function refreshSession(): Promise<string> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return Promise.reject(new Error("No refresh token"));
+  }
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken(refreshToken).finally(() => {
+      refreshPromise = null;
     });
+  }
+  return refreshPromise;
+}
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error: unknown) => {
+    // Aborted requests and errors from a retried request pass through untouched.
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+      return Promise.reject(error);
+    }
+
+    const originalRequest = error.config as
+      | (InternalAxiosRequestConfig & { _retry?: boolean; _facilityRetry?: boolean })
+      | undefined;
+
+    if (originalRequest && error.response?.status === 403) {
+      const httpError = toHttpError(error);
+      if (!isFacilityRequired(httpError) || originalRequest._facilityRetry) {
+        return Promise.reject(httpError);
+      }
+      // Park the request until the user picks a facility, then replay it under that facility.
+      const selection = requestFacilitySelection();
+      if (!selection) {
+        return Promise.reject(httpError);
+      }
+      let facilityId: string;
+      try {
+        facilityId = await selection;
+      } catch {
+        return Promise.reject(httpError);
+      }
+      originalRequest._facilityRetry = true;
+      originalRequest.headers["X-Facility-ID"] = facilityId;
+      return apiClient(originalRequest);
+    }
 
-    const contentType = response.headers.get("content-type") ?? "";
-    const parsedBody = contentType.includes("application/json")
-      ? await response.json()
-      : await response.text();
-
-    if (!response.ok) {
-      throw new HttpError(
-        `Request failed with status ${response.status}`,
-        response.status,
-        url,
-        parsedBody
-      );
+    if (!originalRequest || error.response?.status !== 401) {
+      return Promise.reject(toHttpError(error));
     }
 
-    return parsedBody as T;
-  } catch (error) {
-    handleHttpError(error);
-    throw error;
+    const requestUrl = originalRequest.url ?? "";
+    if (requestUrl.includes("/api/token/refresh/") || requestUrl.includes("/api/token/")) {
+      return Promise.reject(toHttpError(error));
+    }
+
+    if (originalRequest._retry) {
+      return Promise.reject(toHttpError(error));
+    }
+
+    try {
+      await refreshSession();
+    } catch {
+      clearTokens();
+      // The session is gone: park the request behind the re-login dialog and replay it with
+      // the new token, so the page (and any unsaved form) stays as it was.
+      const reauthentication = requestReauthentication();
+      if (!reauthentication) {
+        return Promise.reject(toHttpError(error));
+      }
+      try {
+        await reauthentication;
+      } catch {
+        return Promise.reject(toHttpError(error));
+      }
+    }
+
+    // The request interceptor attaches the new access token on the replay.
+    originalRequest._retry = true;
+    return apiClient(originalRequest);
   }
+);
+
+type RequestInitOptions = RequestOptions & {
+  method?: HttpMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+export async function request<T>(path: string, options: RequestInitOptions = {}): Promise<T> {
+  const config = toRequestConfig(options);
+  const response = await apiClient.request<T>({
+    ...config,
+    url: path,
+    method: options.method ?? "GET",
+    data: options.body,
+    headers: { Accept: "application/json", ...config.headers, ...options.headers }
+  });
+  return response.data;
 }
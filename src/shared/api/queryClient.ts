@@ -1,12 +1,26 @@
 import { MutationCache, QueryCache, QueryClient } from "@tanstack/react-query";
-import { handleQueryError } from "@/shared/api/errorHandling";
+import { handleQueryError, isHttpError } from "@/shared/api/errorHandling";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    mutationMeta: {
+      // Set when every caller catches the error itself (form errors, page banners,
+      // delete 404s treated as success), so the cache must not toast it as well. Those
+      // callers hand the rest to `notifyHttpError`.
+      handlesErrors?: boolean;
+    };
+  }
+}
 
 export const queryClient = new QueryClient({
   queryCache: new QueryCache({
     onError: handleQueryError
   }),
   mutationCache: new MutationCache({
-    onError: handleQueryError
+    onError: (error, _variables, _context, mutation) => {
+      if (mutation.meta?.handlesErrors) return;
+      handleQueryError(error);
+    }
   }),
   defaultOptions: {
     queries: {
@@ -14,7 +28,8 @@ export const queryClient = new QueryClient({
       gcTime: 5 * 60_000,
       retry: (failureCount, error) => {
         if (failureCount >= 2) return false;
-        return !(typeof error === "object" && error !== null && "status" in error);
+        // Only network failures (status 0) are worth retrying; HTTP errors are final.
+        return !(isHttpError(error) && error.status > 0);
       }
     }
   }
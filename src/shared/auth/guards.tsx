@@ -1,12 +1,28 @@
 import { Navigate, useLocation } from "react-router-dom";
 import type { ReactNode } from "react";
+import { hasAnyPermission } from "@/shared/auth/permissions";
+import type { Permission } from "@/shared/auth/permissions";
+import { getUserPermissions } from "@/shared/auth/roles";
 import type { FacilityInfo, Role } from "@/shared/auth/types";
+import { loginPathFor } from "@/shared/auth/redirect";
 import { useAuth } from "@/shared/auth/useAuth";
 
 interface GuardProps {
   children: ReactNode;
 }
 
+// Signed-out visitors go to the login page, which sends them back here afterwards.
+export function RequireAuth({ children }: GuardProps) {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to={loginPathFor(location)} replace />;
+  }
+
+  return <>{children}</>;
+}
+
 export function RequireRole({ roles, children }: GuardProps & { roles: Role[] }) {
   const { user, isLoading } = useAuth();
   const location = useLocation();
@@ -25,6 +41,24 @@ export function RequireRole({ roles, children }: GuardProps & { roles: Role[] })
   return <>{children}</>;
 }
 
+export function RequirePermission({
+  permission,
+  children
+}: GuardProps & { permission: Permission | Permission[] }) {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!hasAnyPermission(getUserPermissions(user), permission)) {
+    return <Navigate to="/unauthorized" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+}
+
 export function RequireFacility({
   facilities,
   children
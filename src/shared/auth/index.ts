@@ -1,4 +1,10 @@
 export * from "@/shared/auth/context";
 export * from "@/shared/auth/guards";
+export * from "@/shared/auth/permissions";
+export * from "@/shared/auth/profile";
+export * from "@/shared/auth/reauthPrompt";
+export * from "@/shared/auth/redirect";
+export * from "@/shared/auth/roles";
 export * from "@/shared/auth/types";
 export * from "@/shared/auth/useAuth";
+export * from "@/shared/auth/useIdleTimeout";
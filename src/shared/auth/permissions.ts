@@ -0,0 +1,64 @@
+// Django-style codenames (`<app>.<action>_<model>`), matching what /api/profile/ returns.
+export const PERMISSIONS = [
+  "leads.view_lead",
+  "leads.add_lead",
+  "leads.change_lead",
+  "leads.delete_lead",
+  "leads.convert_lead",
+  "tenants.view_tenant",
+  "tenants.add_tenant",
+  "tenants.change_tenant",
+  "tenants.delete_tenant",
+  "contracts.view_contract",
+  "contracts.add_contract",
+  "contracts.change_contract",
+  "contracts.delete_contract",
+  "units.view_unit",
+  "units.add_unit",
+  "units.change_unit",
+  "units.delete_unit",
+  "units.view_unittype",
+  "units.add_unittype",
+  "units.change_unittype",
+  "units.delete_unittype",
+  "facilities.view_facility",
+  "facilities.add_facility",
+  "facilities.change_facility",
+  "facilities.delete_facility",
+  "organizations.view_organization",
+  "organizations.add_organization",
+  "organizations.change_organization",
+  "organizations.delete_organization",
+  "users.view_userprofile",
+  "users.add_userprofile",
+  "users.change_userprofile",
+  "users.delete_userprofile",
+  "billing.view_invoice",
+  "billing.add_invoice",
+  "billing.change_invoice",
+  "billing.delete_invoice",
+  "billing.void_invoice",
+  "billing.add_invoiceitem",
+  "billing.change_invoiceitem",
+  "billing.delete_invoiceitem",
+  "billing.view_payment",
+  "billing.record_payment",
+  "billing.delete_payment"
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const KNOWN_PERMISSIONS = new Set<string>(PERMISSIONS);
+
+export function isKnownPermission(value: string): value is Permission {
+  return KNOWN_PERMISSIONS.has(value);
+}
+
+// True when any of the given permissions is granted.
+export function hasAnyPermission(
+  granted: Set<Permission>,
+  required: Permission | readonly Permission[]
+): boolean {
+  const list = typeof required === "string" ? [required] : required;
+  return list.some((permission) => granted.has(permission));
+}
@@ -0,0 +1,57 @@
+import { toUser } from "@/shared/auth/profile";
+
+describe("toUser", () => {
+  it("maps the full profile", () => {
+    const user = toUser({
+      id: 4,
+      email: "ana.souza@example.com",
+      first_name: "Ana",
+      last_name: "Souza",
+      role: "gerente",
+      roles: ["gerente", "financeiro"],
+      organization: { id: 2 },
+      locale: "en-US",
+      timezone: "America/Manaus",
+      avatar_url: "https://cdn.example.com/ana.png",
+      facilities: [{ id: 1, name: "Centro" }]
+    });
+
+    expect(user).toMatchObject({
+      name: "Ana Souza",
+      firstName: "Ana",
+      lastName: "Souza",
+      role: "gerente",
+      roles: ["gerente", "financeiro"],
+      organizationId: 2,
+      locale: "en-US",
+      timezone: "America/Manaus",
+      avatarUrl: "https://cdn.example.com/ana.png",
+      facilities: [{ id: 1, name: "Centro" }]
+    });
+  });
+
+  it("resolves server role codes to roles", () => {
+    const user = toUser({
+      id: 6,
+      email: "x@example.com",
+      roles: ["MANAGER", "ATTENDANCE", "LEGACY"]
+    });
+
+    expect(user.roles).toEqual(["gerente", "atendimento"]);
+    expect(user.role).toBe("MANAGER");
+  });
+
+  it("falls back for profiles that only send a single role", () => {
+    const user = toUser({ id: 5, email: "ops@example.com", role: "ops" });
+
+    expect(user).toMatchObject({
+      name: "ops",
+      roles: ["ops"],
+      organizationId: null,
+      locale: "pt-BR",
+      avatarUrl: null,
+      facilities: []
+    });
+    expect(user.permissions).toBeUndefined();
+  });
+});
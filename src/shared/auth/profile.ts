@@ -0,0 +1,54 @@
+import { toRole } from "@/shared/auth/roles";
+import type { FacilityInfo, Role, User } from "@/shared/auth/types";
+
+export const DEFAULT_LOCALE = "pt-BR";
+export const DEFAULT_TIMEZONE = "America/Sao_Paulo";
+
+/** `/api/profile/` as sent by the server. Older servers only send id, email and `role`. */
+export type ProfileResponse = {
+  id: number;
+  email: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  full_name?: string | null;
+  role?: string | null;
+  roles?: string[] | null;
+  organization?: number | { id: number } | null;
+  organization_id?: number | null;
+  locale?: string | null;
+  timezone?: string | null;
+  avatar_url?: string | null;
+  facilities?: FacilityInfo[] | null;
+  permissions?: string[] | null;
+};
+
+function organizationIdOf(data: ProfileResponse): number | null {
+  if (typeof data.organization_id === "number") return data.organization_id;
+  if (typeof data.organization === "number") return data.organization;
+  return data.organization?.id ?? null;
+}
+
+export function toUser(data: ProfileResponse): User {
+  const firstName = data.first_name?.trim() ?? "";
+  const lastName = data.last_name?.trim() ?? "";
+  const fullName = data.full_name?.trim() || [firstName, lastName].filter(Boolean).join(" ");
+  const codes = Array.isArray(data.roles) && data.roles.length > 0 ? data.roles : [data.role];
+  // Server codes ("MANAGER") and role ids ("gerente") both resolve; unknown roles grant nothing.
+  const roles = [...new Set(codes.map(toRole).filter((role): role is Role => role !== null))];
+
+  return {
+    id: data.id,
+    email: data.email,
+    firstName,
+    lastName,
+    name: fullName || (data.email?.split("@")[0] ?? ""),
+    role: data.role ?? codes[0] ?? "",
+    roles,
+    organizationId: organizationIdOf(data),
+    locale: data.locale || DEFAULT_LOCALE,
+    timezone: data.timezone || DEFAULT_TIMEZONE,
+    avatarUrl: data.avatar_url || null,
+    facilities: data.facilities ?? [],
+    permissions: Array.isArray(data.permissions) ? data.permissions : undefined
+  };
+}
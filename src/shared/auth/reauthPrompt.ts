@@ -0,0 +1,49 @@
+type Waiter = {
+  resolve: () => void;
+  reject: (reason?: unknown) => void;
+};
+
+let waiters: Waiter[] = [];
+let promptHandler: (() => void) | null = null;
+
+// The authenticated layout registers how to ask for credentials (the session-expired dialog).
+export function setReauthPromptHandler(handler: () => void) {
+  promptHandler = handler;
+  return () => {
+    if (promptHandler === handler) {
+      promptHandler = null;
+    }
+  };
+}
+
+/**
+ * Asks the user to sign in again after the refresh token is gone. Resolves once new tokens
+ * are stored, rejects if the user signs out instead. Returns null when nothing can show the
+ * prompt, so the caller can fail the request instead.
+ */
+export function requestReauthentication(): Promise<void> | null {
+  if (!promptHandler) {
+    return null;
+  }
+  const reauthenticated = new Promise<void>((resolve, reject) => {
+    waiters.push({ resolve, reject });
+  });
+  promptHandler();
+  return reauthenticated;
+}
+
+export function hasPendingReauthentication() {
+  return waiters.length > 0;
+}
+
+export function resolveReauthentication() {
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((waiter) => waiter.resolve());
+}
+
+export function cancelReauthentication() {
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((waiter) => waiter.reject(new Error("Re-authentication cancelled")));
+}
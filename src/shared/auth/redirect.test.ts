@@ -0,0 +1,14 @@
+import { loginPathFor, safeNextPath } from "@/shared/auth/redirect";
+
+describe("loginPathFor", () => {
+  const location = { pathname: "/leads", search: "?stage=NEW", hash: "" };
+
+  it("sends the user back to where they were", () => {
+    expect(loginPathFor(location)).toBe("/login?next=%2Fleads%3Fstage%3DNEW");
+    expect(safeNextPath("/leads?stage=NEW")).toBe("/leads?stage=NEW");
+  });
+
+  it("adds the reason for the sign-out", () => {
+    expect(loginPathFor(location, "idle")).toBe("/login?next=%2Fleads%3Fstage%3DNEW&reason=idle");
+  });
+});
@@ -0,0 +1,20 @@
+import type { Location } from "react-router-dom";
+
+export const DEFAULT_AUTHENTICATED_PATH = "/dashboard";
+
+// Only same-app paths are followed back; anything else falls back to the dashboard.
+export function safeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : DEFAULT_AUTHENTICATED_PATH;
+}
+
+// Why the user landed on the login page, shown above the form.
+export type LoginReason = "idle";
+
+export function loginPathFor(
+  location: Pick<Location, "pathname" | "search" | "hash">,
+  reason?: LoginReason
+): string {
+  const next = `${location.pathname}${location.search}${location.hash}`;
+  const path = `/login?next=${encodeURIComponent(next)}`;
+  return reason ? `${path}&reason=${reason}` : path;
+}
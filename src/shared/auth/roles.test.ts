@@ -0,0 +1,33 @@
+import { getFacilityRuleMessage, getRoleDefinition, getUserPermissions } from "@/shared/auth/roles";
+import type { User } from "@/shared/auth/types";
+
+describe("role registry", () => {
+  it("resolves server codes and role ids to the same role", () => {
+    expect(getRoleDefinition("MANAGER")?.role).toBe("gerente");
+    expect(getRoleDefinition("gerente")?.code).toBe("MANAGER");
+    expect(getRoleDefinition("FINANCIAL")).toBe(getRoleDefinition("financeiro"));
+    expect(getRoleDefinition("SUPERUSER")).toBeNull();
+  });
+
+  it.each([
+    ["ADMIN", 0, null],
+    ["ADMIN", 1, "This role is not assigned to facilities."],
+    ["MANAGER", 0, "This role requires at least 1 facility."],
+    ["MANAGER", 3, null],
+    ["OPERATOR", 2, "This role requires exactly 1 facility."],
+    ["ATTENDANCE", 1, null],
+    ["financeiro", 0, "This role requires exactly 1 facility."],
+    ["", 2, null]
+  ])("checks facility count for %s with %i facilities", (role, count, message) => {
+    expect(getFacilityRuleMessage(role, count)).toBe(message);
+  });
+
+  it("grants permissions from every role the user holds", () => {
+    const user = { roles: ["ops", "financeiro"] } as User;
+    const permissions = getUserPermissions(user);
+
+    expect(permissions.has("leads.delete_lead")).toBe(true);
+    expect(permissions.has("billing.void_invoice")).toBe(true);
+    expect(permissions.has("contracts.delete_contract")).toBe(false);
+  });
+});
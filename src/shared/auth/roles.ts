@@ -0,0 +1,202 @@
+import { PERMISSIONS, isKnownPermission } from "@/shared/auth/permissions";
+import type { Permission } from "@/shared/auth/permissions";
+import type { Role, User } from "@/shared/auth/types";
+
+// How many facilities a user with the role is assigned to.
+export type FacilityRule = "none" | "exactly_one" | "at_least_one" | "any";
+
+export type RoleDefinition = {
+  role: Role;
+  // Code stored by /api/v1/users/ and offered on the Users page.
+  code: string;
+  label: string;
+  facilityRule: FacilityRule;
+  // Offered when assigning roles; the others are only ever set on the server.
+  assignable: boolean;
+  // Fallback grants for profiles that do not send `permissions` yet.
+  permissions: Permission[];
+};
+
+function crud(app: string, model: string, actions = ["view", "add", "change", "delete"]) {
+  return actions.map((action) => `${app}.${action}_${model}` as Permission);
+}
+
+const LEADS = [...crud("leads", "lead"), "leads.convert_lead" as const];
+const BILLING_ALL: Permission[] = PERMISSIONS.filter((permission) =>
+  permission.startsWith("billing.")
+);
+
+/**
+ * The single list of roles. Labels, server codes, facility rules and default grants all
+ * live here; keep the grants in line with the backend role defaults.
+ */
+export const ROLES: readonly RoleDefinition[] = [
+  {
+    role: "admin",
+    code: "ADMIN",
+    label: "Admin",
+    facilityRule: "none",
+    assignable: true,
+    permissions: [...PERMISSIONS]
+  },
+  {
+    role: "admin_corporativo",
+    code: "CORPORATE_ADMIN",
+    label: "Corporate admin",
+    facilityRule: "none",
+    assignable: false,
+    permissions: [...PERMISSIONS]
+  },
+  {
+    role: "gerente",
+    code: "MANAGER",
+    label: "Manager",
+    facilityRule: "at_least_one",
+    assignable: true,
+    permissions: [
+      ...LEADS,
+      ...crud("tenants", "tenant"),
+      ...crud("contracts", "contract"),
+      ...crud("units", "unit"),
+      ...crud("units", "unittype"),
+      ...crud("facilities", "facility"),
+      "billing.view_invoice",
+      "billing.add_invoice",
+      "billing.change_invoice",
+      ...crud("billing", "invoiceitem", ["add", "change", "delete"]),
+      "billing.view_payment",
+      "billing.record_payment"
+    ]
+  },
+  {
+    role: "ops",
+    code: "OPERATOR",
+    label: "Operator",
+    facilityRule: "exactly_one",
+    assignable: true,
+    permissions: [
+      ...crud("leads", "lead"),
+      ...crud("tenants", "tenant", ["view", "change"]),
+      "contracts.view_contract"
+    ]
+  },
+  {
+    role: "atendimento",
+    code: "ATTENDANCE",
+    label: "Attendance",
+    facilityRule: "exactly_one",
+    assignable: true,
+    permissions: [
+      ...LEADS,
+      ...crud("tenants", "tenant", ["view", "add", "change"]),
+      ...crud("contracts", "contract", ["view", "add"]),
+      "units.view_unit",
+      "units.view_unittype"
+    ]
+  },
+  {
+    role: "financeiro",
+    code: "FINANCIAL",
+    label: "Financial",
+    facilityRule: "exactly_one",
+    assignable: true,
+    permissions: [
+      ...crud("tenants", "tenant", ["view", "change"]),
+      "contracts.view_contract",
+      "units.view_unit",
+      "units.view_unittype",
+      ...BILLING_ALL
+    ]
+  },
+  {
+    role: "viewer",
+    code: "VIEWER",
+    label: "Viewer",
+    facilityRule: "any",
+    assignable: false,
+    permissions: []
+  }
+];
+
+export const ASSIGNABLE_ROLES = ROLES.filter((definition) => definition.assignable);
+
+export const ROLE_PERMISSIONS = Object.fromEntries(
+  ROLES.map((definition) => [definition.role, definition.permissions])
+) as Record<Role, Permission[]>;
+
+/** Resolves either vocabulary the server may send ("MANAGER" or "gerente"). */
+export function getRoleDefinition(value: string | null | undefined): RoleDefinition | null {
+  if (!value) return null;
+  const normalized = value.trim();
+  return (
+    ROLES.find(
+      (definition) =>
+        definition.code === normalized.toUpperCase() || definition.role === normalized.toLowerCase()
+    ) ?? null
+  );
+}
+
+export function toRole(value: string | null | undefined): Role | null {
+  return getRoleDefinition(value)?.role ?? null;
+}
+
+export function getRoleLabel(value: string | null | undefined): string {
+  return getRoleDefinition(value)?.label ?? value ?? "";
+}
+
+const FACILITY_RULE_MESSAGES: Record<FacilityRule, string | null> = {
+  none: "This role is not assigned to facilities.",
+  exactly_one: "This role requires exactly 1 facility.",
+  at_least_one: "This role requires at least 1 facility.",
+  any: null
+};
+
+function satisfiesFacilityRule(rule: FacilityRule, count: number): boolean {
+  switch (rule) {
+    case "none":
+      return count === 0;
+    case "exactly_one":
+      return count === 1;
+    case "at_least_one":
+      return count >= 1;
+    default:
+      return true;
+  }
+}
+
+/** Validation message for assigning `facilityCount` facilities to the role, or null. */
+export function getFacilityRuleMessage(
+  value: string | null | undefined,
+  facilityCount: number
+): string | null {
+  const definition = getRoleDefinition(value);
+  if (!definition || satisfiesFacilityRule(definition.facilityRule, facilityCount)) {
+    return null;
+  }
+  return FACILITY_RULE_MESSAGES[definition.facilityRule];
+}
+
+/**
+ * The server profile is the source of truth; the role grants only fill in for profiles that
+ * do not list permissions. Unknown codenames from the server are ignored.
+ */
+export function getUserPermissions(user: User | null | undefined): Set<Permission> {
+  const permissions = new Set<Permission>();
+  if (!user) {
+    return permissions;
+  }
+
+  if (user.permissions) {
+    user.permissions.forEach((permission) => {
+      if (isKnownPermission(permission)) {
+        permissions.add(permission);
+      }
+    });
+    return permissions;
+  }
+
+  user.roles.forEach((role) => {
+    ROLE_PERMISSIONS[role]?.forEach((permission) => permissions.add(permission));
+  });
+  return permissions;
+}
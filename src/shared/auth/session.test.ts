@@ -0,0 +1,51 @@
+import {
+  broadcastSessionEvent,
+  getRefreshDelay,
+  getTokenExpiry,
+  subscribeSessionEvents
+} from "@/shared/auth/session";
+
+function tokenWithPayload(payload: object) {
+  const encoded = btoa(JSON.stringify(payload))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `header.${encoded}.signature`;
+}
+
+describe("getTokenExpiry", () => {
+  it("reads exp from a base64url payload", () => {
+    expect(getTokenExpiry(tokenWithPayload({ exp: 1_800_000_000, sub: "ü?>" }))).toBe(
+      1_800_000_000_000
+    );
+  });
+
+  it("returns null for tokens it cannot read", () => {
+    expect(getTokenExpiry("not-a-jwt")).toBeNull();
+    expect(getTokenExpiry("a.%%%.c")).toBeNull();
+    expect(getTokenExpiry(tokenWithPayload({ sub: "1" }))).toBeNull();
+  });
+});
+
+describe("getRefreshDelay", () => {
+  it("schedules the refresh ahead of expiry and never in the past", () => {
+    const token = tokenWithPayload({ exp: 1_000 });
+    expect(getRefreshDelay(token, 60_000, 900_000)).toBe(40_000);
+    expect(getRefreshDelay(token, 60_000, 990_000)).toBe(0);
+  });
+});
+
+describe("session events", () => {
+  it("reaches subscribers in other tabs", async () => {
+    const received = new Promise((resolve) => {
+      const unsubscribe = subscribeSessionEvents((event) => {
+        unsubscribe();
+        resolve(event);
+      });
+    });
+
+    broadcastSessionEvent({ type: "logout" });
+
+    await expect(received).resolves.toEqual({ type: "logout" });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Session coordination between tabs. Tokens live in localStorage (see tokenStorage), which
+ * every tab shares; this module tells the other tabs when they change so each can update its
+ * auth state, reschedule its refresh and drop to the login screen on logout.
+ */
+
+export type SessionEvent = { type: "login" } | { type: "logout" } | { type: "refresh" };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const CHANNEL_NAME = "storage-session";
+// Fallback for browsers without BroadcastChannel: writing a key fires `storage` elsewhere.
+const EVENT_STORAGE_KEY = "session:event";
+const ACTIVITY_STORAGE_KEY = "session:last-activity";
+
+const listeners = new Set<SessionListener>();
+let channel: BroadcastChannel | null = null;
+let storageListener: ((event: StorageEvent) => void) | null = null;
+
+function isSessionEvent(value: unknown): value is SessionEvent {
+  const type = (value as { type?: unknown } | null)?.type;
+  return type === "login" || type === "logout" || type === "refresh";
+}
+
+function deliver(event: SessionEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+function connect() {
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent) => {
+      if (isSessionEvent(message.data)) {
+        deliver(message.data);
+      }
+    };
+    return;
+  }
+
+  storageListener = (event: StorageEvent) => {
+    if (event.key !== EVENT_STORAGE_KEY || !event.newValue) return;
+    try {
+      const parsed: unknown = JSON.parse(event.newValue);
+      if (isSessionEvent(parsed)) {
+        deliver(parsed);
+      }
+    } catch {
+      // Ignore values written by something else.
+    }
+  };
+  window.addEventListener("storage", storageListener);
+}
+
+function disconnect() {
+  channel?.close();
+  channel = null;
+  if (storageListener) {
+    window.removeEventListener("storage", storageListener);
+    storageListener = null;
+  }
+}
+
+// Tells the other tabs; the sending tab has already applied the change itself.
+export function broadcastSessionEvent(event: SessionEvent) {
+  if (typeof BroadcastChannel !== "undefined") {
+    const sender = new BroadcastChannel(CHANNEL_NAME);
+    sender.postMessage(event);
+    sender.close();
+    return;
+  }
+  // The timestamp makes repeated events distinct so `storage` fires every time.
+  localStorage.setItem(EVENT_STORAGE_KEY, JSON.stringify({ ...event, at: Date.now() }));
+}
+
+// Subscribes to events from other tabs.
+export function subscribeSessionEvents(listener: SessionListener) {
+  if (listeners.size === 0) {
+    connect();
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+}
+
+/** Expiry of a JWT in epoch milliseconds, or null when the token has no readable `exp`. */
+export function getTokenExpiry(token: string): number | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const exp: unknown = JSON.parse(atob(padded)).exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delay until the token should be refreshed: `leadMs` before it expires, never negative.
+ * Null when the expiry is unknown and the 401 interceptor has to handle it.
+ */
+export function getRefreshDelay(token: string, leadMs: number, now = Date.now()): number | null {
+  const expiresAt = getTokenExpiry(token);
+  if (expiresAt === null) return null;
+  return Math.max(expiresAt - leadMs - now, 0);
+}
+
+// Activity is shared through storage so that working in one tab keeps the others signed in.
+export function recordActivity(now = Date.now()) {
+  localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now));
+}
+
+export function getLastActivity(): number | null {
+  const value = Number(localStorage.getItem(ACTIVITY_STORAGE_KEY));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function clearActivity() {
+  localStorage.removeItem(ACTIVITY_STORAGE_KEY);
+}
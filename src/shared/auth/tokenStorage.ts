@@ -1,3 +1,5 @@
+// Both tokens live in localStorage so tabs share one session. That keeps the refresh token
+// script-readable; see "Session" in ARCHITECTURE.md for the httpOnly cookie this is waiting on.
 export const ACCESS_TOKEN_KEY = "access";
 export const REFRESH_TOKEN_KEY = "refresh";
 
@@ -1,4 +1,12 @@
-export type Role = "admin" | "admin_corporativo" | "gerente" | "financeiro" | "ops" | "viewer";
+// Internal role ids; see `ROLES` in roles.ts for labels, server codes and grants.
+export type Role =
+  | "admin"
+  | "admin_corporativo"
+  | "gerente"
+  | "financeiro"
+  | "ops"
+  | "atendimento"
+  | "viewer";
 
 export interface FacilityInfo {
   id: number;
@@ -8,10 +16,20 @@ export interface FacilityInfo {
 export interface User {
   id: number;
   email: string;
+  firstName: string;
+  lastName: string;
+  // Full name for display; the email's local part when the profile has no name.
   name: string;
+  // Primary role as sent by the server; `roles` lists every role held.
   role: string;
   roles: Role[];
+  organizationId: number | null;
+  locale: string;
+  timezone: string;
+  avatarUrl: string | null;
   facilities: FacilityInfo[];
+  // Permission codenames from the profile; absent when the server predates them.
+  permissions?: string[];
 }
 
 export interface LoginCredentials {
@@ -25,4 +43,6 @@ export interface AuthState {
   isLoading: boolean;
   login: (credentials: LoginCredentials) => Promise<void>;
   logout: () => void;
+  // Replaces the signed-in user with the profile the API returned after an edit.
+  updateUser: (profile: User) => void;
 }
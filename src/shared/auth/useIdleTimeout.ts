@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getLastActivity, recordActivity } from "@/shared/auth/session";
+
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "scroll", "touchstart"] as const;
+// Activity is written to storage at most this often.
+const ACTIVITY_THROTTLE_MS = 5_000;
+const CHECK_INTERVAL_MS = 1_000;
+
+type IdleTimeoutOptions = {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+};
+
+/**
+ * Tracks inactivity across all open tabs. `remainingMs` is set once the warning window is
+ * reached; from then on only `stayActive` extends the session, not stray mouse movement.
+ */
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, onTimeout }: IdleTimeoutOptions) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    warningRef.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) {
+      warningRef.current = false;
+      setRemainingMs(null);
+      return;
+    }
+
+    if (getLastActivity() === null) {
+      recordActivity();
+    }
+
+    let lastWrite = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (warningRef.current || now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      recordActivity(now);
+    };
+
+    const check = () => {
+      const now = Date.now();
+      const remaining = timeoutMs - (now - (getLastActivity() ?? now));
+      if (remaining <= 0) {
+        warningRef.current = false;
+        setRemainingMs(null);
+        onTimeoutRef.current();
+        return;
+      }
+      warningRef.current = remaining <= warningMs;
+      setRemainingMs(warningRef.current ? remaining : null);
+    };
+
+    ACTIVITY_EVENTS.forEach((name) =>
+      window.addEventListener(name, handleActivity, { passive: true })
+    );
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  return { remainingMs, stayActive };
+}
@@ -3,5 +3,7 @@ const mode = import.meta.env.MODE;
 export const env = {
   mode,
   apiBaseUrl:
-    import.meta.env.VITE_API_URL ?? import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000"
+    import.meta.env.VITE_API_URL ?? import.meta.env.VITE_API_BASE_URL ?? "http://localhost:4000",
+  // Minutes without activity before the user is signed out; 0 turns the timeout off.
+  idleTimeoutMinutes: Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES ?? 30)
 };
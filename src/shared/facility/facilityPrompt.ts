@@ -0,0 +1,48 @@
+type Waiter = {
+  resolve: (facilityId: string) => void;
+  reject: (reason?: unknown) => void;
+};
+
+let waiters: Waiter[] = [];
+let promptHandler: (() => void) | null = null;
+
+// The app registers how to show the selector (a navigation to /select-facility).
+export function setFacilityPromptHandler(handler: () => void) {
+  promptHandler = handler;
+  return () => {
+    if (promptHandler === handler) {
+      promptHandler = null;
+    }
+  };
+}
+
+/**
+ * Asks the user to pick a facility. Resolves with the chosen id, rejects if the user backs
+ * out. Returns null when no selector is mounted, so the caller can fail the request instead.
+ */
+export function requestFacilitySelection(): Promise<string> | null {
+  if (!promptHandler) {
+    return null;
+  }
+  const selection = new Promise<string>((resolve, reject) => {
+    waiters.push({ resolve, reject });
+  });
+  promptHandler();
+  return selection;
+}
+
+export function hasPendingFacilitySelection() {
+  return waiters.length > 0;
+}
+
+export function resolveFacilitySelection(facilityId: string) {
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((waiter) => waiter.resolve(facilityId));
+}
+
+export function cancelFacilitySelection() {
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((waiter) => waiter.reject(new Error("Facility selection cancelled")));
+}
@@ -0,0 +1,7 @@
+export type FacilityScopeId = string | number | null;
+
+// Root of every facility-scoped query key. Data cached under one facility can never render
+// under another, and a facility switch can cancel the whole previous scope in one call.
+export function facilityScopeKey(facilityId: FacilityScopeId) {
+  return ["facility", facilityId === null ? "none" : String(facilityId)] as const;
+}
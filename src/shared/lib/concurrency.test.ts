@@ -0,0 +1,38 @@
+import { mapWithConcurrency } from "@/shared/lib/concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than `limit` workers at once", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (value) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+      return value;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("keeps input order and reports failures per item", async () => {
+    const progress: number[] = [];
+    const results = await mapWithConcurrency(
+      ["a", "b", "c"],
+      3,
+      async (value) => {
+        if (value === "b") {
+          throw new Error("boom");
+        }
+        return value.toUpperCase();
+      },
+      (completed) => progress.push(completed)
+    );
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    expect(results[0]).toMatchObject({ item: "a", value: "A" });
+    expect(results[1]).toMatchObject({ item: "b", reason: new Error("boom") });
+    expect(progress).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,39 @@
+export type SettledResult<T, R> =
+  | { item: T; status: "fulfilled"; value: R }
+  | { item: T; status: "rejected"; reason: unknown };
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and never rejects:
+ * each item gets its own settled result, in the same order as `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SettledResult<T, R>[]> {
+  const results = new Array<SettledResult<T, R>>(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      const item = items[index];
+
+      try {
+        results[index] = { item, status: "fulfilled", value: await worker(item, index) };
+      } catch (reason) {
+        results[index] = { item, status: "rejected", reason };
+      }
+
+      completed += 1;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runNext));
+  return results;
+}
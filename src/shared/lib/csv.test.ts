@@ -0,0 +1,58 @@
+import { csvFilename, parseCsv, toCsv } from "@/shared/lib/csv";
+
+describe("parseCsv", () => {
+  it("handles quotes, embedded delimiters and line breaks", () => {
+    const text = 'name,notes\r\n"Souza, Ana","said ""hi""\nthen left"\r\nBruno,\r\n\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["name", "notes"],
+      ["Souza, Ana", 'said "hi"\nthen left'],
+      ["Bruno", ""]
+    ]);
+  });
+
+  it("detects semicolons and strips the BOM", () => {
+    expect(parseCsv("\uFEFFunit;price\nA-1;10,50")).toEqual([
+      ["unit", "price"],
+      ["A-1", "10,50"]
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only the values that need it and round-trips", () => {
+    const rows = [
+      ["name", "notes"],
+      ["Souza, Ana", 'said "hi"'],
+      ["Bruno", null]
+    ];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe('name,notes\r\n"Souza, Ana","said ""hi"""\r\nBruno,');
+    expect(parseCsv(csv)).toEqual([
+      ["name", "notes"],
+      ["Souza, Ana", 'said "hi"'],
+      ["Bruno", ""]
+    ]);
+  });
+});
+
+describe("toCsv formula guard", () => {
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    const csv = toCsv([['=HYPERLINK("http://x")', "+55 11", "-1", "@SUM(A1)", "Ana"]]);
+
+    expect(parseCsv(csv)).toEqual([
+      ['\'=HYPERLINK("http://x")', "'+55 11", "'-1", "'@SUM(A1)", "Ana"]
+    ]);
+  });
+
+  it("leaves numbers alone", () => {
+    expect(toCsv([[-12.5, 0]])).toBe("-12.5,0");
+  });
+});
+
+describe("csvFilename", () => {
+  it("stamps the local date", () => {
+    expect(csvFilename("units", new Date(2026, 0, 5))).toBe("units-2026-01-05.csv");
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  applyColumnMapping,
+  autoMapColumns,
+  getMissingRequiredFields,
+  matchCsvOption,
+  parseCsvDate
+} from "@/shared/lib/csvImport";
+import type { CsvImportField } from "@/shared/lib/csvImport";
+
+const fields: CsvImportField[] = [
+  { key: "first_name", label: "First name", required: true, aliases: ["nome"] },
+  { key: "email", label: "Email", aliases: ["e-mail"] },
+  { key: "notes", label: "Notes" }
+];
+
+describe("autoMapColumns", () => {
+  it("matches keys, labels and aliases ignoring case and accents", () => {
+    expect(autoMapColumns(["E-mail", "Nome", "Observações"], fields)).toEqual({
+      first_name: 1,
+      email: 0,
+      notes: null
+    });
+  });
+
+  it("reports required fields left unmapped", () => {
+    const mapping = autoMapColumns(["email"], fields);
+
+    expect(getMissingRequiredFields(fields, mapping).map((field) => field.key)).toEqual([
+      "first_name"
+    ]);
+  });
+});
+
+describe("applyColumnMapping", () => {
+  it("keys trimmed cells by field and numbers lines after the header", () => {
+    const rows = applyColumnMapping([[" ana@example.com ", "Ana"]], fields, {
+      first_name: 1,
+      email: 0,
+      notes: null
+    });
+
+    expect(rows).toEqual([
+      { line: 2, values: { first_name: "Ana", email: "ana@example.com", notes: "" } }
+    ]);
+  });
+
+  it("drops the formula guard that exports add", () => {
+    const rows = applyColumnMapping([["'+55 11 99999-0000", "'Tis"]], fields, {
+      first_name: 1,
+      email: null,
+      notes: 0
+    });
+
+    expect(rows[0].values).toEqual({ first_name: "'Tis", email: "", notes: "+55 11 99999-0000" });
+  });
+});
+
+describe("matchCsvOption", () => {
+  it("accepts the code or the label", () => {
+    const options = [{ value: "WALK_IN", label: "Walk-in" }] as const;
+
+    expect(matchCsvOption("walk in", options)).toBe("WALK_IN");
+    expect(matchCsvOption("walk_in", options)).toBe("WALK_IN");
+    expect(matchCsvOption("phone", options)).toBeNull();
+  });
+});
+
+describe("parseCsvDate", () => {
+  it.each([
+    ["2026-03-01", "2026-03-01"],
+    ["2026-03-01T14:30:00Z", "2026-03-01T14:30"],
+    ["1/3/2026", "2026-03-01"],
+    ["01/03/2026 09:15", "2026-03-01T09:15"],
+    ["31/02/2026", null],
+    ["tomorrow", null]
+  ])("%s → %s", (value, expected) => {
+    expect(parseCsvDate(value)).toBe(expected);
+  });
+});
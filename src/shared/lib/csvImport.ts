@@ -0,0 +1,118 @@
+export type CsvImportField = {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other header names that map to the field, e.g. the Portuguese column names.
+  aliases?: string[];
+};
+
+// Field key → column index in the file, or null when the field is not imported.
+export type CsvColumnMapping = Record<string, number | null>;
+
+export type CsvMappedRow = {
+  // Line in the file, counting the header as line 1, so users can find the row.
+  line: number;
+  values: Record<string, string>;
+};
+
+export type CsvRowResult<T> = {
+  line: number;
+  payload: T | null;
+  errors: string[];
+};
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Lowercase, without accents, spaces or punctuation: "Nº da Unidade" → "ndaunidade". */
+export function normalizeCsvKey(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export function autoMapColumns(headers: string[], fields: CsvImportField[]): CsvColumnMapping {
+  const normalizedHeaders = headers.map(normalizeCsvKey);
+  const used = new Set<number>();
+  const mapping: CsvColumnMapping = {};
+
+  fields.forEach((field) => {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])].map(normalizeCsvKey);
+    const index = normalizedHeaders.findIndex(
+      (header, headerIndex) => !used.has(headerIndex) && candidates.includes(header)
+    );
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+}
+
+export function getMissingRequiredFields(
+  fields: CsvImportField[],
+  mapping: CsvColumnMapping
+): CsvImportField[] {
+  return fields.filter((field) => field.required && mapping[field.key] == null);
+}
+
+/**
+ * Turns data rows (header excluded) into trimmed values keyed by field. The `'` that
+ * `toCsv` puts before formula-like text is dropped, so exports import back unchanged.
+ */
+export function applyColumnMapping(
+  rows: string[][],
+  fields: CsvImportField[],
+  mapping: CsvColumnMapping
+): CsvMappedRow[] {
+  return rows.map((cells, index) => {
+    const values: Record<string, string> = {};
+    fields.forEach((field) => {
+      const column = mapping[field.key];
+      values[field.key] =
+        column == null ? "" : (cells[column] ?? "").trim().replace(/^'(?=[=+\-@])/, "");
+    });
+    return { line: index + 2, values };
+  });
+}
+
+/**
+ * Matches a cell against a set of codes, accepting the code or its label in any case and
+ * without accents, e.g. "walk in" or "Walk-in" for WALK_IN. Returns null when nothing matches.
+ */
+export function matchCsvOption<T extends string>(
+  value: string,
+  options: readonly { value: T; label: string }[]
+): T | null {
+  const key = normalizeCsvKey(value);
+  return (
+    options.find(
+      (option) => normalizeCsvKey(option.value) === key || normalizeCsvKey(option.label) === key
+    )?.value ?? null
+  );
+}
+
+/** Accepts ISO dates (with or without a time) and dd/mm/yyyy; returns ISO or null. */
+export function parseCsvDate(value: string): string | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/);
+  const local = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (\d{2}):(\d{2}))?$/);
+  const parts = iso
+    ? { year: iso[1], month: iso[2], day: iso[3], hour: iso[4], minute: iso[5] }
+    : local
+      ? {
+          year: local[3],
+          month: local[2].padStart(2, "0"),
+          day: local[1].padStart(2, "0"),
+          hour: local[4],
+          minute: local[5]
+        }
+      : null;
+  if (!parts) return null;
+
+  const date = new Date(Number(parts.year), Number(parts.month) - 1, Number(parts.day));
+  if (date.getMonth() !== Number(parts.month) - 1 || date.getDate() !== Number(parts.day)) {
+    return null;
+  }
+  const day = `${parts.year}-${parts.month}-${parts.day}`;
+  return parts.hour ? `${day}T${parts.hour}:${parts.minute}` : day;
+}
@@ -0,0 +1,87 @@
+import { HttpError } from "@/shared/api/httpClient";
+import {
+  applyServerErrors,
+  getRowErrorMessage,
+  serverErrorTarget
+} from "@/shared/lib/serverErrors";
+
+type TenantForm = { first_name: string; email: string };
+type ContractForm = { move_in: string; unit_id: string };
+
+function validationError(body: unknown) {
+  return new HttpError("Request failed with status 400", 400, "/api/v1/leads/1/convert/", body);
+}
+
+describe("applyServerErrors", () => {
+  it("attaches nested errors to the matching form and summarizes the rest", () => {
+    const tenantErrors = vi.fn();
+    const contractErrors = vi.fn();
+
+    const summary = applyServerErrors(
+      validationError({
+        non_field_errors: ["Lead was already converted."],
+        tenant: { first_name: ["This field is required."], document: ["Invalid CPF."] },
+        contract: { move_in: ["Date is in the past."], unit: ["Unit is not available."] }
+      }),
+      [
+        serverErrorTarget<TenantForm>(tenantErrors, ["first_name", "email"], { prefix: "tenant" }),
+        serverErrorTarget<ContractForm>(contractErrors, ["move_in"], { prefix: "contract" })
+      ]
+    );
+
+    expect(tenantErrors).toHaveBeenCalledWith("first_name", {
+      type: "server",
+      message: "This field is required."
+    });
+    expect(contractErrors).toHaveBeenCalledWith("move_in", {
+      type: "server",
+      message: "Date is in the past."
+    });
+    expect(summary).toEqual([
+      "Lead was already converted.",
+      "tenant.document: Invalid CPF.",
+      "contract.unit: Unit is not available."
+    ]);
+  });
+
+  it("renames server fields through the field map", () => {
+    const setError = vi.fn();
+
+    const summary = applyServerErrors(
+      validationError({ unit: ["Unit is not available."] }),
+      serverErrorTarget<ContractForm>(setError, ["unit_id"], { fieldMap: { unit: "unit_id" } })
+    );
+
+    expect(setError).toHaveBeenCalledWith("unit_id", {
+      type: "server",
+      message: "Unit is not available."
+    });
+    expect(summary).toEqual([]);
+  });
+
+  it("returns null for anything that is not a DRF validation error", () => {
+    const target = serverErrorTarget<TenantForm>(vi.fn(), ["first_name"]);
+
+    expect(applyServerErrors(new HttpError("x", 409, "/api/", {}), target)).toBeNull();
+    expect(applyServerErrors(validationError("<html>Bad Request</html>"), target)).toBeNull();
+    expect(applyServerErrors(new Error("boom"), target)).toBeNull();
+  });
+});
+
+describe("getRowErrorMessage", () => {
+  it("joins validation messages without field names", () => {
+    const error = validationError({ unit_number: ["Already exists."], non_field_errors: ["Bad."] });
+
+    expect(getRowErrorMessage(error)).toBe("Bad. Already exists.");
+  });
+
+  it("falls back to the detail or status", () => {
+    expect(
+      getRowErrorMessage(new HttpError("Forbidden", 403, "/api/v1/tenants/", { detail: "Nope." }))
+    ).toBe("Nope.");
+    expect(getRowErrorMessage(new HttpError("Server error", 500, "/api/v1/tenants/", null))).toBe(
+      "Request failed with status 500."
+    );
+    expect(getRowErrorMessage(new Error("boom"))).toBe("Unexpected error.");
+  });
+});
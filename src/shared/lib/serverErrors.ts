@@ -0,0 +1,95 @@
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form";
+import { isHttpError } from "@/shared/api/errorHandling";
+
+// Keys DRF uses for errors that do not belong to one field.
+const GENERAL_ERROR_KEYS = new Set(["non_field_errors", "detail"]);
+
+// Tries to attach the messages for one server field path; returns false if it cannot.
+export type ServerErrorTarget = (path: string, messages: string[]) => boolean;
+
+type ServerErrorTargetOptions<T extends FieldValues> = {
+  // Only paths under this serializer are considered, e.g. "tenant" for `tenant.first_name`.
+  prefix?: string;
+  // Server field -> form field, for fields the form names differently (`unit` -> `unit_id`).
+  fieldMap?: Record<string, Path<T>>;
+};
+
+/**
+ * Binds a react-hook-form instance to server field paths. `fields` lists the form fields that
+ * render an inline error; messages for any other field end up in the form summary instead of
+ * being attached where nobody sees them.
+ */
+export function serverErrorTarget<T extends FieldValues>(
+  setError: UseFormSetError<T>,
+  fields: readonly Path<T>[],
+  options: ServerErrorTargetOptions<T> = {}
+): ServerErrorTarget {
+  const prefix = options.prefix ? `${options.prefix}.` : "";
+
+  return (path, messages) => {
+    if (!path.startsWith(prefix)) {
+      return false;
+    }
+    const serverField = path.slice(prefix.length);
+    const field = options.fieldMap?.[serverField] ?? (serverField as Path<T>);
+    if (!fields.includes(field)) {
+      return false;
+    }
+    setError(field, { type: "server", message: messages.join(" ") });
+    return true;
+  };
+}
+
+/**
+ * Maps a DRF 400 response onto form fields. Returns the messages no target could take (for
+ * the summary at the top of the form), or null when the error is not a DRF validation error.
+ */
+export function applyServerErrors(
+  error: unknown,
+  targets: ServerErrorTarget | ServerErrorTarget[]
+): string[] | null {
+  if (!isHttpError(error) || error.status !== 400) {
+    return null;
+  }
+  const entries = Object.entries(error.fieldErrors);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const targetList = Array.isArray(targets) ? targets : [targets];
+  const summary: string[] = [];
+
+  entries.forEach(([path, messages]) => {
+    const key = path.split(".").pop() ?? path;
+    if (GENERAL_ERROR_KEYS.has(key)) {
+      summary.push(...messages);
+    } else if (!targetList.some((target) => target(path, messages))) {
+      summary.push(`${path}: ${messages.join(" ")}`);
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * One line for a failed row in a bulk run, where each row is a single record: field names are
+ * dropped and the server detail or status stands in for non-validation errors.
+ */
+export function getRowErrorMessage(error: unknown): string {
+  const messages: string[] = [];
+  const summary = applyServerErrors(error, (_path, fieldMessages) => {
+    messages.push(...fieldMessages);
+    return true;
+  });
+  if (summary) {
+    return [...summary, ...messages].join(" ");
+  }
+  if (isHttpError(error)) {
+    const detail = (error.body as { detail?: unknown } | null)?.detail;
+    if (typeof detail === "string") {
+      return detail;
+    }
+    return error.status > 0 ? `Request failed with status ${error.status}.` : "Network error.";
+  }
+  return "Unexpected error.";
+}
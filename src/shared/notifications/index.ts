@@ -0,0 +1,2 @@
+export * from "@/shared/notifications/store";
+export * from "@/shared/notifications/useToasts";
@@ -0,0 +1,89 @@
+export type ToastTone = "success" | "error" | "info";
+
+export type Toast = {
+  id: number;
+  tone: ToastTone;
+  message: string;
+};
+
+type NotifyOptions = {
+  tone?: ToastTone;
+  // 0 keeps the toast until it is dismissed.
+  durationMs?: number;
+};
+
+const DEFAULT_DURATION_MS: Record<ToastTone, number> = {
+  success: 4_000,
+  info: 5_000,
+  error: 8_000
+};
+
+const MAX_TOASTS = 5;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+function emit(next: Toast[]) {
+  toasts = next;
+  listeners.forEach((listener) => listener());
+}
+
+function schedule(id: number, durationMs: number) {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  if (durationMs > 0) {
+    timers.set(
+      id,
+      setTimeout(() => dismissToast(id), durationMs)
+    );
+  }
+}
+
+export function dismissToast(id: number) {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  if (toasts.some((toast) => toast.id === id)) {
+    emit(toasts.filter((toast) => toast.id !== id));
+  }
+}
+
+export function notify(message: string, options: NotifyOptions = {}): number {
+  const tone = options.tone ?? "info";
+  const durationMs = options.durationMs ?? DEFAULT_DURATION_MS[tone];
+
+  // Several queries failing the same way (e.g. a 5xx burst) show one toast, not a stack.
+  const existing = toasts.find((toast) => toast.tone === tone && toast.message === message);
+  if (existing) {
+    schedule(existing.id, durationMs);
+    return existing.id;
+  }
+
+  const toast: Toast = { id: nextId++, tone, message };
+  const overflow = toasts.slice(0, Math.max(0, toasts.length - MAX_TOASTS + 1));
+  overflow.forEach((old) => {
+    clearTimeout(timers.get(old.id));
+    timers.delete(old.id);
+  });
+  emit([...toasts.slice(overflow.length), toast]);
+  schedule(toast.id, durationMs);
+  return toast.id;
+}
+
+notify.success = (message: string, options: Omit<NotifyOptions, "tone"> = {}) =>
+  notify(message, { ...options, tone: "success" });
+
+notify.error = (message: string, options: Omit<NotifyOptions, "tone"> = {}) =>
+  notify(message, { ...options, tone: "error" });
+
+export function getToasts(): Toast[] {
+  return toasts;
+}
+
+export function subscribeToasts(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
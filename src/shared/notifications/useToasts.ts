@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { getToasts, subscribeToasts } from "@/shared/notifications/store";
+
+export function useToasts() {
+  return useSyncExternalStore(subscribeToasts, getToasts);
+}
@@ -0,0 +1,88 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { CsvImportField, CsvMappedRow } from "@/shared/lib/csvImport";
+import { HttpError } from "@/shared/api/httpClient";
+import CsvImportWizard from "@/widgets/csvImport/ui/CsvImportWizard";
+
+type Payload = { name: string; email: string };
+
+const fields: CsvImportField[] = [
+  { key: "name", label: "Name", required: true },
+  { key: "email", label: "Email", aliases: ["e-mail"] }
+];
+
+function validate(rows: CsvMappedRow[]) {
+  return rows.map(({ line, values }) =>
+    values.name
+      ? { line, payload: { name: values.name, email: values.email ?? "" }, errors: [] }
+      : { line, payload: null, errors: ["Name is required."] }
+  );
+}
+
+function csvFile(content: string) {
+  return new File([content], "people.csv", { type: "text/csv" });
+}
+
+describe("CsvImportWizard", () => {
+  it("maps columns, skips invalid rows and reports failed imports", async () => {
+    const importRow = vi.fn(async (payload: Payload) => {
+      if (payload.name === "Bia") {
+        throw new HttpError("Bad Request", 400, "/api/v1/people/", {
+          email: ["Enter a valid email address."]
+        });
+      }
+      return payload;
+    });
+    const onImported = vi.fn();
+    render(
+      <CsvImportWizard
+        title="Import people"
+        entityName="people"
+        fields={fields}
+        validate={validate}
+        importRow={importRow}
+        onImported={onImported}
+        onClose={() => undefined}
+      />
+    );
+
+    await userEvent.upload(
+      screen.getByLabelText("CSV file"),
+      csvFile("Name;E-mail\nAna;ana@example.com\n;missing@example.com\nBia;bia@x\n")
+    );
+
+    expect(await screen.findByLabelText("Name *")).toHaveValue("0");
+    expect(screen.getByLabelText("Email")).toHaveValue("1");
+    await userEvent.click(screen.getByRole("button", { name: "Review rows" }));
+
+    expect(screen.getByText("Name is required.")).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "Import 2 rows" }));
+
+    expect(importRow.mock.calls.map(([payload]) => payload.name)).toEqual(["Ana", "Bia"]);
+    expect(await screen.findByText("1 imported, 1 failed, 1 skipped")).toBeInTheDocument();
+    expect(screen.getByText("Line 4: Enter a valid email address.")).toBeInTheDocument();
+    expect(onImported).toHaveBeenCalledTimes(1);
+  });
+
+  it("blocks the review until required fields are mapped", async () => {
+    render(
+      <CsvImportWizard
+        title="Import people"
+        entityName="people"
+        fields={fields}
+        validate={validate}
+        importRow={async () => undefined}
+        onImported={() => undefined}
+        onClose={() => undefined}
+      />
+    );
+
+    await userEvent.upload(
+      screen.getByLabelText("CSV file"),
+      csvFile("Full name,Email\nAna,a@b.c")
+    );
+
+    expect(await screen.findByText("Map the required fields: Name.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Review rows" })).toBeDisabled();
+  });
+});
@@ -0,0 +1,462 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ChangeEvent } from "react";
+import { downloadCsv, readCsvFile } from "@/shared/lib/csv";
+import {
+  applyColumnMapping,
+  autoMapColumns,
+  getMissingRequiredFields
+} from "@/shared/lib/csvImport";
+import type {
+  CsvColumnMapping,
+  CsvImportField,
+  CsvMappedRow,
+  CsvRowResult
+} from "@/shared/lib/csvImport";
+import { mapWithConcurrency } from "@/shared/lib/concurrency";
+import { getRowErrorMessage } from "@/shared/lib/serverErrors";
+import { notify } from "@/shared/notifications";
+import "./CsvImportWizard.css";
+
+type WizardStep = "upload" | "map" | "review" | "import";
+
+type ImportFailure = {
+  line: number;
+  error: string;
+};
+
+type CsvImportWizardProps<T> = {
+  title: string;
+  // Base name for the template download, e.g. "units" → units-template.csv.
+  entityName: string;
+  fields: CsvImportField[];
+  validate: (rows: CsvMappedRow[]) => CsvRowResult<T>[];
+  importRow: (payload: T) => Promise<unknown>;
+  onImported: () => void | Promise<void>;
+  onClose: () => void;
+};
+
+const STEPS: { key: WizardStep; label: string }[] = [
+  { key: "upload", label: "Upload" },
+  { key: "map", label: "Map columns" },
+  { key: "review", label: "Review" },
+  { key: "import", label: "Import" }
+];
+
+const MAX_IMPORT_ROWS = 5000;
+const IMPORT_CONCURRENCY = 4;
+const REVIEW_LIMIT = 200;
+
+export default function CsvImportWizard<T>({
+  title,
+  entityName,
+  fields,
+  validate,
+  importRow,
+  onImported,
+  onClose
+}: CsvImportWizardProps<T>) {
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [showOnlyErrors, setShowOnlyErrors] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<ImportFailure[] | null>(null);
+  // Frozen when the import starts: refetched lists would otherwise flag the
+  // rows that were just created as duplicates.
+  const [importedResults, setImportedResults] = useState<CsvRowResult<T>[] | null>(null);
+  const isRunning = progress !== null;
+
+  const missingFields = useMemo(() => getMissingRequiredFields(fields, mapping), [fields, mapping]);
+
+  const results = useMemo(
+    () =>
+      importedResults ??
+      (step === "review" ? validate(applyColumnMapping(dataRows, fields, mapping)) : []),
+    [dataRows, fields, importedResults, mapping, step, validate]
+  );
+  const validResults = results.filter((result) => result.payload !== null);
+  const invalidCount = results.length - validResults.length;
+  const reviewRows = (showOnlyErrors ? results.filter((result) => !result.payload) : results).slice(
+    0,
+    REVIEW_LIMIT
+  );
+
+  useEffect(() => {
+    const handleKeydown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isRunning) {
+        event.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeydown);
+    return () => {
+      document.removeEventListener("keydown", handleKeydown);
+    };
+  }, [isRunning, onClose]);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    setUploadError(null);
+    let rows: string[][];
+    try {
+      rows = await readCsvFile(file);
+    } catch {
+      setUploadError("Unable to read the file. Save it as CSV (UTF-8) and try again.");
+      return;
+    }
+    if (rows.length < 2) {
+      setUploadError("The file needs a header row and at least one data row.");
+      return;
+    }
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      setUploadError(`Import at most ${MAX_IMPORT_ROWS} rows at a time.`);
+      return;
+    }
+
+    const [headerRow, ...body] = rows;
+    setFileName(file.name);
+    setHeaders(headerRow.map((header) => header.trim()));
+    setDataRows(body);
+    setMapping(autoMapColumns(headerRow, fields));
+    setStep("map");
+  };
+
+  const handleMappingChange = (fieldKey: string, value: string) => {
+    setMapping((prev) => ({ ...prev, [fieldKey]: value === "" ? null : Number(value) }));
+  };
+
+  const downloadTemplate = () => {
+    downloadCsv(`${entityName}-template.csv`, [fields.map((field) => field.key)]);
+  };
+
+  const downloadErrorReport = () => {
+    const errorsByLine = new Map<number, string>();
+    results.forEach((result) => {
+      if (result.errors.length > 0) errorsByLine.set(result.line, result.errors.join(" "));
+    });
+    failures?.forEach((failure) => errorsByLine.set(failure.line, failure.error));
+
+    downloadCsv(`${entityName}-import-errors.csv`, [
+      ["line", ...headers, "error"],
+      ...[...errorsByLine.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([line, error]) => [line, ...dataRows[line - 2], error])
+    ]);
+  };
+
+  const runImport = async () => {
+    if (validResults.length === 0 || isRunning) {
+      return;
+    }
+
+    setImportedResults(results);
+    setStep("import");
+    setFailures(null);
+    setProgress({ completed: 0, total: validResults.length });
+
+    const settled = await mapWithConcurrency(
+      validResults,
+      IMPORT_CONCURRENCY,
+      (result) => importRow(result.payload as T),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const failed = settled.flatMap((result) =>
+      result.status === "rejected"
+        ? [{ line: result.item.line, error: getRowErrorMessage(result.reason) }]
+        : []
+    );
+    setFailures(failed);
+    setProgress(null);
+
+    const imported = settled.length - failed.length;
+    if (imported > 0) {
+      notify.success(`${imported} ${imported === 1 ? "row" : "rows"} imported.`);
+      await onImported();
+    }
+  };
+
+  const stepIndex = STEPS.findIndex((item) => item.key === step);
+
+  return (
+    <div className="csv-import" role="dialog" aria-modal="true" aria-labelledby="csv-import-title">
+      <div className="csv-import__overlay" onClick={isRunning ? undefined : onClose} />
+      <div className="csv-import__panel">
+        <div className="csv-import__header">
+          <h2 id="csv-import-title">{title}</h2>
+          <button
+            type="button"
+            className="csv-import__close"
+            onClick={onClose}
+            disabled={isRunning}
+            aria-label="Close"
+          >
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <ol className="csv-import__steps">
+          {STEPS.map((item, index) => (
+            <li
+              key={item.key}
+              className={[
+                "csv-import__step",
+                index === stepIndex && "csv-import__step--active",
+                index < stepIndex && "csv-import__step--done"
+              ]
+                .filter(Boolean)
+                .join(" ")}
+            >
+              <span className="csv-import__step-number">{index + 1}</span>
+              {item.label}
+            </li>
+          ))}
+        </ol>
+
+        {step === "upload" && (
+          <div className="csv-import__body">
+            <label className="csv-import__dropzone">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                aria-label="CSV file"
+                onChange={handleFileChange}
+              />
+              <strong>Choose a CSV file</strong>
+              <span>
+                The first row must hold the column names. Comma and semicolon separated files are
+                both accepted.
+              </span>
+            </label>
+            {uploadError && <div className="csv-import__alert">{uploadError}</div>}
+            <div className="csv-import__actions">
+              <button type="button" className="csv-import__button" onClick={downloadTemplate}>
+                Download template
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="csv-import__body">
+            <p className="csv-import__hint">
+              {fileName}: {dataRows.length} {dataRows.length === 1 ? "row" : "rows"}. Choose the
+              column for each field.
+            </p>
+            <table className="csv-import__table">
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>Column</th>
+                  <th>First row</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field) => {
+                  const column = mapping[field.key];
+                  return (
+                    <tr key={field.key}>
+                      <td>
+                        <label htmlFor={`csv-import-${field.key}`}>
+                          {field.label}
+                          {field.required && " *"}
+                        </label>
+                      </td>
+                      <td>
+                        <select
+                          id={`csv-import-${field.key}`}
+                          className="csv-import__select"
+                          value={column ?? ""}
+                          onChange={(event) => handleMappingChange(field.key, event.target.value)}
+                        >
+                          <option value="">Not imported</option>
+                          {headers.map((header, index) => (
+                            <option key={index} value={index}>
+                              {header || `Column ${index + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="csv-import__sample">
+                        {column == null ? "-" : (dataRows[0]?.[column] ?? "")}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {missingFields.length > 0 && (
+              <div className="csv-import__alert">
+                Map the required fields: {missingFields.map((field) => field.label).join(", ")}.
+              </div>
+            )}
+            <div className="csv-import__actions">
+              <button
+                type="button"
+                className="csv-import__button"
+                onClick={() => setStep("upload")}
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                className="csv-import__primary"
+                onClick={() => setStep("review")}
+                disabled={missingFields.length > 0}
+              >
+                Review rows
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="csv-import__body">
+            <div className="csv-import__summary">
+              <span>
+                <strong>{validResults.length}</strong> ready to import
+              </span>
+              <span className={invalidCount > 0 ? "csv-import__summary-errors" : undefined}>
+                <strong>{invalidCount}</strong> with errors (skipped)
+              </span>
+              <label className="csv-import__toggle">
+                <input
+                  type="checkbox"
+                  checked={showOnlyErrors}
+                  onChange={(event) => setShowOnlyErrors(event.target.checked)}
+                />
+                Only rows with errors
+              </label>
+            </div>
+            <div className="csv-import__table-scroll">
+              <table className="csv-import__table">
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    {fields
+                      .filter((field) => mapping[field.key] != null)
+                      .map((field) => (
+                        <th key={field.key}>{field.label}</th>
+                      ))}
+                    <th>Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reviewRows.map((result) => (
+                    <tr
+                      key={result.line}
+                      className={result.payload ? undefined : "csv-import__row--error"}
+                    >
+                      <td>{result.line}</td>
+                      {fields
+                        .filter((field) => mapping[field.key] != null)
+                        .map((field) => (
+                          <td key={field.key}>
+                            {dataRows[result.line - 2][mapping[field.key] as number]}
+                          </td>
+                        ))}
+                      <td>{result.payload ? "OK" : result.errors.join(" ")}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {results.length > REVIEW_LIMIT && (
+              <p className="csv-import__hint">Showing the first {REVIEW_LIMIT} rows.</p>
+            )}
+            <div className="csv-import__actions">
+              {invalidCount > 0 && (
+                <button
+                  type="button"
+                  className="csv-import__button csv-import__button--left"
+                  onClick={downloadErrorReport}
+                >
+                  Download errors
+                </button>
+              )}
+              <button type="button" className="csv-import__button" onClick={() => setStep("map")}>
+                Back
+              </button>
+              <button
+                type="button"
+                className="csv-import__primary"
+                onClick={runImport}
+                disabled={validResults.length === 0}
+              >
+                Import {validResults.length} {validResults.length === 1 ? "row" : "rows"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === "import" && (
+          <div className="csv-import__body">
+            {progress && (
+              <div className="csv-import__progress" role="status">
+                <span>
+                  Importing {progress.completed} of {progress.total}...
+                </span>
+                <progress value={progress.completed} max={progress.total} />
+              </div>
+            )}
+            {failures && (
+              <div className="csv-import__report" role="status">
+                <strong>
+                  {validResults.length - failures.length} imported, {failures.length} failed
+                  {invalidCount > 0 && `, ${invalidCount} skipped`}
+                </strong>
+                {failures.length > 0 && (
+                  <ul className="csv-import__report-list">
+                    {failures.map((failure) => (
+                      <li key={failure.line}>
+                        Line {failure.line}: {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <div className="csv-import__actions">
+              {failures && (failures.length > 0 || invalidCount > 0) && (
+                <button
+                  type="button"
+                  className="csv-import__button csv-import__button--left"
+                  onClick={downloadErrorReport}
+                >
+                  Download errors
+                </button>
+              )}
+              <button
+                type="button"
+                className="csv-import__primary"
+                onClick={onClose}
+                disabled={isRunning}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,20 @@
-import { NavLink, Outlet, Navigate } from "react-router-dom";
+import { NavLink, Outlet } from "react-router-dom";
 import FacilitySelector from "@/components/FacilitySelector";
-import { useAuth } from "@/shared/auth";
-import type { Role } from "@/shared/auth";
-import { useState } from "react";
+import { getRoleLabel, useAuth } from "@/shared/auth";
+import type { Permission } from "@/shared/auth";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useCallback, useEffect, useState } from "react";
+import QuickLeadCapture from "@/widgets/leads/ui/QuickLeadCapture";
+import ToastStack from "@/widgets/notifications/ui/ToastStack";
+import IdleTimeoutDialog from "@/widgets/session/ui/IdleTimeoutDialog";
+import SessionExpiredDialog from "@/widgets/session/ui/SessionExpiredDialog";
 import "./AuthenticatedLayout.css";
 
 type NavItem = {
   to: string;
   label: string;
   icon: string;
-  roles?: Role[];
+  permission?: Permission;
 };
 
 type NavSection = {
@@ -27,7 +32,7 @@ const NAV_ITEMS: NavEntry[] = [
     to: "/leads",
     label: "Leads",
     icon: "target",
-    roles: ["admin", "admin_corporativo", "gerente", "ops"]
+    permission: "leads.view_lead"
   },
 
   { type: "section", label: "Operações" },
@@ -35,19 +40,25 @@ const NAV_ITEMS: NavEntry[] = [
     to: "/tenants",
     label: "Inquilinos",
     icon: "user",
-    roles: ["admin", "admin_corporativo", "gerente", "ops", "financeiro"]
+    permission: "tenants.view_tenant"
   },
   {
     to: "/units",
     label: "Unidades",
     icon: "box",
-    roles: ["admin", "admin_corporativo", "gerente", "financeiro"]
+    permission: "units.view_unit"
+  },
+  {
+    to: "/unit-types",
+    label: "Tipos de unidade",
+    icon: "grid",
+    permission: "units.view_unittype"
   },
   {
     to: "/contracts",
     label: "Contratos",
     icon: "contract",
-    roles: ["admin", "admin_corporativo", "gerente", "ops", "financeiro"]
+    permission: "contracts.view_contract"
   },
 
   { type: "section", label: "Financeiro" },
@@ -55,13 +66,13 @@ const NAV_ITEMS: NavEntry[] = [
     to: "/invoices",
     label: "Faturas",
     icon: "receipt",
-    roles: ["admin", "admin_corporativo", "gerente", "financeiro"]
+    permission: "billing.view_invoice"
   },
   {
     to: "/payments",
     label: "Pagamentos",
     icon: "payment",
-    roles: ["admin", "admin_corporativo", "gerente", "financeiro"]
+    permission: "billing.view_payment"
   },
 
   { type: "section", label: "Administração" },
@@ -69,15 +80,15 @@ const NAV_ITEMS: NavEntry[] = [
     to: "/facilities",
     label: "Filiais",
     icon: "building",
-    roles: ["admin", "admin_corporativo", "gerente"]
+    permission: "facilities.view_facility"
   },
   {
     to: "/organizations",
     label: "Organizações",
     icon: "briefcase",
-    roles: ["admin", "admin_corporativo"]
+    permission: "organizations.view_organization"
   },
-  { to: "/users", label: "Usuários", icon: "users", roles: ["admin", "admin_corporativo"] }
+  { to: "/users", label: "Usuários", icon: "users", permission: "users.view_userprofile" }
 ];
 
 const ICONS: Record<string, JSX.Element> = {
@@ -252,13 +263,29 @@ const ICONS: Record<string, JSX.Element> = {
 };
 
 export default function AuthenticatedLayout() {
-  const { user, logout, isAuthenticated } = useAuth();
+  const { user, logout } = useAuth();
+  const { hasPermission } = usePermissions();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [quickCaptureOpen, setQuickCaptureOpen] = useState(false);
 
-  if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
-  }
+  const canCaptureLeads = hasPermission("leads.add_lead");
+  const closeQuickCapture = useCallback(() => setQuickCaptureOpen(false), []);
+
+  // Alt+L opens quick lead capture from any screen.
+  useEffect(() => {
+    if (!canCaptureLeads) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.altKey && !e.ctrlKey && !e.metaKey && e.code === "KeyL") {
+        e.preventDefault();
+        setQuickCaptureOpen(true);
+      }
+    };
+
+    document.addEventListener("keydown", handleKey);
+    return () => document.removeEventListener("keydown", handleKey);
+  }, [canCaptureLeads]);
 
   // Build visible entries: include sections only if they have at least one visible item
   const visibleEntries = (() => {
@@ -269,7 +296,7 @@ export default function AuthenticatedLayout() {
       if ("type" in entry) {
         pendingSection = entry;
       } else {
-        const isVisible = !entry.roles || (user && entry.roles.some((r) => user.roles.includes(r)));
+        const isVisible = !entry.permission || hasPermission(entry.permission);
         if (isVisible) {
           if (pendingSection) {
             result.push(pendingSection);
@@ -446,15 +473,24 @@ export default function AuthenticatedLayout() {
           </nav>
 
           <div className="sidebar__footer">
-            <div className="sidebar__user-info">
-              <div className="sidebar__avatar">{user?.name?.charAt(0).toUpperCase() || "U"}</div>
+            <NavLink
+              to="/profile"
+              className="sidebar__user-info"
+              title="Meu perfil"
+              onClick={() => setSidebarOpen(false)}
+            >
+              {user?.avatarUrl ? (
+                <img className="sidebar__avatar" src={user.avatarUrl} alt="" />
+              ) : (
+                <div className="sidebar__avatar">{user?.name?.charAt(0).toUpperCase() || "U"}</div>
+              )}
               <div className="sidebar__user-details">
                 <span className="sidebar__user-name">{user?.name}</span>
                 <span className="sidebar__user-role">
-                  {user?.roles?.[0]?.replace("_", " ") || "user"}
+                  {getRoleLabel(user?.roles?.[0]) || "user"}
                 </span>
               </div>
-            </div>
+            </NavLink>
           </div>
         </div>
       </aside>
@@ -462,7 +498,7 @@ export default function AuthenticatedLayout() {
       {sidebarOpen && <div className="sidebar-overlay" onClick={() => setSidebarOpen(false)} />}
 
       <div className="main-area">
-        <header className="mobile-bar">
+        <header className={`mobile-bar ${canCaptureLeads ? "mobile-bar--actions" : ""}`}>
           <button
             type="button"
             className="mobile-bar__toggle"
@@ -485,11 +521,39 @@ export default function AuthenticatedLayout() {
             </svg>
           </button>
           <span className="mobile-bar__brand">AkiraLab</span>
+          {canCaptureLeads && (
+            <button
+              type="button"
+              className="mobile-bar__action"
+              onClick={() => setQuickCaptureOpen(true)}
+              title="Captura rápida de lead (Alt+L)"
+            >
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <line x1="12" y1="5" x2="12" y2="19" />
+                <line x1="5" y1="12" x2="19" y2="12" />
+              </svg>
+              Novo lead
+            </button>
+          )}
         </header>
         <div className="main-content">
           <Outlet />
         </div>
       </div>
+
+      {quickCaptureOpen && <QuickLeadCapture onClose={closeQuickCapture} />}
+      <IdleTimeoutDialog />
+      <SessionExpiredDialog />
+      <ToastStack />
     </div>
   );
 }
@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import type { Lead, LeadStage } from "@/api/leads";
+import { useLeads } from "@/features/leads/queries";
+import { useAuth } from "@/shared/auth";
+import "./FollowUpsDue.css";
+
+const MAX_ITEMS = 20;
+// Won and lost leads keep their last follow-up date but need no more calls.
+const OPEN_STAGES: LeadStage[] = ["NEW", "CONTACTED", "QUALIFIED", "PROPOSAL"];
+
+type FollowUpsDueProps = {
+  onOpenLead: (lead: Lead) => void;
+};
+
+function getEndOfToday(): Date {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function formatFollowUp(dateString: string, startOfToday: Date): string {
+  const date = new Date(dateString);
+  const time = date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  if (date < startOfToday) {
+    return `Overdue since ${date.toLocaleDateString()}`;
+  }
+  return `Today at ${time}`;
+}
+
+export default function FollowUpsDue({ onOpenLead }: FollowUpsDueProps) {
+  const { user } = useAuth();
+  // Fixed per mount so the query key stays stable across renders.
+  const [followUpBefore] = useState(() => getEndOfToday().toISOString());
+  const userId = user?.id;
+
+  // The list is open-ended on the left, so overdue follow-ups are included too. Closed
+  // stages are excluded by the server so `count` matches what the list shows.
+  const followUpsQuery = useLeads(
+    {
+      owner_id: userId,
+      stage__in: OPEN_STAGES,
+      follow_up_before: followUpBefore,
+      page_size: MAX_ITEMS
+    },
+    { enabled: !!userId }
+  );
+  const isLoading = followUpsQuery.isLoading;
+  const loadError = followUpsQuery.isError ? "Unable to load your follow-ups." : null;
+  const count = followUpsQuery.data?.count ?? 0;
+
+  const leads = useMemo(
+    () =>
+      (followUpsQuery.data?.results ?? [])
+        .filter((lead) => lead.next_follow_up_at)
+        .sort(
+          (a, b) =>
+            new Date(a.next_follow_up_at as string).getTime() -
+            new Date(b.next_follow_up_at as string).getTime()
+        ),
+    [followUpsQuery.data]
+  );
+
+  if (!userId) {
+    return null;
+  }
+
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  return (
+    <section className="follow-ups" aria-labelledby="follow-ups-title">
+      <header className="follow-ups__header">
+        <h2 id="follow-ups-title">My follow-ups due today</h2>
+        {!isLoading && <span className="follow-ups__count">{count}</span>}
+      </header>
+
+      {loadError ? (
+        <p className="follow-ups__empty">{loadError}</p>
+      ) : isLoading ? (
+        <p className="follow-ups__empty">Loading follow-ups...</p>
+      ) : leads.length === 0 ? (
+        <p className="follow-ups__empty">Nothing due today.</p>
+      ) : (
+        <ul className="follow-ups__list">
+          {leads.map((lead) => {
+            const isOverdue = new Date(lead.next_follow_up_at as string) < startOfToday;
+            return (
+              <li key={lead.id} className="follow-ups__item">
+                <button type="button" className="follow-ups__name" onClick={() => onOpenLead(lead)}>
+                  {lead.first_name} {lead.last_name}
+                </button>
+                <span className="follow-ups__contact">
+                  {lead.phone_primary || lead.email || "No contact info"}
+                </span>
+                <span
+                  className={`follow-ups__when ${isOverdue ? "follow-ups__when--overdue" : ""}`}
+                >
+                  {formatFollowUp(lead.next_follow_up_at as string, startOfToday)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {count > leads.length && !isLoading && !loadError && (
+        <p className="follow-ups__more">+{count - leads.length} more</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import type { DragEvent } from "react";
+import type { Lead, LeadStage } from "@/api/leads";
+import "./LeadsBoard.css";
+
+type StageOption = {
+  value: LeadStage;
+  label: string;
+  color: string;
+};
+
+export type LeadsBoardColumn = {
+  leads: Lead[];
+  count: number;
+};
+
+// Checkboxes on one column (NEW, for triage) feeding the page's bulk actions.
+export type LeadsBoardSelection = {
+  stage: LeadStage;
+  selectedIds: ReadonlySet<number>;
+  disabled?: boolean;
+  onToggleLead: (lead: Lead) => void;
+  onToggleColumn: (leads: Lead[], selected: boolean) => void;
+};
+
+type LeadsBoardProps = {
+  stages: StageOption[];
+  columns: Record<LeadStage, LeadsBoardColumn>;
+  isLoading?: boolean;
+  selection?: LeadsBoardSelection;
+  onMoveLead: (lead: Lead, stage: LeadStage) => void;
+  onOpenLead: (lead: Lead) => void;
+};
+
+const DRAG_DATA_TYPE = "application/x-lead-id";
+
+export default function LeadsBoard({
+  stages,
+  columns,
+  isLoading = false,
+  selection,
+  onMoveLead,
+  onOpenLead
+}: LeadsBoardProps) {
+  const [draggingLead, setDraggingLead] = useState<Lead | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStage | null>(null);
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, lead: Lead) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData(DRAG_DATA_TYPE, String(lead.id));
+    setDraggingLead(lead);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingLead(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, stage: LeadStage) => {
+    if (!draggingLead) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = draggingLead.stage === stage ? "none" : "move";
+    if (dropTarget !== stage) {
+      setDropTarget(stage);
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, stage: LeadStage) => {
+    event.preventDefault();
+    const lead = draggingLead;
+    setDraggingLead(null);
+    setDropTarget(null);
+
+    if (lead && lead.stage !== stage) {
+      onMoveLead(lead, stage);
+    }
+  };
+
+  return (
+    <div className="leads-board">
+      {stages.map((stage) => {
+        const column = columns[stage.value];
+        const isDropTarget = dropTarget === stage.value && draggingLead?.stage !== stage.value;
+        const columnSelection = selection?.stage === stage.value ? selection : null;
+        const selectedInColumn = columnSelection
+          ? column.leads.filter((lead) => columnSelection.selectedIds.has(lead.id)).length
+          : 0;
+        const isColumnSelected =
+          column.leads.length > 0 && selectedInColumn === column.leads.length;
+
+        return (
+          <section
+            key={stage.value}
+            className={`leads-board__column ${isDropTarget ? "leads-board__column--over" : ""}`}
+            style={{ borderTopColor: stage.color }}
+            aria-label={`${stage.label} leads`}
+            onDragOver={(event) => handleDragOver(event, stage.value)}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(event) => handleDrop(event, stage.value)}
+          >
+            <header className="leads-board__column-header">
+              <span className="leads-board__column-heading">
+                {columnSelection && (
+                  <input
+                    type="checkbox"
+                    checked={isColumnSelected}
+                    ref={(node) => {
+                      if (node) {
+                        node.indeterminate = selectedInColumn > 0 && !isColumnSelected;
+                      }
+                    }}
+                    onChange={() => columnSelection.onToggleColumn(column.leads, !isColumnSelected)}
+                    disabled={column.leads.length === 0 || columnSelection.disabled}
+                    aria-label={`Select all ${stage.label} leads`}
+                  />
+                )}
+                <span className="leads-board__column-title" style={{ color: stage.color }}>
+                  {stage.label}
+                </span>
+              </span>
+              <span
+                className="leads-board__column-count"
+                style={{ backgroundColor: `${stage.color}15`, color: stage.color }}
+              >
+                {column.count}
+              </span>
+            </header>
+
+            <div className="leads-board__cards">
+              {column.leads.length === 0 ? (
+                <div className="leads-board__empty">{isLoading ? "Loading..." : "No leads"}</div>
+              ) : (
+                column.leads.map((lead) => (
+                  <article
+                    key={lead.id}
+                    className={`leads-board__card ${
+                      draggingLead?.id === lead.id ? "leads-board__card--dragging" : ""
+                    }`}
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, lead)}
+                    onDragEnd={handleDragEnd}
+                  >
+                    <span className="leads-board__card-title">
+                      {columnSelection && (
+                        <input
+                          type="checkbox"
+                          checked={columnSelection.selectedIds.has(lead.id)}
+                          onChange={() => columnSelection.onToggleLead(lead)}
+                          disabled={columnSelection.disabled}
+                          aria-label={`Select ${lead.first_name} ${lead.last_name}`}
+                        />
+                      )}
+                      <button
+                        type="button"
+                        className="leads-board__card-name"
+                        onClick={() => onOpenLead(lead)}
+                      >
+                        {lead.first_name} {lead.last_name}
+                      </button>
+                    </span>
+                    {(lead.email || lead.phone_primary) && (
+                      <span className="leads-board__card-meta">
+                        {lead.email || lead.phone_primary}
+                      </span>
+                    )}
+                    <span className="leads-board__card-owner">
+                      {lead.owner?.name || lead.owner?.email || "Unassigned"}
+                    </span>
+                  </article>
+                ))
+              )}
+              {column.count > column.leads.length && (
+                <div className="leads-board__more">+{column.count - column.leads.length} more</div>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
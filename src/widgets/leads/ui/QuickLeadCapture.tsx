@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Link } from "react-router-dom";
+import { leadsApi } from "@/api/leads";
+import type { Lead } from "@/api/leads";
+import { tenantsApi } from "@/api/tenants";
+import { useCreateLead } from "@/features/leads/queries";
+import { useUnits } from "@/features/units/queries";
+import { isHttpError, notifyHttpError } from "@/shared/api/errorHandling";
+import { applyServerErrors, serverErrorTarget } from "@/shared/lib/serverErrors";
+import "./QuickLeadCapture.css";
+
+const SOURCE_OPTIONS = [
+  { value: "PHONE", label: "Phone" },
+  { value: "WALK_IN", label: "Walk-in" },
+  { value: "WEBSITE", label: "Website" },
+  { value: "REFERRAL", label: "Referral" },
+  { value: "CAMPAIGN", label: "Campaign" },
+  { value: "OTHER", label: "Other" }
+];
+
+type QuickLeadFormValues = {
+  name: string;
+  phone: string;
+  email: string;
+  source: string;
+  unit_id: string;
+};
+
+type Duplicate = {
+  kind: "lead" | "tenant";
+  id: number;
+  name: string;
+  contact: string;
+};
+
+const DEFAULT_VALUES: QuickLeadFormValues = {
+  name: "",
+  phone: "",
+  email: "",
+  source: "PHONE",
+  unit_id: ""
+};
+
+function splitName(fullName: string): { first_name: string; last_name: string } {
+  const [first, ...rest] = fullName.trim().split(/\s+/);
+  return { first_name: first ?? "", last_name: rest.join(" ") };
+}
+
+function normalizeEmail(value: string | null | undefined): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+function normalizePhone(value: string | null | undefined): string {
+  return (value ?? "").replace(/\D/g, "");
+}
+
+async function findDuplicates(email: string, phone: string): Promise<Duplicate[]> {
+  const emailKey = normalizeEmail(email);
+  const phoneKey = normalizePhone(phone);
+  // Search by digits only, so "(11) 98765-4321" finds a lead stored as "11987654321".
+  const terms = [emailKey, phoneKey].filter(Boolean);
+
+  const matches = (candidateEmail: string | null, phones: (string | null)[]) =>
+    (!!emailKey && normalizeEmail(candidateEmail) === emailKey) ||
+    (!!phoneKey && phones.some((candidate) => normalizePhone(candidate) === phoneKey));
+
+  // The check is only a warning: a failed lookup counts as no match and the save goes on.
+  const [leads, tenants] = await Promise.all([
+    Promise.all(
+      terms.map((term) =>
+        leadsApi.list({ q: term, page_size: 10 }).then(
+          (response) => response.results,
+          () => []
+        )
+      )
+    ),
+    Promise.all(terms.map((term) => tenantsApi.list({ q: term }).catch(() => [])))
+  ]);
+
+  const found = new Map<string, Duplicate>();
+  leads
+    .flat()
+    .filter((lead) => matches(lead.email, [lead.phone_primary, lead.phone_secondary]))
+    .forEach((lead) => {
+      found.set(`lead-${lead.id}`, {
+        kind: "lead",
+        id: lead.id,
+        name: `${lead.first_name} ${lead.last_name}`.trim(),
+        contact: lead.email || lead.phone_primary || ""
+      });
+    });
+  tenants
+    .flat()
+    .filter((tenant) => matches(tenant.email, [tenant.phone_primary, tenant.phone_secondary]))
+    .forEach((tenant) => {
+      found.set(`tenant-${tenant.id}`, {
+        kind: "tenant",
+        id: tenant.id,
+        name: `${tenant.first_name} ${tenant.last_name}`.trim(),
+        contact: tenant.email || tenant.phone_primary || ""
+      });
+    });
+
+  return Array.from(found.values());
+}
+
+type QuickLeadCaptureProps = {
+  onClose: () => void;
+};
+
+export default function QuickLeadCapture({ onClose }: QuickLeadCaptureProps) {
+  // The unit of interest is optional; capture still works without the list.
+  const unitsQuery = useUnits();
+  const createLead = useCreateLead();
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<Duplicate[] | null>(null);
+  const [createdLead, setCreatedLead] = useState<Lead | null>(null);
+  const firstInputRef = useRef<HTMLInputElement | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    watch,
+    formState: { errors }
+  } = useForm<QuickLeadFormValues>({ defaultValues: DEFAULT_VALUES });
+
+  const { ref: nameRegisterRef, ...nameRegister } = register("name", {
+    required: "Name is required.",
+    validate: (value) => value.trim().split(/\s+/).length >= 2 || "Enter both first and last name."
+  });
+
+  const units = useMemo(
+    () => (unitsQuery.data ?? []).filter((unit) => unit.status === "LIVRE"),
+    [unitsQuery.data]
+  );
+
+  const watchedEmail = watch("email");
+  const watchedPhone = watch("phone");
+
+  // A duplicate warning is only valid for the contact data it was computed from.
+  useEffect(() => {
+    setDuplicates(null);
+  }, [watchedEmail, watchedPhone]);
+
+  useEffect(() => {
+    firstInputRef.current?.focus();
+
+    const handleKeydown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeydown);
+    return () => {
+      document.removeEventListener("keydown", handleKeydown);
+    };
+  }, [onClose]);
+
+  const onSubmit = async (values: QuickLeadFormValues) => {
+    setFormError(null);
+
+    if (!values.email.trim() && !values.phone.trim()) {
+      setFormError("Enter a phone number or an email.");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      // First submit checks for duplicates; submitting again with the warning shown saves anyway.
+      if (duplicates === null) {
+        const found = await findDuplicates(values.email.trim(), values.phone.trim());
+        if (found.length > 0) {
+          setDuplicates(found);
+          return;
+        }
+      }
+
+      const lead = await createLead.mutateAsync({
+        ...splitName(values.name),
+        email: values.email.trim() || null,
+        phone_primary: values.phone.trim() || null,
+        source: values.source || null,
+        stage: "NEW",
+        unit_of_interest: values.unit_id ? Number(values.unit_id) : null
+      });
+
+      setCreatedLead(lead);
+      setDuplicates(null);
+      reset(DEFAULT_VALUES);
+    } catch (error) {
+      const summary = applyServerErrors(
+        error,
+        serverErrorTarget(setError, ["name"], {
+          fieldMap: { first_name: "name", last_name: "name" }
+        })
+      );
+      if (summary) {
+        setFormError(summary.length > 0 ? summary.join(" ") : null);
+      } else if (isHttpError(error) && error.status === 400) {
+        setFormError("Unable to save lead. Please check the fields and try again.");
+      } else if (!notifyHttpError(error)) {
+        setFormError("Unexpected error while saving lead.");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="quick-lead" role="dialog" aria-modal="true" aria-labelledby="quick-lead-title">
+      <div className="quick-lead__overlay" onClick={onClose} />
+      <div className="quick-lead__panel">
+        <div className="quick-lead__header">
+          <div>
+            <h2 id="quick-lead-title">Quick lead capture</h2>
+            <p className="quick-lead__subtitle">Saved as a new lead in the current facility.</p>
+          </div>
+          <button type="button" className="quick-lead__button" onClick={onClose}>
+            Close
+          </button>
+        </div>
+
+        {createdLead && (
+          <div className="quick-lead__alert quick-lead__alert--success" role="status">
+            Lead {createdLead.first_name} {createdLead.last_name} created.{" "}
+            <Link to={`/leads/${createdLead.id}`} onClick={onClose}>
+              Open lead
+            </Link>
+          </div>
+        )}
+
+        <form className="quick-lead__form" onSubmit={handleSubmit(onSubmit)}>
+          {formError && (
+            <div className="quick-lead__alert quick-lead__alert--error">{formError}</div>
+          )}
+          <label className="quick-lead__field">
+            <span>Name *</span>
+            <input
+              type="text"
+              {...nameRegister}
+              ref={(node) => {
+                nameRegisterRef(node);
+                firstInputRef.current = node;
+              }}
+              className={
+                errors.name ? "quick-lead__input quick-lead__input--error" : "quick-lead__input"
+              }
+              placeholder="First and last name"
+              onFocus={() => setCreatedLead(null)}
+            />
+            {errors.name && <span className="quick-lead__error">{errors.name.message}</span>}
+          </label>
+
+          <div className="quick-lead__grid">
+            <label className="quick-lead__field">
+              <span>Phone</span>
+              <input type="tel" {...register("phone")} className="quick-lead__input" />
+            </label>
+
+            <label className="quick-lead__field">
+              <span>Email</span>
+              <input type="email" {...register("email")} className="quick-lead__input" />
+            </label>
+          </div>
+
+          <div className="quick-lead__grid">
+            <label className="quick-lead__field">
+              <span>Source</span>
+              <select {...register("source")} className="quick-lead__input">
+                {SOURCE_OPTIONS.map((sourceOption) => (
+                  <option key={sourceOption.value} value={sourceOption.value}>
+                    {sourceOption.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="quick-lead__field">
+              <span>Unit of interest</span>
+              <select {...register("unit_id")} className="quick-lead__input">
+                <option value="">None</option>
+                {units.map((unit) => (
+                  <option key={unit.id} value={unit.id}>
+                    {unit.unit_number}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {duplicates && duplicates.length > 0 && (
+            <div className="quick-lead__alert quick-lead__alert--warning" role="alert">
+              <strong>Possible duplicates found:</strong>
+              <ul className="quick-lead__duplicates">
+                {duplicates.map((duplicate) => (
+                  <li key={`${duplicate.kind}-${duplicate.id}`}>
+                    <Link
+                      to={
+                        duplicate.kind === "lead"
+                          ? `/leads/${duplicate.id}`
+                          : `/tenants/${duplicate.id}`
+                      }
+                      onClick={onClose}
+                    >
+                      {duplicate.name || `#${duplicate.id}`}
+                    </Link>{" "}
+                    ({duplicate.kind === "lead" ? "lead" : "tenant"}
+                    {duplicate.contact ? `, ${duplicate.contact}` : ""})
+                  </li>
+                ))}
+              </ul>
+              <span>Save again to create the lead anyway.</span>
+            </div>
+          )}
+
+          <div className="quick-lead__actions">
+            <button type="button" className="quick-lead__button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="quick-lead__primary" disabled={isSaving}>
+              {isSaving ? "Saving..." : duplicates?.length ? "Save anyway" : "Save lead"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
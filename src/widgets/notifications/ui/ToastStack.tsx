@@ -0,0 +1,32 @@
+import { dismissToast, useToasts } from "@/shared/notifications";
+import "./ToastStack.css";
+
+export default function ToastStack() {
+  const toasts = useToasts();
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="toast-stack" aria-live="polite">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`toast toast--${toast.tone}`}
+          role={toast.tone === "error" ? "alert" : "status"}
+        >
+          <span className="toast__message">{toast.message}</span>
+          <button
+            type="button"
+            className="toast__close"
+            onClick={() => dismissToast(toast.id)}
+            aria-label="Dismiss notification"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
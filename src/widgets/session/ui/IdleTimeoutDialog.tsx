@@ -0,0 +1,59 @@
+import { useCallback } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { loginPathFor, useAuth, useIdleTimeout } from "@/shared/auth";
+import { env } from "@/shared/config/env";
+import "./SessionDialog.css";
+
+const WARNING_MS = 60_000;
+
+export default function IdleTimeoutDialog() {
+  const { isAuthenticated, logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const timeoutMs = env.idleTimeoutMinutes * 60_000;
+
+  // Toasts live in the authenticated layout, which is gone after sign-out, so the
+  // login page explains the sign-out instead.
+  const handleTimeout = useCallback(() => {
+    logout();
+    navigate(loginPathFor(location, "idle"), { replace: true });
+  }, [location, logout, navigate]);
+
+  const { remainingMs, stayActive } = useIdleTimeout({
+    enabled: isAuthenticated,
+    timeoutMs,
+    warningMs: Math.min(WARNING_MS, timeoutMs),
+    onTimeout: handleTimeout
+  });
+
+  if (remainingMs === null) {
+    return null;
+  }
+
+  const seconds = Math.ceil(remainingMs / 1000);
+
+  return (
+    <div
+      className="session-dialog"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="idle-title"
+    >
+      <div className="session-dialog__overlay" />
+      <div className="session-dialog__panel">
+        <h2 id="idle-title">Are you still there?</h2>
+        <p>
+          You will be signed out in <strong>{seconds}s</strong> because of inactivity.
+        </p>
+        <div className="session-dialog__actions">
+          <button type="button" className="session-dialog__button" onClick={logout}>
+            Sign out
+          </button>
+          <button type="button" className="session-dialog__primary" onClick={stayActive} autoFocus>
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import {
+  cancelReauthentication,
+  resolveReauthentication,
+  setReauthPromptHandler,
+  useAuth
+} from "@/shared/auth";
+import { subscribeSessionEvents } from "@/shared/auth/session";
+import { isHttpError } from "@/shared/api/errorHandling";
+import "./SessionDialog.css";
+
+type ReauthFormValues = {
+  password: string;
+};
+
+/**
+ * Shown over the current page when the session can no longer be refreshed. Requests that
+ * failed with 401 wait for it and are replayed after sign-in, so nothing on the page is lost.
+ */
+export default function SessionExpiredDialog() {
+  const { user, login, logout } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const username = user?.email ?? "";
+  const userId = user?.id ?? null;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting }
+  } = useForm<ReauthFormValues>({ defaultValues: { password: "" } });
+
+  // Without a loaded user there is nobody to re-authenticate; the request fails instead.
+  useEffect(() => {
+    if (userId === null) return;
+    const unregister = setReauthPromptHandler(() => setOpen(true));
+    return () => {
+      unregister();
+      cancelReauthentication();
+    };
+  }, [userId]);
+
+  // Signing in or out in another tab settles the prompt here too.
+  useEffect(
+    () =>
+      subscribeSessionEvents((event) => {
+        if (event.type === "login") {
+          resolveReauthentication();
+          setOpen(false);
+        } else if (event.type === "logout") {
+          cancelReauthentication();
+          setOpen(false);
+        }
+      }),
+    []
+  );
+
+  if (!open) {
+    return null;
+  }
+
+  const onSubmit = async ({ password }: ReauthFormValues) => {
+    setFormError(null);
+    try {
+      await login({ username, password });
+      reset();
+      setOpen(false);
+      resolveReauthentication();
+    } catch (error) {
+      if (isHttpError(error) && error.status === 401) {
+        setFormError("Invalid password.");
+        return;
+      }
+      setFormError("Unable to sign in. Please try again.");
+    }
+  };
+
+  const handleSignOut = () => {
+    setOpen(false);
+    cancelReauthentication();
+    logout();
+  };
+
+  return (
+    <div
+      className="session-dialog"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-expired-title"
+    >
+      <div className="session-dialog__overlay" />
+      <div className="session-dialog__panel">
+        <h2 id="session-expired-title">Your session has expired</h2>
+        <p>Sign in again to continue. Your unsaved changes are kept.</p>
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="session-dialog__form">
+          <label className="session-dialog__field">
+            Email
+            <input type="email" value={username} className="session-dialog__input" disabled />
+          </label>
+          <label className="session-dialog__field">
+            Password
+            <input
+              type="password"
+              autoComplete="current-password"
+              className="session-dialog__input"
+              autoFocus
+              {...register("password", { required: "Password is required." })}
+            />
+            {errors.password && (
+              <span className="session-dialog__error">{errors.password.message}</span>
+            )}
+          </label>
+          {formError && <span className="session-dialog__error">{formError}</span>}
+          <div className="session-dialog__actions">
+            <button type="button" className="session-dialog__button" onClick={handleSignOut}>
+              Sign out
+            </button>
+            <button type="submit" className="session-dialog__primary" disabled={isSubmitting}>
+              {isSubmitting ? "Signing in..." : "Sign in"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { unitsApi } from "@/api/units";
+import type { UnitRecord, UnitType } from "@/api/units";
+import { HttpError } from "@/shared/api/httpClient";
+import BulkUnitGenerator from "@/widgets/units/ui/BulkUnitGenerator";
+
+vi.mock("@/contexts/FacilityContext", () => ({
+  useFacility: () => ({ selectedFacilityId: "1" })
+}));
+
+const unitTypes = [{ id: 3, name: "Small" }] as UnitType[];
+const existing: UnitRecord[] = [
+  { id: 1, unit_type: 3, unit_number: "A-002", status: "LIVRE", reservation_expires_at: null }
+];
+
+function renderGenerator() {
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <BulkUnitGenerator units={existing} unitTypes={unitTypes} onClose={() => undefined} />
+    </QueryClientProvider>
+  );
+}
+
+async function fillRange(from: string, to: string) {
+  await userEvent.selectOptions(screen.getByLabelText("Unit Type"), "3");
+  await userEvent.clear(screen.getByLabelText("From"));
+  await userEvent.type(screen.getByLabelText("From"), from);
+  await userEvent.clear(screen.getByLabelText("To"));
+  await userEvent.type(screen.getByLabelText("To"), to);
+}
+
+describe("BulkUnitGenerator", () => {
+  it("skips numbers that already exist and reports failed rows", async () => {
+    const create = vi.spyOn(unitsApi, "create").mockImplementation(async (data) => {
+      if (data.unit_number === "A-003") {
+        throw new HttpError("Bad Request", 400, "/api/v1/inventory/units/", {
+          unit_number: ["Invalid unit number."]
+        });
+      }
+      return { ...existing[0], id: 10, unit_number: data.unit_number };
+    });
+    renderGenerator();
+
+    await fillRange("1", "3");
+    expect(screen.getByText("1 already exist and will be skipped.")).toBeInTheDocument();
+    await userEvent.click(screen.getByRole("button", { name: "Create 2 units" }));
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls.map(([data]) => data.unit_number)).toEqual(["A-001", "A-003"]);
+    expect(await screen.findByText("1 created, 1 failed")).toBeInTheDocument();
+    expect(screen.getByText("A-003: Invalid unit number.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Retry 1 failed" })).toBeInTheDocument();
+  });
+
+  it("explains an invalid range instead of offering to create", async () => {
+    renderGenerator();
+
+    await fillRange("9", "2");
+
+    expect(
+      screen.getByText("The last number must not be lower than the first.")
+    ).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Create 0 units" })).toBeDisabled();
+  });
+});
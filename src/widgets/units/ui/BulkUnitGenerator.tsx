@@ -0,0 +1,332 @@
+import { useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { useQueryClient } from "@tanstack/react-query";
+import { unitsApi } from "@/api/units";
+import type { UnitRecord, UnitType } from "@/api/units";
+import { useFacility } from "@/contexts/FacilityContext";
+import {
+  MAX_BULK_UNITS,
+  findUnitNumberCollisions,
+  generateUnitNumbers
+} from "@/entities/unit/lib/numbering";
+import { unitKeys } from "@/features/units/queries";
+import { mapWithConcurrency } from "@/shared/lib/concurrency";
+import { getRowErrorMessage } from "@/shared/lib/serverErrors";
+import { notify } from "@/shared/notifications";
+import "./BulkUnitGenerator.css";
+
+type BulkUnitFormValues = {
+  unit_type: string;
+  prefix: string;
+  start: string;
+  end: string;
+  digits: string;
+};
+
+type RowResult = {
+  unitNumber: string;
+  error: string | null;
+};
+
+type BulkUnitGeneratorProps = {
+  units: UnitRecord[];
+  unitTypes: UnitType[];
+  onClose: () => void;
+};
+
+const BULK_CONCURRENCY = 4;
+const PREVIEW_LIMIT = 200;
+
+const DEFAULT_FORM_VALUES: BulkUnitFormValues = {
+  unit_type: "",
+  prefix: "A-",
+  start: "1",
+  end: "10",
+  digits: "3"
+};
+
+// Empty inputs become NaN so the range reports them instead of treating them as 0.
+function toNumber(value: string): number {
+  return value.trim() === "" ? Number.NaN : Number(value);
+}
+
+export default function BulkUnitGenerator({ units, unitTypes, onClose }: BulkUnitGeneratorProps) {
+  const queryClient = useQueryClient();
+  const { selectedFacilityId } = useFacility();
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [results, setResults] = useState<RowResult[] | null>(null);
+  const isRunning = progress !== null;
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors }
+  } = useForm<BulkUnitFormValues>({ defaultValues: DEFAULT_FORM_VALUES });
+
+  const [prefix, start, end, digits] = watch(["prefix", "start", "end", "digits"]);
+
+  const range = useMemo(
+    () =>
+      generateUnitNumbers({
+        prefix,
+        start: toNumber(start),
+        end: toNumber(end),
+        digits: toNumber(digits)
+      }),
+    [digits, end, prefix, start]
+  );
+
+  const collisions = useMemo(
+    () =>
+      findUnitNumberCollisions(
+        range.numbers,
+        units.map((unit) => unit.unit_number)
+      ),
+    [range.numbers, units]
+  );
+
+  const newNumbers = range.numbers.filter((value) => !collisions.has(value));
+  const failedRows = results?.filter((row) => row.error !== null) ?? [];
+
+  useEffect(() => {
+    const handleKeydown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" && !isRunning) {
+        event.preventDefault();
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeydown);
+    return () => {
+      document.removeEventListener("keydown", handleKeydown);
+    };
+  }, [isRunning, onClose]);
+
+  const createUnits = async (unitType: number, numbers: string[]) => {
+    setResults(null);
+    setProgress({ completed: 0, total: numbers.length });
+
+    const settled = await mapWithConcurrency(
+      numbers,
+      BULK_CONCURRENCY,
+      (unitNumber) =>
+        unitsApi.create({
+          unit_type: unitType,
+          unit_number: unitNumber,
+          status: "LIVRE",
+          reservation_expires_at: null
+        }),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const rows = settled.map((result) => ({
+      unitNumber: result.item,
+      error: result.status === "rejected" ? getRowErrorMessage(result.reason) : null
+    }));
+    setResults(rows);
+    setProgress(null);
+    await queryClient.invalidateQueries({ queryKey: unitKeys.all(selectedFacilityId) });
+
+    const created = rows.filter((row) => row.error === null).length;
+    if (created > 0) {
+      notify.success(`${created} ${created === 1 ? "unit" : "units"} created.`);
+    }
+  };
+
+  const onSubmit = (values: BulkUnitFormValues) => {
+    if (range.error || newNumbers.length === 0 || isRunning) {
+      return;
+    }
+    void createUnits(Number(values.unit_type), newNumbers);
+  };
+
+  const retryFailed = (values: BulkUnitFormValues) => {
+    if (failedRows.length === 0 || isRunning) {
+      return;
+    }
+    void createUnits(
+      Number(values.unit_type),
+      failedRows.map((row) => row.unitNumber)
+    );
+  };
+
+  return (
+    <div
+      className="bulk-units-modal"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="bulk-units-title"
+    >
+      <div className="bulk-units-modal__overlay" onClick={isRunning ? undefined : onClose} />
+      <div className="bulk-units-modal__panel">
+        <div className="bulk-units-modal__header">
+          <h2 id="bulk-units-title">Generate units</h2>
+          <button
+            type="button"
+            className="bulk-units-modal__close"
+            onClick={onClose}
+            disabled={isRunning}
+            aria-label="Close"
+          >
+            <svg
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <form className="bulk-units-form" onSubmit={handleSubmit(onSubmit)}>
+          <fieldset className="bulk-units-form__fields" disabled={isRunning}>
+            <label className="bulk-units-field bulk-units-field--full">
+              <span>Unit Type</span>
+              <select
+                {...register("unit_type", { required: "Unit type is required." })}
+                className={
+                  errors.unit_type ? "bulk-units-input bulk-units-input--error" : "bulk-units-input"
+                }
+              >
+                <option value="">Select a unit type</option>
+                {unitTypes.map((unitType) => (
+                  <option key={unitType.id} value={unitType.id}>
+                    {unitType.name}
+                  </option>
+                ))}
+              </select>
+              {errors.unit_type && (
+                <span className="bulk-units-error">{errors.unit_type.message}</span>
+              )}
+            </label>
+
+            <label className="bulk-units-field">
+              <span>Prefix</span>
+              <input type="text" {...register("prefix")} className="bulk-units-input" />
+            </label>
+
+            <label className="bulk-units-field">
+              <span>Digits</span>
+              <input
+                type="number"
+                min={0}
+                max={8}
+                {...register("digits")}
+                className="bulk-units-input"
+              />
+            </label>
+
+            <label className="bulk-units-field">
+              <span>From</span>
+              <input type="number" min={0} {...register("start")} className="bulk-units-input" />
+            </label>
+
+            <label className="bulk-units-field">
+              <span>To</span>
+              <input type="number" min={0} {...register("end")} className="bulk-units-input" />
+            </label>
+          </fieldset>
+
+          <section className="bulk-units-preview" aria-label="Preview">
+            {range.error ? (
+              <p className="bulk-units-error">{range.error}</p>
+            ) : (
+              <>
+                <p className="bulk-units-preview__summary">
+                  {range.numbers.length} numbers, {range.numbers[0]} to{" "}
+                  {range.numbers[range.numbers.length - 1]}.{" "}
+                  {collisions.size > 0 && (
+                    <strong>{collisions.size} already exist and will be skipped.</strong>
+                  )}
+                </p>
+                <ul className="bulk-units-preview__list">
+                  {range.numbers.slice(0, PREVIEW_LIMIT).map((value) => (
+                    <li
+                      key={value}
+                      className={
+                        collisions.has(value)
+                          ? "bulk-units-chip bulk-units-chip--taken"
+                          : "bulk-units-chip"
+                      }
+                      title={collisions.has(value) ? "Already exists" : undefined}
+                    >
+                      {value}
+                    </li>
+                  ))}
+                  {range.numbers.length > PREVIEW_LIMIT && (
+                    <li className="bulk-units-preview__more">
+                      +{range.numbers.length - PREVIEW_LIMIT} more
+                    </li>
+                  )}
+                </ul>
+              </>
+            )}
+          </section>
+
+          {progress && (
+            <div className="bulk-units-progress" role="status">
+              <span>
+                Creating {progress.completed} of {progress.total}...
+              </span>
+              <progress value={progress.completed} max={progress.total} />
+            </div>
+          )}
+
+          {results && (
+            <div className="bulk-units-report" role="status">
+              <strong>
+                {results.length - failedRows.length} created, {failedRows.length} failed
+              </strong>
+              {failedRows.length > 0 && (
+                <ul className="bulk-units-report__list">
+                  {failedRows.map((row) => (
+                    <li key={row.unitNumber}>
+                      {row.unitNumber}: {row.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="bulk-units-form__actions">
+            <span className="bulk-units-form__hint">
+              New units start as Livre. Up to {MAX_BULK_UNITS} per run.
+            </span>
+            <button
+              type="button"
+              className="bulk-units-button"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              {results ? "Close" : "Cancel"}
+            </button>
+            {failedRows.length > 0 ? (
+              <button
+                type="button"
+                className="bulk-units-primary"
+                onClick={handleSubmit(retryFailed)}
+                disabled={isRunning}
+              >
+                Retry {failedRows.length} failed
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="bulk-units-primary"
+                disabled={isRunning || Boolean(range.error) || newNumbers.length === 0}
+              >
+                {isRunning ? "Creating..." : `Create ${newNumbers.length} units`}
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import type { Contract } from "@/api/contracts";
+import type { UnitRecord } from "@/api/units";
+import UnitFloorMap from "@/widgets/units/ui/UnitFloorMap";
+
+const units: UnitRecord[] = [
+  { id: 1, unit_type: 1, unit_number: "A-1", status: "OCUPADA", reservation_expires_at: null },
+  { id: 2, unit_type: 1, unit_number: "A-2", status: "LIVRE", reservation_expires_at: null }
+];
+
+const contract = {
+  id: 40,
+  tenant: 5,
+  unit: 1,
+  move_in: "2026-02-01",
+  status: "ACTIVE"
+} as Contract;
+
+const saveLayout = vi.fn();
+
+vi.mock("@/contexts/FacilityContext", () => ({
+  useFacility: () => ({ selectedFacilityId: "1" })
+}));
+
+vi.mock("@/features/contracts/queries", () => ({
+  useContracts: () => ({ data: [contract] })
+}));
+
+vi.mock("@/features/tenants/queries", () => ({
+  useTenants: () => ({ data: [{ id: 5, first_name: "Ana", last_name: "Souza" }] })
+}));
+
+vi.mock("@/features/units/queries", () => ({
+  useFloorLayout: () => ({
+    data: { tiles: [{ unit: 2, x: 0, y: 0 }], updated_at: null },
+    isError: false,
+    isLoading: false
+  }),
+  useSaveFloorLayout: () => ({ mutateAsync: saveLayout, isPending: false })
+}));
+
+function renderMap(canEditLayout: boolean, onOpenUnit = vi.fn()) {
+  render(
+    <UnitFloorMap
+      units={units}
+      unitTypes={[]}
+      canEditLayout={canEditLayout}
+      onOpenUnit={onOpenUnit}
+    />
+  );
+}
+
+describe("UnitFloorMap", () => {
+  it("describes the tenant and contract and opens the unit on click", async () => {
+    const onOpenUnit = vi.fn();
+    renderMap(false, onOpenUnit);
+
+    const tile = screen.getByRole("button", { name: "A-1, Ocupada, Ana Souza, Contract #40" });
+    await userEvent.click(tile);
+
+    expect(onOpenUnit).toHaveBeenCalledWith(units[0]);
+    expect(screen.queryByRole("button", { name: "Edit layout" })).not.toBeInTheDocument();
+  });
+
+  it("lets a manager move a tile and save the layout", async () => {
+    saveLayout.mockResolvedValue(undefined);
+    renderMap(true);
+
+    await userEvent.click(screen.getByRole("button", { name: "Edit layout" }));
+    await userEvent.click(screen.getByRole("button", { name: "A-2, Livre" }));
+    await userEvent.keyboard("{ArrowRight}");
+    await userEvent.click(screen.getByRole("button", { name: "Save layout" }));
+
+    expect(saveLayout).toHaveBeenCalledWith({
+      tiles: [
+        { unit: 2, x: 1, y: 0 },
+        { unit: 1, x: 0, y: 2 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,414 @@
+import { useMemo, useState } from "react";
+import type { CSSProperties, DragEvent, KeyboardEvent } from "react";
+import type { Contract } from "@/api/contracts";
+import type { FloorTile, UnitRecord, UnitStatus, UnitType } from "@/api/units";
+import { useFacility } from "@/contexts/FacilityContext";
+import {
+  DEFAULT_FLOOR_COLUMNS,
+  buildFloorTiles,
+  groupUnits,
+  moveFloorTile,
+  resolveFloorTiles
+} from "@/entities/unit/lib/floorMap";
+import type { FloorGroupBy } from "@/entities/unit/lib/floorMap";
+import { UNIT_STATUS_COLORS, UNIT_STATUS_LABELS } from "@/entities/unit/lib/status";
+import { useContracts } from "@/features/contracts/queries";
+import { useTenants } from "@/features/tenants/queries";
+import { useFloorLayout, useSaveFloorLayout } from "@/features/units/queries";
+import { notifyHttpError } from "@/shared/api/errorHandling";
+import { notify } from "@/shared/notifications";
+import "./UnitFloorMap.css";
+
+type MapMode = "plan" | "grouped";
+
+type Occupancy = {
+  contract: Contract;
+  tenantName: string;
+};
+
+type UnitFloorMapProps = {
+  units: UnitRecord[];
+  unitTypes: UnitType[];
+  // Units matching the page filters; the others are dimmed.
+  highlightedIds?: Set<number>;
+  canEditLayout: boolean;
+  onOpenUnit: (unit: UnitRecord) => void;
+};
+
+const EMPTY_TILES: FloorTile[] = [];
+const EMPTY_CONTRACTS: Contract[] = [];
+const DRAG_DATA_TYPE = "application/x-unit-id";
+const STATUS_ORDER = Object.keys(UNIT_STATUS_LABELS) as UnitStatus[];
+
+const ARROW_OFFSETS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1]
+};
+
+function cellStyle(x: number, y: number): CSSProperties {
+  return { gridColumn: x + 1, gridRow: y + 1 };
+}
+
+export default function UnitFloorMap({
+  units,
+  unitTypes,
+  highlightedIds,
+  canEditLayout,
+  onOpenUnit
+}: UnitFloorMapProps) {
+  const { selectedFacilityId } = useFacility();
+  const layoutQuery = useFloorLayout();
+  const saveLayout = useSaveFloorLayout();
+  const contractsQuery = useContracts({ status: "ACTIVE" });
+  const tenantsQuery = useTenants();
+  const [mode, setMode] = useState<MapMode>("plan");
+  const [groupBy, setGroupBy] = useState<FloorGroupBy>("aisle");
+  // Non-null while a manager is editing the plan; nothing is saved until they confirm.
+  const [draftTiles, setDraftTiles] = useState<FloorTile[] | null>(null);
+  const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
+  const [draggingUnitId, setDraggingUnitId] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const isEditing = draftTiles !== null;
+  const savedTiles = layoutQuery.data?.tiles ?? EMPTY_TILES;
+  const contracts = contractsQuery.data ?? EMPTY_CONTRACTS;
+  const tenants = tenantsQuery.data;
+
+  const unitTypeNames = useMemo(
+    () => new Map(unitTypes.map((unitType) => [unitType.id, unitType.name])),
+    [unitTypes]
+  );
+  const unitsById = useMemo(() => new Map(units.map((unit) => [unit.id, unit])), [units]);
+
+  const occupancyByUnit = useMemo(() => {
+    const tenantNames = new Map(
+      (tenants ?? []).map((tenant) => [tenant.id, `${tenant.first_name} ${tenant.last_name}`])
+    );
+    const occupancy = new Map<number, Occupancy>();
+    contracts.forEach((contract) => {
+      occupancy.set(contract.unit, {
+        contract,
+        tenantName: tenantNames.get(contract.tenant) ?? `Tenant #${contract.tenant}`
+      });
+    });
+    return occupancy;
+  }, [contracts, tenants]);
+
+  const tiles = useMemo(
+    () => draftTiles ?? resolveFloorTiles(units, savedTiles),
+    [draftTiles, savedTiles, units]
+  );
+
+  const groups = useMemo(
+    () => groupUnits(units, groupBy, unitTypeNames),
+    [groupBy, unitTypeNames, units]
+  );
+
+  const statusCounts = useMemo(
+    () =>
+      units.reduce<Partial<Record<UnitStatus, number>>>((acc, unit) => {
+        acc[unit.status] = (acc[unit.status] ?? 0) + 1;
+        return acc;
+      }, {}),
+    [units]
+  );
+
+  // Editing leaves a spare column and rows so tiles can be dragged past the current plan.
+  const spareColumns = isEditing ? 1 : 0;
+  const spareRows = isEditing ? 2 : 0;
+  const columnCount = Math.max(
+    DEFAULT_FLOOR_COLUMNS,
+    ...tiles.map((tile) => tile.x + 1 + spareColumns)
+  );
+  const rowCount = Math.max(1, ...tiles.map((tile) => tile.y + 1)) + spareRows;
+
+  const emptyCells = useMemo(() => {
+    if (!isEditing) return [];
+    const used = new Set(tiles.map((tile) => `${tile.x}:${tile.y}`));
+    const cells: { x: number; y: number }[] = [];
+    for (let y = 0; y < rowCount; y += 1) {
+      for (let x = 0; x < columnCount; x += 1) {
+        if (!used.has(`${x}:${y}`)) cells.push({ x, y });
+      }
+    }
+    return cells;
+  }, [columnCount, isEditing, rowCount, tiles]);
+
+  const startEditing = () => {
+    setSaveError(null);
+    setSelectedUnitId(null);
+    setDraftTiles(tiles);
+  };
+
+  const cancelEditing = () => {
+    setSaveError(null);
+    setSelectedUnitId(null);
+    setDraftTiles(null);
+  };
+
+  const autoArrange = () => {
+    setDraftTiles(buildFloorTiles(groupUnits(units, groupBy, unitTypeNames)));
+  };
+
+  const moveTile = (unitId: number, x: number, y: number) => {
+    setDraftTiles((prev) => (prev ? moveFloorTile(prev, unitId, x, y) : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draftTiles) return;
+    setSaveError(null);
+    try {
+      await saveLayout.mutateAsync({ tiles: draftTiles });
+      notify.success("Floor layout saved.");
+      setSelectedUnitId(null);
+      setDraftTiles(null);
+    } catch (error) {
+      if (!notifyHttpError(error)) {
+        setSaveError("Unable to save the floor layout. Please try again.");
+      }
+    }
+  };
+
+  const handleTileClick = (unit: UnitRecord) => {
+    if (isEditing) {
+      setSelectedUnitId((prev) => (prev === unit.id ? null : unit.id));
+      return;
+    }
+    onOpenUnit(unit);
+  };
+
+  const handleTileKeyDown = (event: KeyboardEvent<HTMLButtonElement>, tile: FloorTile) => {
+    const offset = ARROW_OFFSETS[event.key];
+    if (!isEditing || selectedUnitId !== tile.unit || !offset) return;
+    event.preventDefault();
+    moveTile(tile.unit, tile.x + offset[0], tile.y + offset[1]);
+  };
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, unitId: number) => {
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData(DRAG_DATA_TYPE, String(unitId));
+    setDraggingUnitId(unitId);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLElement>) => {
+    if (draggingUnitId === null) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, x: number, y: number) => {
+    event.preventDefault();
+    const unitId = Number(event.dataTransfer.getData(DRAG_DATA_TYPE)) || draggingUnitId;
+    setDraggingUnitId(null);
+    if (unitId) moveTile(unitId, x, y);
+  };
+
+  const describeUnit = (unit: UnitRecord): string => {
+    const occupancy = occupancyByUnit.get(unit.id);
+    const parts = [unit.unit_number, UNIT_STATUS_LABELS[unit.status]];
+    if (occupancy) {
+      parts.push(occupancy.tenantName, `Contract #${occupancy.contract.id}`);
+    }
+    return parts.join(", ");
+  };
+
+  const renderTile = (unit: UnitRecord, tile?: FloorTile) => {
+    const occupancy = occupancyByUnit.get(unit.id);
+    const isDimmed = highlightedIds ? !highlightedIds.has(unit.id) : false;
+    const className = [
+      "unit-map-tile",
+      isDimmed && "unit-map-tile--dimmed",
+      isEditing && "unit-map-tile--editing",
+      selectedUnitId === unit.id && "unit-map-tile--selected"
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    return (
+      <button
+        key={unit.id}
+        type="button"
+        className={className}
+        style={{
+          ...(tile ? cellStyle(tile.x, tile.y) : undefined),
+          background: UNIT_STATUS_COLORS[unit.status]
+        }}
+        aria-label={describeUnit(unit)}
+        aria-pressed={isEditing ? selectedUnitId === unit.id : undefined}
+        draggable={isEditing && Boolean(tile)}
+        onClick={() => handleTileClick(unit)}
+        onKeyDown={tile ? (event) => handleTileKeyDown(event, tile) : undefined}
+        onDragStart={tile ? (event) => handleDragStart(event, unit.id) : undefined}
+        onDragEnd={() => setDraggingUnitId(null)}
+        onDragOver={isEditing && tile ? handleDragOver : undefined}
+        onDrop={isEditing && tile ? (event) => handleDrop(event, tile.x, tile.y) : undefined}
+      >
+        <span className="unit-map-tile__number">{unit.unit_number}</span>
+        {!isEditing && (
+          <span className="unit-map-tile__tooltip" aria-hidden="true">
+            <strong>{unit.unit_number}</strong>
+            <span>
+              {unitTypeNames.get(unit.unit_type) ?? `Type #${unit.unit_type}`} ·{" "}
+              {UNIT_STATUS_LABELS[unit.status]}
+            </span>
+            {occupancy ? (
+              <>
+                <span>{occupancy.tenantName}</span>
+                <span>
+                  Contract #{occupancy.contract.id} since{" "}
+                  {new Date(occupancy.contract.move_in).toLocaleDateString()}
+                </span>
+              </>
+            ) : (
+              <span className="unit-map-tile__muted">No active contract</span>
+            )}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="unit-map">
+      <div className="unit-map__toolbar">
+        <div className="unit-map__modes" role="group" aria-label="Map layout">
+          <button
+            type="button"
+            className={`unit-map__mode ${mode === "plan" ? "unit-map__mode--active" : ""}`}
+            onClick={() => setMode("plan")}
+            aria-pressed={mode === "plan"}
+          >
+            Floor plan
+          </button>
+          <button
+            type="button"
+            className={`unit-map__mode ${mode === "grouped" ? "unit-map__mode--active" : ""}`}
+            onClick={() => setMode("grouped")}
+            aria-pressed={mode === "grouped"}
+            disabled={isEditing}
+          >
+            Grouped
+          </button>
+        </div>
+
+        {(mode === "grouped" || isEditing) && (
+          <label className="unit-map__group-by">
+            <span>Group by</span>
+            <select
+              value={groupBy}
+              onChange={(event) => setGroupBy(event.target.value as FloorGroupBy)}
+            >
+              <option value="aisle">Row / aisle</option>
+              <option value="type">Unit type</option>
+            </select>
+          </label>
+        )}
+
+        <div className="unit-map__edit-actions">
+          {isEditing ? (
+            <>
+              <button type="button" className="unit-map__button" onClick={autoArrange}>
+                Auto-arrange
+              </button>
+              <button type="button" className="unit-map__button" onClick={cancelEditing}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="unit-map__button unit-map__button--primary"
+                onClick={handleSave}
+                disabled={saveLayout.isPending}
+              >
+                {saveLayout.isPending ? "Saving..." : "Save layout"}
+              </button>
+            </>
+          ) : (
+            canEditLayout &&
+            mode === "plan" && (
+              <button
+                type="button"
+                className="unit-map__button"
+                onClick={startEditing}
+                disabled={!selectedFacilityId || layoutQuery.isLoading}
+                title={selectedFacilityId ? undefined : "Select a facility to edit its layout."}
+              >
+                Edit layout
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      {isEditing && (
+        <p className="unit-map__hint">
+          Drag tiles to a new cell, or select a tile and move it with the arrow keys. Dropping on
+          another tile swaps the two.
+        </p>
+      )}
+      {saveError && <div className="unit-map__alert">{saveError}</div>}
+      {layoutQuery.isError && (
+        <div className="unit-map__alert">
+          Unable to load the saved floor layout. Showing the default arrangement.
+        </div>
+      )}
+
+      {mode === "plan" ? (
+        <div className="unit-map__scroll">
+          <div
+            className="unit-map-grid"
+            style={{
+              gridTemplateColumns: `repeat(${columnCount}, var(--unit-map-tile-size))`,
+              gridTemplateRows: `repeat(${rowCount}, var(--unit-map-tile-size))`
+            }}
+          >
+            {emptyCells.map((cell) => (
+              <div
+                key={`${cell.x}:${cell.y}`}
+                className="unit-map-cell"
+                style={cellStyle(cell.x, cell.y)}
+                onDragOver={handleDragOver}
+                onDrop={(event) => handleDrop(event, cell.x, cell.y)}
+                onClick={() => {
+                  if (selectedUnitId !== null) moveTile(selectedUnitId, cell.x, cell.y);
+                }}
+              />
+            ))}
+            {tiles.map((tile) => {
+              const unit = unitsById.get(tile.unit);
+              return unit ? renderTile(unit, tile) : null;
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="unit-map__groups">
+          {groups.map((group) => (
+            <section key={group.key} className="unit-map-group">
+              <h3 className="unit-map-group__title">
+                {group.label}
+                <span className="unit-map-group__count">{group.units.length}</span>
+              </h3>
+              <div className="unit-map-group__tiles">
+                {group.units.map((unit) => renderTile(unit))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+
+      <ul className="unit-map__legend">
+        {STATUS_ORDER.map((status) => (
+          <li key={status}>
+            <span
+              className="unit-map__legend-dot"
+              style={{ background: UNIT_STATUS_COLORS[status] }}
+            />
+            {UNIT_STATUS_LABELS[status]}
+            <span className="unit-map__legend-count">{statusCounts[status] ?? 0}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
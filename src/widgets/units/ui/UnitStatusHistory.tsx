@@ -0,0 +1,66 @@
+import { UNIT_STATUS_COLORS, UNIT_STATUS_LABELS } from "@/entities/unit/lib/status";
+import { useUnitStatusHistory } from "@/features/units/queries";
+import "./UnitStatusHistory.css";
+
+type UnitStatusHistoryProps = {
+  unitId: number;
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "short"
+  });
+}
+
+export default function UnitStatusHistory({ unitId }: UnitStatusHistoryProps) {
+  const historyQuery = useUnitStatusHistory(unitId);
+  const entries = [...(historyQuery.data ?? [])].sort(
+    (a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime()
+  );
+
+  return (
+    <section className="unit-history" aria-labelledby="unit-history-title">
+      <h3 id="unit-history-title">Status history</h3>
+      {historyQuery.isLoading ? (
+        <p className="unit-history__empty">Loading history...</p>
+      ) : historyQuery.isError ? (
+        <p className="unit-history__empty">Unable to load the status history.</p>
+      ) : entries.length === 0 ? (
+        <p className="unit-history__empty">No status changes recorded yet.</p>
+      ) : (
+        <ol className="unit-history__list">
+          {entries.map((entry) => (
+            <li key={entry.id} className="unit-history__item">
+              <div className="unit-history__header">
+                <span className="unit-history__statuses">
+                  {entry.from_status && (
+                    <>
+                      <span
+                        className="unit-history__dot"
+                        style={{ background: UNIT_STATUS_COLORS[entry.from_status] }}
+                      />
+                      {UNIT_STATUS_LABELS[entry.from_status]} →{" "}
+                    </>
+                  )}
+                  <span
+                    className="unit-history__dot"
+                    style={{ background: UNIT_STATUS_COLORS[entry.to_status] }}
+                  />
+                  <strong>{UNIT_STATUS_LABELS[entry.to_status]}</strong>
+                </span>
+                <time dateTime={entry.changed_at}>{formatDate(entry.changed_at)}</time>
+              </div>
+              {entry.reason && <p className="unit-history__reason">{entry.reason}</p>}
+              {entry.changed_by && (
+                <span className="unit-history__author">
+                  by {entry.changed_by.name || entry.changed_by.email}
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}